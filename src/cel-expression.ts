@@ -0,0 +1,358 @@
+/**
+ * Lexer and parser for the subset of CEL (Common Expression Language) that
+ * OpenFGA condition expressions use.
+ */
+
+export type CelLiteral =
+  | { type: 'string'; value: string }
+  | { type: 'int' | 'uint'; value: bigint }
+  | { type: 'double'; value: number }
+  | { type: 'bool'; value: boolean }
+  | { type: 'null' };
+
+interface Span {
+  /**
+   * 0-based offset and end offset within the expression text.
+   */
+  start: number;
+  end: number;
+}
+
+export type CelExpr = Span & (
+  | { kind: 'literal'; value: CelLiteral }
+  | { kind: 'ident'; name: string }
+  | { kind: 'select'; operand: CelExpr; field: string }
+  | { kind: 'index'; operand: CelExpr; index: CelExpr }
+  | { kind: 'call'; name: string; target?: CelExpr; args: CelExpr[] }
+  | { kind: 'list'; elements: CelExpr[] }
+  | { kind: 'map'; entries: { key: CelExpr; value: CelExpr }[] }
+  | { kind: 'unary'; op: '!' | '-'; operand: CelExpr }
+  | { kind: 'binary'; op: BinaryOperator; left: CelExpr; right: CelExpr }
+  | { kind: 'conditional'; test: CelExpr; then: CelExpr; otherwise: CelExpr }
+);
+
+export type BinaryOperator = '||' | '&&' | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | '+' | '-' | '*' | '/' | '%';
+
+export class CelSyntaxError extends Error {
+  constructor(message: string, public readonly start: number, public readonly end: number) {
+    super(message);
+    this.name = 'CelSyntaxError';
+  }
+}
+
+type TokenKind = 'int' | 'uint' | 'double' | 'string' | 'ident' | 'punct' | 'eof';
+
+interface Token extends Span {
+  kind: TokenKind;
+  text: string;
+  value?: string | bigint | number;
+}
+
+const PUNCTUATION = ['||', '&&', '==', '!=', '<=', '>=', '<', '>', '!', '+', '-', '*', '/', '%', '?', ':', '.', ',', '(', ')', '[', ']', '{', '}'];
+
+const RESERVED = new Set([
+  'as', 'break', 'const', 'continue', 'else', 'for', 'function', 'if', 'import', 'let', 'loop', 'package',
+  'namespace', 'return', 'var', 'void', 'while'
+]);
+
+const RELATIONAL: BinaryOperator[] = ['==', '!=', '<', '<=', '>', '>=', 'in'];
+
+const ESCAPES: Record<string, string> = {
+  n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', v: '\v', a: '\x07', '\\': '\\', '"': '"', "'": "'", '`': '`', '?': '?'
+};
+
+function readString(text: string, start: number): { value: string; end: number } {
+  let position = start;
+  const raw = text[position] === 'r' || text[position] === 'R';
+  if (raw) {
+    position++;
+  }
+  const quote = text.startsWith(text[position].repeat(3), position) ? text[position].repeat(3) : text[position];
+  position += quote.length;
+
+  let value = '';
+  while (position < text.length) {
+    if (text.startsWith(quote, position)) {
+      return { value, end: position + quote.length };
+    }
+    const ch = text[position];
+    if (ch === '\n' && quote.length === 1) {
+      break;
+    }
+    if (ch === '\\' && !raw) {
+      const next = text[position + 1];
+      if (next in ESCAPES) {
+        value += ESCAPES[next];
+        position += 2;
+        continue;
+      }
+      const hex = next === 'x' ? 2 : next === 'u' ? 4 : next === 'U' ? 8 : 0;
+      if (hex > 0 && new RegExp(`^[0-9a-fA-F]{${hex}}`).test(text.slice(position + 2))) {
+        value += String.fromCodePoint(parseInt(text.slice(position + 2, position + 2 + hex), 16));
+        position += 2 + hex;
+        continue;
+      }
+      if (/^[0-3][0-7]{2}$/.test(text.slice(position + 1, position + 4))) {
+        value += String.fromCharCode(parseInt(text.slice(position + 1, position + 4), 8));
+        position += 4;
+        continue;
+      }
+      throw new CelSyntaxError(`Invalid escape sequence '\\${next ?? ''}'`, position, position + 2);
+    }
+    value += ch;
+    position++;
+  }
+  throw new CelSyntaxError('Unterminated string literal', start, position);
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    const rest = text.slice(position);
+    const space = /^(\s+|\/\/[^\n]*)/.exec(rest);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+
+    const start = position;
+    if (/^[rR]?['"]/.test(rest)) {
+      const { value, end } = readString(text, position);
+      tokens.push({ kind: 'string', text: text.slice(start, end), value, start, end });
+      position = end;
+      continue;
+    }
+
+    const number = /^(0[xX][0-9a-fA-F]+[uU]?|(\d+\.\d+([eE][+-]?\d+)?|\d+[eE][+-]?\d+|\.\d+([eE][+-]?\d+)?)|\d+[uU]?)/.exec(rest);
+    if (number) {
+      const literal = number[0];
+      const end = start + literal.length;
+      if (number[2] !== undefined) {
+        tokens.push({ kind: 'double', text: literal, value: Number(literal), start, end });
+      } else {
+        const unsigned = /[uU]$/.test(literal);
+        const digits = unsigned ? literal.slice(0, -1) : literal;
+        tokens.push({ kind: unsigned ? 'uint' : 'int', text: literal, value: BigInt(digits), start, end });
+      }
+      position = end;
+      continue;
+    }
+
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest);
+    if (ident) {
+      tokens.push({ kind: 'ident', text: ident[0], start, end: start + ident[0].length });
+      position += ident[0].length;
+      continue;
+    }
+
+    const punct = PUNCTUATION.find(candidate => rest.startsWith(candidate));
+    if (!punct) {
+      throw new CelSyntaxError(`Unexpected character '${rest[0]}'`, start, start + 1);
+    }
+    tokens.push({ kind: 'punct', text: punct, start, end: start + punct.length });
+    position += punct.length;
+  }
+
+  tokens.push({ kind: 'eof', text: '', start: text.length, end: text.length });
+  return tokens;
+}
+
+class CelParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  public parseExpression(): CelExpr {
+    const expression = this.parseConditional();
+    const next = this.peek();
+    if (next.kind !== 'eof') {
+      throw new CelSyntaxError(`Unexpected '${next.text}'`, next.start, next.end);
+    }
+    return expression;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++];
+  }
+
+  private accept(text: string): Token | undefined {
+    const token = this.peek();
+    if ((token.kind === 'punct' || token.kind === 'ident') && token.text === text) {
+      this.position++;
+      return token;
+    }
+    return undefined;
+  }
+
+  private expect(text: string): Token {
+    const token = this.accept(text);
+    if (!token) {
+      const found = this.peek();
+      throw new CelSyntaxError(`Expected '${text}' but found ${found.kind === 'eof' ? 'end of expression' : `'${found.text}'`}`, found.start, found.end);
+    }
+    return token;
+  }
+
+  private parseConditional(): CelExpr {
+    const test = this.parseBinary(0);
+    if (!this.accept('?')) {
+      return test;
+    }
+    const then = this.parseBinary(0);
+    this.expect(':');
+    const otherwise = this.parseConditional();
+    return { kind: 'conditional', test, then, otherwise, start: test.start, end: otherwise.end };
+  }
+
+  /**
+   * Precedence climbing over ||, &&, relations, additive and multiplicative
+   * operators (lowest first).
+   */
+  private parseBinary(level: number): CelExpr {
+    const levels: BinaryOperator[][] = [['||'], ['&&'], RELATIONAL, ['+', '-'], ['*', '/', '%']];
+    if (level === levels.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      const op = levels[level].find(candidate => candidate === token.text && (token.kind === 'punct' || (token.kind === 'ident' && candidate === 'in')));
+      if (!op) {
+        return left;
+      }
+      this.position++;
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'binary', op, left, right, start: left.start, end: right.end };
+    }
+  }
+
+  private parseUnary(): CelExpr {
+    const token = this.peek();
+    if (token.kind === 'punct' && (token.text === '!' || token.text === '-')) {
+      this.position++;
+      const operand = this.parseUnary();
+      // Fold negative numeric literals so that the most negative int parses.
+      if (token.text === '-' && operand.kind === 'literal' && operand.start === token.end) {
+        const literal = operand.value;
+        if (literal.type === 'int') {
+          return { kind: 'literal', value: { type: 'int', value: -literal.value }, start: token.start, end: operand.end };
+        }
+        if (literal.type === 'double') {
+          return { kind: 'literal', value: { type: 'double', value: -literal.value }, start: token.start, end: operand.end };
+        }
+      }
+      return { kind: 'unary', op: token.text, operand, start: token.start, end: operand.end };
+    }
+    return this.parseMember();
+  }
+
+  private parseMember(): CelExpr {
+    let expression = this.parsePrimary();
+    for (;;) {
+      if (this.accept('.')) {
+        const field = this.next();
+        if (field.kind !== 'ident') {
+          throw new CelSyntaxError(`Expected a field or method name after '.'`, field.start, field.end);
+        }
+        if (this.accept('(')) {
+          const args = this.parseList(')');
+          const end = this.expect(')').end;
+          expression = { kind: 'call', name: field.text, target: expression, args, start: expression.start, end };
+        } else {
+          expression = { kind: 'select', operand: expression, field: field.text, start: expression.start, end: field.end };
+        }
+      } else if (this.accept('[')) {
+        const index = this.parseConditional();
+        const end = this.expect(']').end;
+        expression = { kind: 'index', operand: expression, index, start: expression.start, end };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseList(close: string): CelExpr[] {
+    const items: CelExpr[] = [];
+    while (this.peek().text !== close || this.peek().kind !== 'punct') {
+      items.push(this.parseConditional());
+      if (!this.accept(',')) {
+        break;
+      }
+    }
+    return items;
+  }
+
+  private parsePrimary(): CelExpr {
+    const token = this.next();
+    const { start, end } = token;
+
+    switch (token.kind) {
+      case 'int':
+      case 'uint':
+        return { kind: 'literal', value: { type: token.kind, value: token.value as bigint }, start, end };
+      case 'double':
+        return { kind: 'literal', value: { type: 'double', value: token.value as number }, start, end };
+      case 'string':
+        return { kind: 'literal', value: { type: 'string', value: token.value as string }, start, end };
+      case 'ident':
+        if (token.text === 'true' || token.text === 'false') {
+          return { kind: 'literal', value: { type: 'bool', value: token.text === 'true' }, start, end };
+        }
+        if (token.text === 'null') {
+          return { kind: 'literal', value: { type: 'null' }, start, end };
+        }
+        if (RESERVED.has(token.text) || token.text === 'in') {
+          throw new CelSyntaxError(`'${token.text}' is a reserved word`, start, end);
+        }
+        if (this.accept('(')) {
+          const args = this.parseList(')');
+          return { kind: 'call', name: token.text, args, start, end: this.expect(')').end };
+        }
+        return { kind: 'ident', name: token.text, start, end };
+      case 'eof':
+        throw new CelSyntaxError('Unexpected end of expression', start, end);
+    }
+
+    switch (token.text) {
+      case '(': {
+        const inner = this.parseConditional();
+        this.expect(')');
+        return inner;
+      }
+      case '[': {
+        const elements = this.parseList(']');
+        return { kind: 'list', elements, start, end: this.expect(']').end };
+      }
+      case '{': {
+        const entries: { key: CelExpr; value: CelExpr }[] = [];
+        while (this.peek().text !== '}' || this.peek().kind !== 'punct') {
+          const key = this.parseConditional();
+          this.expect(':');
+          entries.push({ key, value: this.parseConditional() });
+          if (!this.accept(',')) {
+            break;
+          }
+        }
+        return { kind: 'map', entries, start, end: this.expect('}').end };
+      }
+      case '.':
+        // Leading dot: fully qualified identifier.
+        return this.parsePrimary();
+    }
+    throw new CelSyntaxError(`Unexpected '${token.text}'`, start, end);
+  }
+}
+
+/**
+ * Parse a CEL expression. Throws CelSyntaxError with the offending span.
+ */
+export function parseCel(text: string): CelExpr {
+  return new CelParser(tokenize(text)).parseExpression();
+}
@@ -0,0 +1,143 @@
+import { Diagnostic, parseDsl } from './dsl-parser.js';
+import { ModelValidator } from './model-validator.js';
+import { CelConditionEvaluator } from './condition-evaluator.js';
+import {
+  ConditionEvaluator,
+  EvaluationContext,
+  EvaluationError,
+  ExplanationNode,
+  ExplanationOutcome,
+  RelationshipGraph
+} from './relationship-graph.js';
+import { RelationshipTuple, TupleFormat, detectTupleContentFormat, parseTuples } from './tuple-formats.js';
+
+/**
+ * Explains a check: why `user` does or does not have `relation` on `object`,
+ * as the evaluation tree of the in-process relationship graph.
+ */
+
+export interface CheckQuery {
+  user: string;
+  relation: string;
+  object: string;
+  context?: EvaluationContext;
+}
+
+export interface ExplainOptions {
+  /**
+   * Format of the tuples; inferred from the content when omitted.
+   */
+  format?: TupleFormat;
+}
+
+export interface CheckExplanation {
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  /**
+   * `error` when a condition on a path that could grant access could not be
+   * evaluated and no other path grants it.
+   */
+  outcome: ExplanationOutcome;
+  allowed: boolean;
+  tree?: ExplanationNode;
+  /**
+   * The tree as indented text, one node per line.
+   */
+  rendering: string;
+}
+
+export class ExplainError extends Error {}
+
+const OUTCOME_MARKERS: Record<ExplanationOutcome, string> = {
+  allowed: '✓',
+  denied: '✗',
+  error: '!'
+};
+
+function formatContext(context: EvaluationContext): string {
+  return Object.entries(context).map(([name, value]) => `${name}=${JSON.stringify(value)}`).join(', ');
+}
+
+function describeNode(node: ExplanationNode): string {
+  switch (node.kind) {
+    case 'direct':
+      return `direct ${node.label}`;
+    case 'computed':
+      return `computed ${node.label}`;
+    case 'tuple':
+      return `tuple ${node.label}${node.tuple?.condition ? ` with ${node.tuple.condition.name}` : ''}`;
+    case 'condition': {
+      const context = formatContext(node.context ?? {});
+      return `${node.label}${context ? ` {${context}}` : ''}`;
+    }
+    default:
+      // Relations, set operators and "X from Y" read as their label; the
+      // relation's rewrite is the next line.
+      return node.label;
+  }
+}
+
+/**
+ * Render an explanation tree as indented lines: `✓` granted, `✗` denied and
+ * `!` could not be evaluated.
+ */
+export function formatExplanation(node: ExplanationNode, depth = 0): string {
+  const indent = '  '.repeat(depth);
+  const notes = [node.reason, node.error].filter(Boolean).map(note => ` - ${note}`).join('');
+  const lines = [`${indent}${OUTCOME_MARKERS[node.outcome]} ${describeNode(node)}${notes}`];
+  for (const child of node.children) {
+    lines.push(formatExplanation(child, depth + 1));
+  }
+  return lines.join('\n');
+}
+
+export class CheckExplainer {
+  constructor(
+    private readonly validator: ModelValidator = new ModelValidator(),
+    private readonly conditionEvaluator: ConditionEvaluator = new CelConditionEvaluator()
+  ) {}
+
+  /**
+   * Throws ExplainError for unparseable tuples or a query that does not fit
+   * the model (unknown type or relation, malformed user or object).
+   */
+  public explain(model: string, tuples: string, query: CheckQuery, options: ExplainOptions = {}): CheckExplanation {
+    const result: CheckExplanation = {
+      valid: false,
+      diagnostics: this.validator.validate(model).diagnostics,
+      outcome: 'denied',
+      allowed: false,
+      rendering: ''
+    };
+    if (result.diagnostics.some(d => d.severity === 'error')) {
+      return result;
+    }
+
+    let parsed: RelationshipTuple[] = [];
+    if (tuples.trim().length > 0) {
+      try {
+        parsed = parseTuples(tuples, options.format ?? detectTupleContentFormat(tuples), 'tuples');
+      } catch (error) {
+        throw new ExplainError(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const graph = new RelationshipGraph(parseDsl(model).model, parsed, this.conditionEvaluator);
+    let tree: ExplanationNode;
+    try {
+      tree = graph.explain(query.user, query.relation, query.object, query.context ?? {});
+    } catch (error) {
+      if (error instanceof EvaluationError) {
+        throw new ExplainError(error.message);
+      }
+      throw error;
+    }
+
+    result.valid = true;
+    result.tree = tree;
+    result.outcome = tree.outcome;
+    result.allowed = tree.outcome === 'allowed';
+    result.rendering = formatExplanation(tree);
+    return result;
+  }
+}
@@ -0,0 +1,1440 @@
+import { ConditionDefinition, ConditionParameterType, formatConditionParameterType } from './dsl-parser.js';
+import { CelExpr, CelSyntaxError, parseCel } from './cel-expression.js';
+import { ConditionEvaluationError, ConditionEvaluator, EvaluationContext } from './relationship-graph.js';
+
+/**
+ * Type-checks and evaluates OpenFGA condition expressions (the CEL subset
+ * OpenFGA supports) against typed condition parameters.
+ */
+
+export interface CelType {
+  name: 'string' | 'int' | 'uint' | 'double' | 'bool' | 'null' | 'duration' | 'timestamp' | 'ipaddress' | 'list' | 'map' | 'dyn';
+  /**
+   * Element type of lists, value type of maps.
+   */
+  elem?: CelType;
+  key?: CelType;
+}
+
+interface IpAddress {
+  bytes: number[];
+  text: string;
+}
+
+export type CelValue =
+  | { type: 'string'; value: string }
+  | { type: 'int' | 'uint'; value: bigint }
+  | { type: 'double'; value: number }
+  | { type: 'bool'; value: boolean }
+  | { type: 'null' }
+  | { type: 'duration' | 'timestamp'; value: bigint }
+  | { type: 'ipaddress'; value: IpAddress }
+  | { type: 'list'; value: CelValue[] }
+  | { type: 'map'; value: Map<string, [CelValue, CelValue]> };
+
+export interface ConditionIssue {
+  message: string;
+  /**
+   * 0-based offsets into the condition expression.
+   */
+  start: number;
+  end: number;
+}
+
+export interface ConditionCheckResult {
+  valid: boolean;
+  /**
+   * Type the expression evaluates to (`bool` for a usable condition).
+   */
+  resultType?: string;
+  issues: ConditionIssue[];
+}
+
+export interface ConditionEvaluationResult {
+  condition: string;
+  check: ConditionCheckResult;
+  /**
+   * Parameter values after merging, and where each came from.
+   */
+  context: Record<string, { value: unknown; source: 'tuple' | 'request' }>;
+  missingParameters: string[];
+  result?: boolean;
+  error?: string;
+}
+
+const DYN: CelType = { name: 'dyn' };
+const BOOL: CelType = { name: 'bool' };
+const INT: CelType = { name: 'int' };
+const STRING: CelType = { name: 'string' };
+
+const INT_MIN = -(2n ** 63n);
+const INT_MAX = 2n ** 63n - 1n;
+const UINT_MAX = 2n ** 64n - 1n;
+const NANOS_PER_SECOND = 1_000_000_000n;
+// RFC 3339 timestamps supported by CEL: 0001-01-01 to 9999-12-31.
+const TIMESTAMP_MIN = -62135596800n * NANOS_PER_SECOND;
+const TIMESTAMP_MAX = 253402300800n * NANOS_PER_SECOND - 1n;
+
+/**
+ * Errors raised while evaluating an expression; CEL's logical operators
+ * absorb them when the other operand decides the result.
+ */
+class CelRuntimeError extends Error {}
+
+export function formatCelType(type: CelType): string {
+  if (type.name === 'list') {
+    return `list<${formatCelType(type.elem ?? DYN)}>`;
+  }
+  if (type.name === 'map') {
+    return `map<${formatCelType(type.key ?? STRING)}, ${formatCelType(type.elem ?? DYN)}>`;
+  }
+  return type.name;
+}
+
+/**
+ * CEL type of a declared condition parameter.
+ */
+export function parameterCelType(type: ConditionParameterType): CelType {
+  switch (type.name) {
+    case 'list':
+      return { name: 'list', elem: type.genericTypes[0] ? parameterCelType(type.genericTypes[0]) : DYN };
+    case 'map':
+      return { name: 'map', key: STRING, elem: type.genericTypes[0] ? parameterCelType(type.genericTypes[0]) : DYN };
+    case 'any':
+      return DYN;
+    default:
+      return { name: type.name as CelType['name'] };
+  }
+}
+
+/**
+ * Merge the request context with the context stored on a tuple. As in
+ * OpenFGA, values on the tuple take precedence.
+ */
+export function mergeConditionContext(requestContext: EvaluationContext = {}, tupleContext: EvaluationContext = {}): EvaluationContext {
+  return { ...requestContext, ...tupleContext };
+}
+
+// Values
+
+const isNumeric = (name: string) => name === 'int' || name === 'uint' || name === 'double';
+
+function checkInt(value: bigint): CelValue {
+  if (value < INT_MIN || value > INT_MAX) {
+    throw new CelRuntimeError('integer overflow');
+  }
+  return { type: 'int', value };
+}
+
+function checkUint(value: bigint): CelValue {
+  if (value < 0n || value > UINT_MAX) {
+    throw new CelRuntimeError('unsigned integer overflow');
+  }
+  return { type: 'uint', value };
+}
+
+function checkTimestamp(value: bigint): CelValue {
+  if (value < TIMESTAMP_MIN || value > TIMESTAMP_MAX) {
+    throw new CelRuntimeError('timestamp out of range');
+  }
+  return { type: 'timestamp', value };
+}
+
+function floorDiv(a: bigint, b: bigint): bigint {
+  const quotient = a / b;
+  return a % b !== 0n && (a < 0n) !== (b < 0n) ? quotient - 1n : quotient;
+}
+
+function numberOf(value: CelValue): number {
+  return value.type === 'double' ? value.value : Number((value as { value: bigint }).value);
+}
+
+/**
+ * Compare numbers of any numeric type exactly (CEL compares int, uint and
+ * double across types).
+ */
+function compareNumbers(a: CelValue, b: CelValue): number {
+  if (a.type !== 'double' && b.type !== 'double') {
+    const x = (a as { value: bigint }).value;
+    const y = (b as { value: bigint }).value;
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+  const x = numberOf(a);
+  const y = numberOf(b);
+  if (Number.isNaN(x) || Number.isNaN(y)) {
+    return NaN;
+  }
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function mapKey(value: CelValue): string {
+  switch (value.type) {
+    case 'string':
+      return `s:${value.value}`;
+    case 'int':
+    case 'uint':
+      return `n:${value.value}`;
+    case 'bool':
+      return `b:${value.value}`;
+    case 'double':
+      if (Number.isInteger(value.value)) {
+        return `n:${BigInt(value.value)}`;
+      }
+  }
+  throw new CelRuntimeError(`unsupported key type '${value.type}'`);
+}
+
+function equals(a: CelValue, b: CelValue): boolean {
+  if (isNumeric(a.type) && isNumeric(b.type)) {
+    return compareNumbers(a, b) === 0;
+  }
+  if (a.type !== b.type) {
+    return false;
+  }
+  switch (a.type) {
+    case 'null':
+      return true;
+    case 'ipaddress':
+      return a.value.bytes.join('.') === (b as typeof a).value.bytes.join('.');
+    case 'list': {
+      const other = (b as typeof a).value;
+      return a.value.length === other.length && a.value.every((item, i) => equals(item, other[i]));
+    }
+    case 'map': {
+      const other = (b as typeof a).value;
+      return a.value.size === other.size &&
+        [...a.value].every(([key, [, value]]) => other.has(key) && equals(value, other.get(key)![1]));
+    }
+    default:
+      return (a as { value: unknown }).value === (b as { value: unknown }).value;
+  }
+}
+
+// Durations, timestamps and IP addresses
+
+const DURATION_UNITS: Record<string, bigint> = {
+  ns: 1n, us: 1_000n, 'µs': 1_000n, ms: 1_000_000n, s: NANOS_PER_SECOND, m: 60n * NANOS_PER_SECOND, h: 3600n * NANOS_PER_SECOND
+};
+
+/**
+ * Parse a Go-style duration such as `1h30m`, `1.5s` or `-300ms`.
+ */
+export function parseDuration(text: string): bigint | null {
+  const match = /^([-+]?)((?:(?:\d+(?:\.\d*)?|\.\d+)(?:ns|us|µs|ms|s|m|h))+|0)$/.exec(text);
+  if (!match) {
+    return null;
+  }
+  let total = 0n;
+  for (const part of match[2].matchAll(/(\d*)(?:\.(\d*))?(ns|us|µs|ms|s|m|h)/g)) {
+    const unit = DURATION_UNITS[part[3]];
+    const fraction = part[2] ?? '';
+    total += BigInt(part[1] || '0') * unit;
+    if (fraction.length > 0) {
+      total += BigInt(fraction) * unit / 10n ** BigInt(fraction.length);
+    }
+  }
+  return match[1] === '-' ? -total : total;
+}
+
+function formatDuration(nanos: bigint): string {
+  const sign = nanos < 0n ? '-' : '';
+  const absolute = nanos < 0n ? -nanos : nanos;
+  const fraction = (absolute % NANOS_PER_SECOND).toString().padStart(9, '0').replace(/0+$/, '');
+  return `${sign}${absolute / NANOS_PER_SECOND}${fraction ? `.${fraction}` : ''}s`;
+}
+
+/**
+ * Parse an RFC 3339 timestamp into nanoseconds since the Unix epoch.
+ */
+export function parseTimestamp(text: string): bigint | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[Tt](\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,9}))?(?:([Zz])|([+-])(\d{2}):(\d{2}))$/.exec(text);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute, second, fraction = '', , sign, offsetHours, offsetMinutes] = match;
+  const date = new Date(0);
+  date.setUTCFullYear(Number(year), Number(month) - 1, Number(day));
+  date.setUTCHours(Number(hour), Number(minute), Number(second), 0);
+  if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day) || Number(hour) > 23 || Number(minute) > 59 || Number(second) > 59) {
+    return null;
+  }
+  const offset = sign ? (Number(offsetHours) * 60 + Number(offsetMinutes)) * (sign === '-' ? -1 : 1) : 0;
+  const seconds = BigInt(date.getTime() / 1000 - offset * 60);
+  return seconds * NANOS_PER_SECOND + BigInt(fraction.padEnd(9, '0') || '0');
+}
+
+function formatTimestamp(nanos: bigint): string {
+  const seconds = floorDiv(nanos, NANOS_PER_SECOND);
+  const fraction = (nanos - seconds * NANOS_PER_SECOND).toString().padStart(9, '0').replace(/0+$/, '');
+  const iso = new Date(Number(seconds) * 1000).toISOString();
+  return `${iso.slice(0, 19)}${fraction ? `.${fraction}` : ''}Z`;
+}
+
+interface TimeParts {
+  year: number;
+  month: number;
+  date: number;
+  dayOfWeek: number;
+  dayOfYear: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+}
+
+/**
+ * Calendar fields of a timestamp in UTC, a fixed offset (`+02:00`) or an
+ * IANA time zone (`Europe/Paris`).
+ */
+function timeParts(nanos: bigint, timeZone = 'UTC'): TimeParts {
+  const seconds = floorDiv(nanos, NANOS_PER_SECOND);
+  const millis = Number(seconds) * 1000;
+  let offsetMillis = 0;
+
+  const fixed = /^([+-])?(\d{2}):(\d{2})$/.exec(timeZone);
+  if (fixed) {
+    offsetMillis = (Number(fixed[2]) * 60 + Number(fixed[3])) * 60_000 * (fixed[1] === '-' ? -1 : 1);
+  } else if (timeZone !== 'UTC') {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+      parts = new Intl.DateTimeFormat('en-US', {
+        timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+      }).formatToParts(new Date(millis));
+    } catch {
+      throw new CelRuntimeError(`unknown time zone '${timeZone}'`);
+    }
+    const field = (type: string) => Number(parts.find(part => part.type === type)?.value);
+    const local = new Date(0);
+    local.setUTCFullYear(field('year'), field('month') - 1, field('day'));
+    local.setUTCHours(field('hour'), field('minute'), field('second'), 0);
+    offsetMillis = local.getTime() - millis;
+  }
+
+  const date = new Date(millis + offsetMillis);
+  const startOfYear = new Date(0);
+  startOfYear.setUTCFullYear(date.getUTCFullYear(), 0, 1);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth(),
+    date: date.getUTCDate(),
+    dayOfWeek: date.getUTCDay(),
+    dayOfYear: Math.floor((date.getTime() - startOfYear.getTime()) / 86_400_000),
+    hours: date.getUTCHours(),
+    minutes: date.getUTCMinutes(),
+    seconds: date.getUTCSeconds(),
+    milliseconds: Number((nanos - seconds * NANOS_PER_SECOND) / 1_000_000n)
+  };
+}
+
+function parseIpv4(text: string): number[] | null {
+  const parts = text.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^(0|[1-9]\d{0,2})$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+  return parts.map(Number);
+}
+
+/**
+ * Parse an IPv4 or IPv6 address (including `::` and embedded IPv4).
+ */
+export function parseIpAddress(text: string): IpAddress | null {
+  if (!text.includes(':')) {
+    const bytes = parseIpv4(text);
+    return bytes ? { bytes, text } : null;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+  const groups = (part: string): number[] | null => {
+    if (part.length === 0) {
+      return [];
+    }
+    const result: number[] = [];
+    const pieces = part.split(':');
+    for (let i = 0; i < pieces.length; i++) {
+      if (i === pieces.length - 1 && pieces[i].includes('.')) {
+        const v4 = parseIpv4(pieces[i]);
+        if (!v4) {
+          return null;
+        }
+        result.push((v4[0] << 8) | v4[1], (v4[2] << 8) | v4[3]);
+      } else if (/^[0-9a-fA-F]{1,4}$/.test(pieces[i])) {
+        result.push(parseInt(pieces[i], 16));
+      } else {
+        return null;
+      }
+    }
+    return result;
+  };
+
+  const head = groups(halves[0]);
+  const tail = halves.length === 2 ? groups(halves[1]) : [];
+  if (!head || !tail) {
+    return null;
+  }
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+  const words = [...head, ...new Array(missing).fill(0), ...tail];
+  return { bytes: words.flatMap(word => [word >> 8, word & 0xff]), text };
+}
+
+function inCidr(address: IpAddress, cidr: string): boolean {
+  const match = /^([^/]+)\/(\d{1,3})$/.exec(cidr);
+  const network = match ? parseIpAddress(match[1]) : null;
+  const prefix = match ? Number(match[2]) : NaN;
+  if (!network || prefix > network.bytes.length * 8) {
+    throw new CelRuntimeError(`invalid CIDR '${cidr}'`);
+  }
+  if (network.bytes.length !== address.bytes.length) {
+    return false;
+  }
+  for (let bit = 0; bit < prefix; bit++) {
+    const mask = 0x80 >> (bit % 8);
+    if ((address.bytes[bit >> 3] & mask) !== (network.bytes[bit >> 3] & mask)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Functions and operators
+
+type ArgumentPattern = CelType['name'] | 'any';
+
+interface Overload {
+  args: ArgumentPattern[];
+  result: CelType | ((args: CelType[]) => CelType);
+  impl: (args: CelValue[]) => CelValue;
+}
+
+interface FunctionDefinition {
+  global: Overload[];
+  member: Overload[];
+}
+
+const FUNCTIONS = new Map<string, FunctionDefinition>();
+
+function define(name: string, style: 'global' | 'member' | 'both', ...overloads: Overload[]) {
+  const definition = FUNCTIONS.get(name) ?? { global: [], member: [] };
+  if (style !== 'member') {
+    definition.global.push(...overloads);
+  }
+  if (style !== 'global') {
+    definition.member.push(...overloads);
+  }
+  FUNCTIONS.set(name, definition);
+}
+
+const bool = (value: boolean): CelValue => ({ type: 'bool', value });
+const int = (value: bigint): CelValue => checkInt(value);
+const str = (value: CelValue) => (value as { value: string }).value;
+const big = (value: CelValue) => (value as { value: bigint }).value;
+const dbl = (value: CelValue) => (value as { value: number }).value;
+
+function arithmetic(op: '+' | '-' | '*' | '/' | '%') {
+  const integer = (a: bigint, b: bigint): bigint => {
+    switch (op) {
+      case '+': return a + b;
+      case '-': return a - b;
+      case '*': return a * b;
+      case '/':
+        if (b === 0n) {
+          throw new CelRuntimeError('division by zero');
+        }
+        return a / b;
+      case '%':
+        if (b === 0n) {
+          throw new CelRuntimeError('modulus by zero');
+        }
+        return a % b;
+    }
+  };
+  const overloads: Overload[] = [
+    { args: ['int', 'int'], result: INT, impl: ([a, b]) => int(integer(big(a), big(b))) },
+    { args: ['uint', 'uint'], result: { name: 'uint' }, impl: ([a, b]) => checkUint(integer(big(a), big(b))) }
+  ];
+  if (op !== '%') {
+    overloads.push({
+      args: ['double', 'double'],
+      result: { name: 'double' },
+      impl: ([a, b]) => ({ type: 'double', value: op === '+' ? dbl(a) + dbl(b) : op === '-' ? dbl(a) - dbl(b) : op === '*' ? dbl(a) * dbl(b) : dbl(a) / dbl(b) })
+    });
+  }
+  return overloads;
+}
+
+define('_+_', 'global',
+  ...arithmetic('+'),
+  { args: ['string', 'string'], result: STRING, impl: ([a, b]) => ({ type: 'string', value: str(a) + str(b) }) },
+  {
+    args: ['list', 'list'],
+    result: ([a, b]) => formatCelType(a) === formatCelType(b) ? a : { name: 'list', elem: DYN },
+    impl: ([a, b]) => ({ type: 'list', value: [...(a as { value: CelValue[] }).value, ...(b as { value: CelValue[] }).value] })
+  },
+  { args: ['duration', 'duration'], result: { name: 'duration' }, impl: ([a, b]) => ({ type: 'duration', value: big(a) + big(b) }) },
+  { args: ['timestamp', 'duration'], result: { name: 'timestamp' }, impl: ([a, b]) => checkTimestamp(big(a) + big(b)) },
+  { args: ['duration', 'timestamp'], result: { name: 'timestamp' }, impl: ([a, b]) => checkTimestamp(big(a) + big(b)) }
+);
+define('_-_', 'global',
+  ...arithmetic('-'),
+  { args: ['duration', 'duration'], result: { name: 'duration' }, impl: ([a, b]) => ({ type: 'duration', value: big(a) - big(b) }) },
+  { args: ['timestamp', 'timestamp'], result: { name: 'duration' }, impl: ([a, b]) => ({ type: 'duration', value: big(a) - big(b) }) },
+  { args: ['timestamp', 'duration'], result: { name: 'timestamp' }, impl: ([a, b]) => checkTimestamp(big(a) - big(b)) }
+);
+define('_*_', 'global', ...arithmetic('*'));
+define('_/_', 'global', ...arithmetic('/'));
+define('_%_', 'global', ...arithmetic('%'));
+define('-_', 'global',
+  { args: ['int'], result: INT, impl: ([a]) => int(-big(a)) },
+  { args: ['double'], result: { name: 'double' }, impl: ([a]) => ({ type: 'double', value: -dbl(a) }) },
+  { args: ['duration'], result: { name: 'duration' }, impl: ([a]) => ({ type: 'duration', value: -big(a) }) }
+);
+define('!_', 'global', { args: ['bool'], result: BOOL, impl: ([a]) => bool(!(a as { value: boolean }).value) });
+
+for (const [op, test] of [
+  ['_<_', (c: number) => c < 0],
+  ['_<=_', (c: number) => c <= 0],
+  ['_>_', (c: number) => c > 0],
+  ['_>=_', (c: number) => c >= 0]
+] as const) {
+  const compare = (a: CelValue, b: CelValue) => {
+    const x = (a as { value: string | bigint | boolean }).value;
+    const y = (b as { value: string | bigint | boolean }).value;
+    return x < y ? -1 : x > y ? 1 : 0;
+  };
+  const numeric: Overload[] = (['int', 'uint', 'double'] as const).flatMap(a => (['int', 'uint', 'double'] as const).map(b => ({
+    args: [a, b] as ArgumentPattern[],
+    result: BOOL,
+    impl: ([x, y]: CelValue[]) => bool(test(compareNumbers(x, y)))
+  })));
+  define(op, 'global',
+    ...numeric,
+    ...(['string', 'bool', 'duration', 'timestamp'] as const).map(type => ({
+      args: [type, type] as ArgumentPattern[],
+      result: BOOL,
+      impl: ([x, y]: CelValue[]) => bool(test(compare(x, y)))
+    }))
+  );
+}
+
+function sizeOf(value: CelValue): CelValue {
+  if (value.type === 'string') {
+    return int(BigInt([...value.value].length));
+  }
+  return int(BigInt(value.type === 'map' ? value.value.size : (value as { value: CelValue[] }).value.length));
+}
+define('size', 'both',
+  { args: ['string'], result: INT, impl: ([a]) => sizeOf(a) },
+  { args: ['list'], result: INT, impl: ([a]) => sizeOf(a) },
+  { args: ['map'], result: INT, impl: ([a]) => sizeOf(a) }
+);
+
+define('contains', 'member', { args: ['string', 'string'], result: BOOL, impl: ([a, b]) => bool(str(a).includes(str(b))) });
+define('startsWith', 'member', { args: ['string', 'string'], result: BOOL, impl: ([a, b]) => bool(str(a).startsWith(str(b))) });
+define('endsWith', 'member', { args: ['string', 'string'], result: BOOL, impl: ([a, b]) => bool(str(a).endsWith(str(b))) });
+define('matches', 'both', {
+  args: ['string', 'string'],
+  result: BOOL,
+  impl: ([a, b]) => {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(str(b), 'u');
+    } catch {
+      throw new CelRuntimeError(`invalid regular expression '${str(b)}'`);
+    }
+    return bool(pattern.test(str(a)));
+  }
+});
+
+function parseIntString(text: string, unsigned: boolean): CelValue {
+  if (!/^[+-]?\d+$/.test(text)) {
+    throw new CelRuntimeError(`cannot convert '${text}' to ${unsigned ? 'uint' : 'int'}`);
+  }
+  return unsigned ? checkUint(BigInt(text)) : checkInt(BigInt(text));
+}
+
+function truncateDouble(value: number, unsigned: boolean): CelValue {
+  if (!Number.isFinite(value)) {
+    throw new CelRuntimeError(`cannot convert ${value} to ${unsigned ? 'uint' : 'int'}`);
+  }
+  return unsigned ? checkUint(BigInt(Math.trunc(value))) : checkInt(BigInt(Math.trunc(value)));
+}
+
+function formatDouble(value: number): string {
+  return Number.isInteger(value) && Math.abs(value) < 1e21 ? value.toFixed(0) : String(value);
+}
+
+const identity = ([a]: CelValue[]) => a;
+define('int', 'global',
+  { args: ['int'], result: INT, impl: identity },
+  { args: ['uint'], result: INT, impl: ([a]) => int(big(a)) },
+  { args: ['double'], result: INT, impl: ([a]) => truncateDouble(dbl(a), false) },
+  { args: ['string'], result: INT, impl: ([a]) => parseIntString(str(a), false) },
+  { args: ['timestamp'], result: INT, impl: ([a]) => int(floorDiv(big(a), NANOS_PER_SECOND)) }
+);
+define('uint', 'global',
+  { args: ['uint'], result: { name: 'uint' }, impl: identity },
+  { args: ['int'], result: { name: 'uint' }, impl: ([a]) => checkUint(big(a)) },
+  { args: ['double'], result: { name: 'uint' }, impl: ([a]) => truncateDouble(dbl(a), true) },
+  { args: ['string'], result: { name: 'uint' }, impl: ([a]) => parseIntString(str(a), true) }
+);
+define('double', 'global',
+  { args: ['double'], result: { name: 'double' }, impl: identity },
+  { args: ['int'], result: { name: 'double' }, impl: ([a]) => ({ type: 'double', value: Number(big(a)) }) },
+  { args: ['uint'], result: { name: 'double' }, impl: ([a]) => ({ type: 'double', value: Number(big(a)) }) },
+  {
+    args: ['string'],
+    result: { name: 'double' },
+    impl: ([a]) => {
+      const value = /^\s*$/.test(str(a)) ? NaN : Number(str(a));
+      if (Number.isNaN(value) && !/^[+-]?NaN$/i.test(str(a))) {
+        throw new CelRuntimeError(`cannot convert '${str(a)}' to double`);
+      }
+      return { type: 'double', value };
+    }
+  }
+);
+define('string', 'global',
+  { args: ['string'], result: STRING, impl: identity },
+  { args: ['int'], result: STRING, impl: ([a]) => ({ type: 'string', value: big(a).toString() }) },
+  { args: ['uint'], result: STRING, impl: ([a]) => ({ type: 'string', value: big(a).toString() }) },
+  { args: ['double'], result: STRING, impl: ([a]) => ({ type: 'string', value: formatDouble(dbl(a)) }) },
+  { args: ['bool'], result: STRING, impl: ([a]) => ({ type: 'string', value: String((a as { value: boolean }).value) }) },
+  { args: ['duration'], result: STRING, impl: ([a]) => ({ type: 'string', value: formatDuration(big(a)) }) },
+  { args: ['timestamp'], result: STRING, impl: ([a]) => ({ type: 'string', value: formatTimestamp(big(a)) }) },
+  { args: ['ipaddress'], result: STRING, impl: ([a]) => ({ type: 'string', value: (a as { value: IpAddress }).value.text }) }
+);
+define('bool', 'global',
+  { args: ['bool'], result: BOOL, impl: identity },
+  {
+    args: ['string'],
+    result: BOOL,
+    impl: ([a]) => {
+      if (['true', 'True', 'TRUE', 't', '1'].includes(str(a))) {
+        return bool(true);
+      }
+      if (['false', 'False', 'FALSE', 'f', '0'].includes(str(a))) {
+        return bool(false);
+      }
+      throw new CelRuntimeError(`cannot convert '${str(a)}' to bool`);
+    }
+  }
+);
+define('duration', 'global',
+  { args: ['duration'], result: { name: 'duration' }, impl: identity },
+  {
+    args: ['string'],
+    result: { name: 'duration' },
+    impl: ([a]) => {
+      const value = parseDuration(str(a));
+      if (value === null) {
+        throw new CelRuntimeError(`invalid duration '${str(a)}'`);
+      }
+      return { type: 'duration', value };
+    }
+  }
+);
+define('timestamp', 'global',
+  { args: ['timestamp'], result: { name: 'timestamp' }, impl: identity },
+  { args: ['int'], result: { name: 'timestamp' }, impl: ([a]) => checkTimestamp(big(a) * NANOS_PER_SECOND) },
+  {
+    args: ['string'],
+    result: { name: 'timestamp' },
+    impl: ([a]) => {
+      const value = parseTimestamp(str(a));
+      if (value === null) {
+        throw new CelRuntimeError(`invalid timestamp '${str(a)}'`);
+      }
+      return checkTimestamp(value);
+    }
+  }
+);
+define('ipaddress', 'global', {
+  args: ['string'],
+  result: { name: 'ipaddress' },
+  impl: ([a]) => {
+    const value = parseIpAddress(str(a));
+    if (!value) {
+      throw new CelRuntimeError(`invalid IP address '${str(a)}'`);
+    }
+    return { type: 'ipaddress', value };
+  }
+});
+define('in_cidr', 'member', {
+  args: ['ipaddress', 'string'],
+  result: BOOL,
+  impl: ([a, b]) => bool(inCidr((a as { value: IpAddress }).value, str(b)))
+});
+define('dyn', 'global', { args: ['any'], result: DYN, impl: identity });
+
+const TIMESTAMP_ACCESSORS: Record<string, keyof TimeParts> = {
+  getFullYear: 'year',
+  getMonth: 'month',
+  getDayOfMonth: 'date',
+  getDate: 'date',
+  getDayOfWeek: 'dayOfWeek',
+  getDayOfYear: 'dayOfYear',
+  getHours: 'hours',
+  getMinutes: 'minutes',
+  getSeconds: 'seconds',
+  getMilliseconds: 'milliseconds'
+};
+const DURATION_ACCESSORS: Record<string, bigint> = {
+  getHours: 3600n * NANOS_PER_SECOND,
+  getMinutes: 60n * NANOS_PER_SECOND,
+  getSeconds: NANOS_PER_SECOND,
+  getMilliseconds: 1_000_000n
+};
+for (const [name, field] of Object.entries(TIMESTAMP_ACCESSORS)) {
+  // getDayOfMonth is 0-based, getDate 1-based.
+  const adjust = name === 'getDayOfMonth' ? -1 : 0;
+  const overloads: Overload[] = [
+    { args: ['timestamp'], result: INT, impl: ([a]) => int(BigInt(timeParts(big(a))[field] + adjust)) },
+    { args: ['timestamp', 'string'], result: INT, impl: ([a, b]) => int(BigInt(timeParts(big(a), str(b))[field] + adjust)) }
+  ];
+  if (name in DURATION_ACCESSORS) {
+    overloads.push({ args: ['duration'], result: INT, impl: ([a]) => int(big(a) / DURATION_ACCESSORS[name]) });
+  }
+  define(name, 'member', ...overloads);
+}
+
+const MACROS = ['all', 'exists', 'exists_one', 'map', 'filter'];
+
+function matchesPattern(pattern: ArgumentPattern, type: CelType): boolean {
+  return pattern === 'any' || type.name === 'dyn' || pattern === type.name;
+}
+
+function describeTypes(types: CelType[]): string {
+  return `(${types.map(formatCelType).join(', ')})`;
+}
+
+/**
+ * Best common type of list elements or map values.
+ */
+function joinTypes(types: CelType[]): CelType {
+  if (types.length === 0) {
+    return DYN;
+  }
+  const formatted = formatCelType(types[0]);
+  return types.every(type => formatCelType(type) === formatted) ? types[0] : DYN;
+}
+
+// Type checking
+
+class CelTypeChecker {
+  public readonly issues: ConditionIssue[] = [];
+
+  constructor(private readonly declarations: Map<string, CelType>) {}
+
+  public check(expression: CelExpr, scope = new Map<string, CelType>()): CelType {
+    switch (expression.kind) {
+      case 'literal':
+        if (expression.value.type === 'int' && (expression.value.value < INT_MIN || expression.value.value > INT_MAX)) {
+          return this.fail(expression, 'integer literal out of range');
+        }
+        if (expression.value.type === 'uint' && expression.value.value > UINT_MAX) {
+          return this.fail(expression, 'unsigned integer literal out of range');
+        }
+        return { name: expression.value.type };
+
+      case 'ident': {
+        const type = scope.get(expression.name) ?? this.declarations.get(expression.name);
+        return type ?? this.fail(expression, `undeclared reference to '${expression.name}'`);
+      }
+
+      case 'select': {
+        const operand = this.check(expression.operand, scope);
+        if (operand.name === 'map') {
+          return operand.elem ?? DYN;
+        }
+        return operand.name === 'dyn'
+          ? DYN
+          : this.fail(expression, `type '${formatCelType(operand)}' does not support field selection`);
+      }
+
+      case 'index': {
+        const operand = this.check(expression.operand, scope);
+        const index = this.check(expression.index, scope);
+        if (operand.name === 'list' && ['int', 'uint', 'dyn'].includes(index.name)) {
+          return operand.elem ?? DYN;
+        }
+        if (operand.name === 'map') {
+          return operand.elem ?? DYN;
+        }
+        if (operand.name === 'dyn') {
+          return DYN;
+        }
+        return this.fail(expression, `found no matching overload for '_[_]' applied to '${describeTypes([operand, index])}'`);
+      }
+
+      case 'list':
+        return { name: 'list', elem: joinTypes(expression.elements.map(element => this.check(element, scope))) };
+
+      case 'map': {
+        const keys = expression.entries.map(entry => this.check(entry.key, scope));
+        for (const [i, key] of keys.entries()) {
+          if (!['string', 'int', 'uint', 'bool', 'dyn'].includes(key.name)) {
+            this.fail(expression.entries[i].key, `unsupported map key type '${formatCelType(key)}'`);
+          }
+        }
+        return { name: 'map', key: joinTypes(keys), elem: joinTypes(expression.entries.map(entry => this.check(entry.value, scope))) };
+      }
+
+      case 'unary':
+        return this.checkOverloads(expression, expression.op === '!' ? '!_' : '-_', [this.check(expression.operand, scope)], false);
+
+      case 'conditional': {
+        const test = this.check(expression.test, scope);
+        if (!['bool', 'dyn'].includes(test.name)) {
+          this.fail(expression.test, `condition of '?:' must be bool, found '${formatCelType(test)}'`);
+        }
+        return joinTypes([this.check(expression.then, scope), this.check(expression.otherwise, scope)]);
+      }
+
+      case 'binary':
+        return this.checkBinary(expression as Extract<CelExpr, { kind: 'binary' }>, scope);
+
+      case 'call':
+        return this.checkCall(expression as Extract<CelExpr, { kind: 'call' }>, scope);
+    }
+  }
+
+  private checkBinary(expression: Extract<CelExpr, { kind: 'binary' }>, scope: Map<string, CelType>): CelType {
+    const left = this.check(expression.left, scope);
+    const right = this.check(expression.right, scope);
+    const mismatch = () => this.fail(expression, `found no matching overload for '_${expression.op}_' applied to '${describeTypes([left, right])}'`);
+
+    switch (expression.op) {
+      case '&&':
+      case '||':
+        return [left, right].every(type => type.name === 'bool' || type.name === 'dyn') ? BOOL : mismatch();
+      case '==':
+      case '!=':
+        return this.comparable(left, right) ? BOOL : mismatch();
+      case 'in':
+        if (right.name === 'dyn') {
+          return BOOL;
+        }
+        if (right.name === 'list') {
+          return this.comparable(left, right.elem ?? DYN) ? BOOL : mismatch();
+        }
+        if (right.name === 'map') {
+          return this.comparable(left, right.key ?? DYN) ? BOOL : mismatch();
+        }
+        return mismatch();
+      default:
+        return this.checkOverloads(expression, `_${expression.op}_`, [left, right], false);
+    }
+  }
+
+  private comparable(a: CelType, b: CelType): boolean {
+    return a.name === 'dyn' || b.name === 'dyn' || a.name === 'null' || b.name === 'null' ||
+      (isNumeric(a.name) && isNumeric(b.name)) || a.name === b.name;
+  }
+
+  private checkCall(expression: Extract<CelExpr, { kind: 'call' }>, scope: Map<string, CelType>): CelType {
+    if (!expression.target && expression.name === 'has') {
+      const [argument] = expression.args;
+      if (expression.args.length !== 1 || argument.kind !== 'select') {
+        return this.fail(expression, `has() requires a field selection such as has(m.key)`);
+      }
+      this.check(argument, scope);
+      return BOOL;
+    }
+
+    if (expression.target && MACROS.includes(expression.name)) {
+      return this.checkMacro(expression, scope);
+    }
+
+    const args = [
+      ...(expression.target ? [this.check(expression.target, scope)] : []),
+      ...expression.args.map(arg => this.check(arg, scope))
+    ];
+    return this.checkOverloads(expression, expression.name, args, Boolean(expression.target));
+  }
+
+  private checkMacro(expression: Extract<CelExpr, { kind: 'call' }>, scope: Map<string, CelType>): CelType {
+    const range = this.check(expression.target!, scope);
+    const [variable, ...rest] = expression.args;
+    const valid = variable?.kind === 'ident' &&
+      (rest.length === 1 || (expression.name === 'map' && rest.length === 2));
+    if (!valid) {
+      return this.fail(expression, `${expression.name}() expects a variable name and ${expression.name === 'map' ? 'an expression' : 'a predicate'}, e.g. ${expression.name}(x, ...)`);
+    }
+    if (!['list', 'map', 'dyn'].includes(range.name)) {
+      return this.fail(expression.target!, `${expression.name}() cannot iterate over '${formatCelType(range)}'`);
+    }
+
+    const inner = new Map(scope);
+    inner.set((variable as { name: string }).name, range.name === 'list' ? range.elem ?? DYN : range.name === 'map' ? range.key ?? DYN : DYN);
+    const predicates = expression.name === 'map' ? rest.slice(0, -1) : rest;
+    for (const predicate of predicates) {
+      const type = this.check(predicate, inner);
+      if (!['bool', 'dyn'].includes(type.name)) {
+        this.fail(predicate, `${expression.name}() predicate must be bool, found '${formatCelType(type)}'`);
+      }
+    }
+    if (expression.name === 'map') {
+      return { name: 'list', elem: this.check(rest[rest.length - 1], inner) };
+    }
+    if (expression.name === 'filter') {
+      return range.name === 'list' ? range : { name: 'list', elem: range.name === 'map' ? range.key ?? DYN : DYN };
+    }
+    return BOOL;
+  }
+
+  private checkOverloads(expression: CelExpr, name: string, args: CelType[], member: boolean): CelType {
+    const definition = FUNCTIONS.get(name);
+    if (!definition) {
+      return this.fail(expression, `undeclared reference to '${name}'`);
+    }
+    const candidates = (member ? definition.member : definition.global)
+      .filter(overload => overload.args.length === args.length && overload.args.every((pattern, i) => matchesPattern(pattern, args[i])));
+    if (candidates.length === 0) {
+      const label = name.includes('_') && !member && name !== 'in_cidr' ? name : member ? `${formatCelType(args[0])}.${name}` : name;
+      return this.fail(expression, `found no matching overload for '${label}' applied to '${describeTypes(member ? args.slice(1) : args)}'`);
+    }
+    return joinTypes(candidates.map(overload => typeof overload.result === 'function' ? overload.result(args) : overload.result));
+  }
+
+  private fail(expression: { start: number; end: number }, message: string): CelType {
+    this.issues.push({ message, start: expression.start, end: expression.end });
+    return DYN;
+  }
+}
+
+// Evaluation
+
+type Activation = Map<string, CelValue>;
+
+function evaluateExpression(expression: CelExpr, activation: Activation): CelValue {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value as CelValue;
+
+    case 'ident': {
+      const value = activation.get(expression.name);
+      if (!value) {
+        throw new CelRuntimeError(`no such attribute '${expression.name}'`);
+      }
+      return value;
+    }
+
+    case 'select': {
+      const operand = evaluateExpression(expression.operand, activation);
+      if (operand.type !== 'map') {
+        throw new CelRuntimeError(`type '${operand.type}' does not support field selection`);
+      }
+      const entry = operand.value.get(mapKey({ type: 'string', value: expression.field }));
+      if (!entry) {
+        throw new CelRuntimeError(`no such key: ${expression.field}`);
+      }
+      return entry[1];
+    }
+
+    case 'index': {
+      const operand = evaluateExpression(expression.operand, activation);
+      const index = evaluateExpression(expression.index, activation);
+      if (operand.type === 'list') {
+        if (!isNumeric(index.type) || (index.type === 'double' && !Number.isInteger(index.value))) {
+          throw new CelRuntimeError(`invalid list index of type '${index.type}'`);
+        }
+        const position = numberOf(index);
+        if (position < 0 || position >= operand.value.length) {
+          throw new CelRuntimeError(`index out of range: ${position}`);
+        }
+        return operand.value[position];
+      }
+      if (operand.type === 'map') {
+        const entry = operand.value.get(mapKey(index));
+        if (!entry) {
+          throw new CelRuntimeError(`no such key: ${formatValue(index)}`);
+        }
+        return entry[1];
+      }
+      throw new CelRuntimeError(`type '${operand.type}' does not support indexing`);
+    }
+
+    case 'list':
+      return { type: 'list', value: expression.elements.map(element => evaluateExpression(element, activation)) };
+
+    case 'map': {
+      const value = new Map<string, [CelValue, CelValue]>();
+      for (const entry of expression.entries) {
+        const key = evaluateExpression(entry.key, activation);
+        const id = mapKey(key);
+        if (value.has(id)) {
+          throw new CelRuntimeError(`duplicate map key: ${formatValue(key)}`);
+        }
+        value.set(id, [key, evaluateExpression(entry.value, activation)]);
+      }
+      return { type: 'map', value };
+    }
+
+    case 'unary':
+      return invoke(expression.op === '!' ? '!_' : '-_', [evaluateExpression(expression.operand, activation)], false);
+
+    case 'conditional': {
+      const test = evaluateExpression(expression.test, activation);
+      if (test.type !== 'bool') {
+        throw new CelRuntimeError(`condition of '?:' must be bool, found '${test.type}'`);
+      }
+      return evaluateExpression(test.value ? expression.then : expression.otherwise, activation);
+    }
+
+    case 'binary':
+      return evaluateBinary(expression as Extract<CelExpr, { kind: 'binary' }>, activation);
+
+    case 'call':
+      return evaluateCall(expression as Extract<CelExpr, { kind: 'call' }>, activation);
+  }
+}
+
+/**
+ * Evaluate to a bool or capture the error, for CEL's commutative && and ||.
+ */
+function tryBool(expression: CelExpr, activation: Activation): boolean | CelRuntimeError {
+  try {
+    const value = evaluateExpression(expression, activation);
+    if (value.type !== 'bool') {
+      return new CelRuntimeError(`expected bool, found '${value.type}'`);
+    }
+    return value.value;
+  } catch (error) {
+    if (error instanceof CelRuntimeError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+function evaluateBinary(expression: Extract<CelExpr, { kind: 'binary' }>, activation: Activation): CelValue {
+  if (expression.op === '&&' || expression.op === '||') {
+    const decisive = expression.op === '||';
+    const left = tryBool(expression.left, activation);
+    if (left === decisive) {
+      return bool(decisive);
+    }
+    const right = tryBool(expression.right, activation);
+    if (right === decisive) {
+      return bool(decisive);
+    }
+    if (left instanceof CelRuntimeError) {
+      throw left;
+    }
+    if (right instanceof CelRuntimeError) {
+      throw right;
+    }
+    return bool(!decisive);
+  }
+
+  const left = evaluateExpression(expression.left, activation);
+  const right = evaluateExpression(expression.right, activation);
+  switch (expression.op) {
+    case '==':
+      return bool(equals(left, right));
+    case '!=':
+      return bool(!equals(left, right));
+    case 'in':
+      if (right.type === 'list') {
+        return bool(right.value.some(item => equals(left, item)));
+      }
+      if (right.type === 'map') {
+        return bool(right.value.has(mapKey(left)));
+      }
+      throw new CelRuntimeError(`no such overload: _in_(${left.type}, ${right.type})`);
+    default:
+      return invoke(`_${expression.op}_`, [left, right], false);
+  }
+}
+
+function evaluateCall(expression: Extract<CelExpr, { kind: 'call' }>, activation: Activation): CelValue {
+  if (!expression.target && expression.name === 'has') {
+    const select = expression.args[0] as Extract<CelExpr, { kind: 'select' }>;
+    const operand = evaluateExpression(select.operand, activation);
+    if (operand.type !== 'map') {
+      throw new CelRuntimeError(`has() is not supported on '${operand.type}'`);
+    }
+    return bool(operand.value.has(mapKey({ type: 'string', value: select.field })));
+  }
+
+  if (expression.target && MACROS.includes(expression.name)) {
+    return evaluateMacro(expression, activation);
+  }
+
+  const args = [
+    ...(expression.target ? [evaluateExpression(expression.target, activation)] : []),
+    ...expression.args.map(arg => evaluateExpression(arg, activation))
+  ];
+  return invoke(expression.name, args, Boolean(expression.target));
+}
+
+function evaluateMacro(expression: Extract<CelExpr, { kind: 'call' }>, activation: Activation): CelValue {
+  const range = evaluateExpression(expression.target!, activation);
+  if (range.type !== 'list' && range.type !== 'map') {
+    throw new CelRuntimeError(`${expression.name}() cannot iterate over '${range.type}'`);
+  }
+  const items = range.type === 'list' ? range.value : [...range.value.values()].map(([key]) => key);
+  const variable = (expression.args[0] as { name: string }).name;
+  const scoped = (item: CelValue) => new Map(activation).set(variable, item);
+  const predicate = expression.args[1];
+
+  switch (expression.name) {
+    case 'all':
+    case 'exists': {
+      const decisive = expression.name === 'exists';
+      let failure: CelRuntimeError | undefined;
+      for (const item of items) {
+        const result = tryBool(predicate, scoped(item));
+        if (result === decisive) {
+          return bool(decisive);
+        }
+        if (result instanceof CelRuntimeError) {
+          failure ??= result;
+        }
+      }
+      if (failure) {
+        throw failure;
+      }
+      return bool(!decisive);
+    }
+    case 'exists_one': {
+      let count = 0;
+      for (const item of items) {
+        const result = tryBool(predicate, scoped(item));
+        if (result instanceof CelRuntimeError) {
+          throw result;
+        }
+        count += result ? 1 : 0;
+      }
+      return bool(count === 1);
+    }
+    case 'filter':
+      return {
+        type: 'list',
+        value: items.filter(item => {
+          const result = tryBool(predicate, scoped(item));
+          if (result instanceof CelRuntimeError) {
+            throw result;
+          }
+          return result;
+        })
+      };
+    default: {
+      const transform = expression.args[expression.args.length - 1];
+      const filter = expression.args.length === 3 ? predicate : undefined;
+      const value: CelValue[] = [];
+      for (const item of items) {
+        if (filter) {
+          const keep = tryBool(filter, scoped(item));
+          if (keep instanceof CelRuntimeError) {
+            throw keep;
+          }
+          if (!keep) {
+            continue;
+          }
+        }
+        value.push(evaluateExpression(transform, scoped(item)));
+      }
+      return { type: 'list', value };
+    }
+  }
+}
+
+function invoke(name: string, args: CelValue[], member: boolean): CelValue {
+  const definition = FUNCTIONS.get(name);
+  const overload = (member ? definition?.member : definition?.global)
+    ?.find(candidate => candidate.args.length === args.length && candidate.args.every((pattern, i) => pattern === 'any' || pattern === args[i].type));
+  if (!overload) {
+    throw new CelRuntimeError(`no such overload: ${name}(${args.map(arg => arg.type).join(', ')})`);
+  }
+  return overload.impl(args);
+}
+
+// Context conversion
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'a list';
+  }
+  return typeof value === 'string' ? `"${value}"` : typeof value === 'object' ? 'an object' : String(value);
+}
+
+class ContextValueError extends Error {}
+
+function toInteger(value: unknown): bigint | null {
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'string' && /^[+-]?\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  return null;
+}
+
+/**
+ * Convert a JSON value (from tuple or request context) to a CEL value of the
+ * declared parameter type.
+ */
+export function convertContextValue(value: unknown, type: ConditionParameterType): CelValue {
+  const fail = (expected: string): never => {
+    throw new ContextValueError(`expected ${expected}, got ${describe(value)}`);
+  };
+
+  switch (type.name) {
+    case 'string':
+      return typeof value === 'string' ? { type: 'string', value } : fail('a string');
+    case 'bool':
+      return typeof value === 'boolean' ? { type: 'bool', value } : fail('a bool');
+    case 'int':
+    case 'uint': {
+      const integer = toInteger(value);
+      if (integer === null) {
+        return fail(`an ${type.name === 'int' ? 'integer' : 'unsigned integer'}`);
+      }
+      try {
+        return type.name === 'int' ? checkInt(integer) : checkUint(integer);
+      } catch {
+        return fail(`an ${type.name} in range`);
+      }
+    }
+    case 'double':
+      return typeof value === 'number' ? { type: 'double', value } : fail('a number');
+    case 'duration': {
+      const nanos = typeof value === 'string' ? parseDuration(value) : null;
+      return nanos !== null ? { type: 'duration', value: nanos } : fail('a duration such as "1h30m" or "10s"');
+    }
+    case 'timestamp': {
+      const nanos = typeof value === 'string' ? parseTimestamp(value) : null;
+      return nanos !== null ? { type: 'timestamp', value: nanos } : fail('an RFC 3339 timestamp such as "2023-01-01T00:00:00Z"');
+    }
+    case 'ipaddress': {
+      const address = typeof value === 'string' ? parseIpAddress(value) : null;
+      return address ? { type: 'ipaddress', value: address } : fail('an IP address such as "192.168.0.1"');
+    }
+    case 'list': {
+      if (!Array.isArray(value)) {
+        return fail(`a list`);
+      }
+      return {
+        type: 'list',
+        value: value.map((item, i) => {
+          try {
+            return convertContextValue(item, type.genericTypes[0] ?? { name: 'any', genericTypes: [] });
+          } catch (error) {
+            throw new ContextValueError(`[${i}]: ${(error as Error).message}`);
+          }
+        })
+      };
+    }
+    case 'map': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail('an object');
+      }
+      const entries = new Map<string, [CelValue, CelValue]>();
+      for (const [key, item] of Object.entries(value)) {
+        try {
+          const keyValue: CelValue = { type: 'string', value: key };
+          entries.set(mapKey(keyValue), [keyValue, convertContextValue(item, type.genericTypes[0] ?? { name: 'any', genericTypes: [] })]);
+        } catch (error) {
+          throw new ContextValueError(`.${key}: ${(error as Error).message}`);
+        }
+      }
+      return { type: 'map', value: entries };
+    }
+    default:
+      return fromJson(value);
+  }
+}
+
+/**
+ * Untyped (`any`) context values follow protobuf JSON: numbers are doubles.
+ */
+function fromJson(value: unknown): CelValue {
+  if (value === null || value === undefined) {
+    return { type: 'null' };
+  }
+  if (typeof value === 'string') {
+    return { type: 'string', value };
+  }
+  if (typeof value === 'number') {
+    return { type: 'double', value };
+  }
+  if (typeof value === 'boolean') {
+    return { type: 'bool', value };
+  }
+  if (Array.isArray(value)) {
+    return { type: 'list', value: value.map(fromJson) };
+  }
+  if (typeof value === 'object') {
+    const any: ConditionParameterType = { name: 'map', genericTypes: [{ name: 'any', genericTypes: [] }] };
+    return convertContextValue(value, any);
+  }
+  throw new ContextValueError(`unsupported value ${describe(value)}`);
+}
+
+function formatValue(value: CelValue): string {
+  switch (value.type) {
+    case 'string':
+      return JSON.stringify(value.value);
+    case 'null':
+      return 'null';
+    case 'double':
+      return formatDouble(value.value);
+    case 'uint':
+      return `${value.value}u`;
+    case 'duration':
+      return `duration("${formatDuration(value.value)}")`;
+    case 'timestamp':
+      return `timestamp("${formatTimestamp(value.value)}")`;
+    case 'ipaddress':
+      return `ipaddress("${value.value.text}")`;
+    case 'list':
+      return `[${value.value.map(formatValue).join(', ')}]`;
+    case 'map':
+      return `{${[...value.value.values()].map(([key, item]) => `${formatValue(key)}: ${formatValue(item)}`).join(', ')}}`;
+    default:
+      return String(value.value);
+  }
+}
+
+// Evaluator
+
+interface CompiledCondition {
+  expression?: CelExpr;
+  check: ConditionCheckResult;
+}
+
+/**
+ * ConditionEvaluator for OpenFGA conditions. Expressions are parsed and
+ * type-checked once per condition definition.
+ */
+export class CelConditionEvaluator implements ConditionEvaluator {
+  private readonly compiled = new WeakMap<ConditionDefinition, CompiledCondition>();
+
+  /**
+   * Type-check a condition expression against its declared parameters.
+   */
+  public check(condition: ConditionDefinition): ConditionCheckResult {
+    return this.compile(condition).check;
+  }
+
+  public evaluate(condition: ConditionDefinition, context: EvaluationContext): boolean {
+    const compiled = this.compile(condition);
+    if (!compiled.expression || !compiled.check.valid) {
+      throw new ConditionEvaluationError(`Condition '${condition.name}' is invalid: ${compiled.check.issues[0]?.message}`);
+    }
+
+    const missing = this.missingParameters(condition, context);
+    if (missing.length > 0) {
+      throw new ConditionEvaluationError(`Condition '${condition.name}' is missing context parameter(s): ${missing.join(', ')}`);
+    }
+
+    const activation: Activation = new Map();
+    for (const parameter of condition.parameters) {
+      try {
+        activation.set(parameter.name, convertContextValue(context[parameter.name], parameter.type));
+      } catch (error) {
+        throw new ConditionEvaluationError(
+          `Condition '${condition.name}': parameter '${parameter.name}' (${formatConditionParameterType(parameter.type)}) ${(error as Error).message}`
+        );
+      }
+    }
+
+    let result: CelValue;
+    try {
+      result = evaluateExpression(compiled.expression, activation);
+    } catch (error) {
+      if (error instanceof CelRuntimeError) {
+        throw new ConditionEvaluationError(`Condition '${condition.name}' failed to evaluate: ${error.message}`);
+      }
+      throw error;
+    }
+    if (result.type !== 'bool') {
+      throw new ConditionEvaluationError(`Condition '${condition.name}' evaluated to ${formatValue(result)}, expected a bool`);
+    }
+    return result.value;
+  }
+
+  /**
+   * Evaluate with the tuple and request context kept apart, reporting where
+   * each parameter came from and what is missing instead of throwing.
+   */
+  public evaluateDetailed(
+    condition: ConditionDefinition,
+    requestContext: EvaluationContext = {},
+    tupleContext: EvaluationContext = {}
+  ): ConditionEvaluationResult {
+    const merged = mergeConditionContext(requestContext, tupleContext);
+    const result: ConditionEvaluationResult = {
+      condition: condition.name,
+      check: this.check(condition),
+      context: {},
+      missingParameters: this.missingParameters(condition, merged)
+    };
+    for (const [name, value] of Object.entries(merged)) {
+      result.context[name] = { value, source: name in tupleContext ? 'tuple' : 'request' };
+    }
+
+    if (result.check.valid && result.missingParameters.length === 0) {
+      try {
+        result.result = this.evaluate(condition, merged);
+      } catch (error) {
+        if (!(error instanceof ConditionEvaluationError)) {
+          throw error;
+        }
+        result.error = error.message;
+      }
+    }
+    return result;
+  }
+
+  private missingParameters(condition: ConditionDefinition, context: EvaluationContext): string[] {
+    return condition.parameters
+      .filter(parameter => context[parameter.name] === undefined)
+      .map(parameter => parameter.name);
+  }
+
+  private compile(condition: ConditionDefinition): CompiledCondition {
+    const cached = this.compiled.get(condition);
+    if (cached) {
+      return cached;
+    }
+
+    let compiled: CompiledCondition;
+    try {
+      const expression = parseCel(condition.expression);
+      const checker = new CelTypeChecker(new Map(condition.parameters.map(parameter => [parameter.name, parameterCelType(parameter.type)])));
+      const type = checker.check(expression);
+      if (checker.issues.length === 0 && type.name !== 'bool' && type.name !== 'dyn') {
+        checker.issues.push({
+          message: `expression must evaluate to bool, found '${formatCelType(type)}'`,
+          start: expression.start,
+          end: expression.end
+        });
+      }
+      compiled = {
+        expression,
+        check: { valid: checker.issues.length === 0, resultType: formatCelType(type), issues: checker.issues }
+      };
+    } catch (error) {
+      if (!(error instanceof CelSyntaxError)) {
+        throw error;
+      }
+      compiled = { check: { valid: false, issues: [{ message: `Syntax error: ${error.message}`, start: error.start, end: error.end }] } };
+    }
+
+    this.compiled.set(condition, compiled);
+    return compiled;
+  }
+}
@@ -0,0 +1,83 @@
+import { IncomingMessage, ServerResponse } from 'http';
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+/**
+ * Host name of a `Host` header or URL host, lower-cased, without port or IPv6 brackets.
+ */
+function hostName(host: string): string {
+  const name = host.toLowerCase().replace(/:\d+$/, '');
+  return name.startsWith('[') && name.endsWith(']') ? name.slice(1, -1) : name;
+}
+
+/**
+ * Origin checks for browser requests. Requests without an `Origin` header
+ * (MCP clients outside a browser) are always allowed; browser requests must
+ * come from an allowlisted origin, or from the server's own origin when the
+ * `Host` header names the server. In a DNS rebinding attack the page's origin
+ * and the `Host` header both carry the attacker's host name, so matching them
+ * alone proves nothing; the host check is what rejects those requests.
+ */
+export class CorsPolicy {
+  private readonly origins: Set<string>;
+  private readonly anyOrigin: boolean;
+  private readonly hosts: Set<string>;
+
+  /**
+   * `allowedOrigins` are full origins such as `https://app.example.com`; `*`
+   * allows every origin. `serverHosts` are the names the server is reached
+   * at (bind host, public URL host); loopback names and the hosts of the
+   * allowed origins are always included.
+   */
+  constructor(allowedOrigins: string[] = [], serverHosts: string[] = []) {
+    this.anyOrigin = allowedOrigins.includes('*');
+    this.origins = new Set(allowedOrigins.filter(origin => origin !== '*').map(origin => origin.replace(/\/+$/, '').toLowerCase()));
+    this.hosts = new Set([...LOOPBACK_HOSTS, ...serverHosts.map(hostName)]);
+    for (const origin of this.origins) {
+      try {
+        this.hosts.add(hostName(new URL(origin).host));
+      } catch {
+        // Not a URL: it can only match an identical Origin header.
+      }
+    }
+  }
+
+  public isAllowed(req: IncomingMessage): boolean {
+    const origin = req.headers.origin;
+    if (origin === undefined) {
+      return true;
+    }
+    if (this.anyOrigin || this.origins.has(origin.toLowerCase())) {
+      return true;
+    }
+    const host = req.headers.host?.toLowerCase();
+    if (!host || !this.hosts.has(hostName(host))) {
+      return false;
+    }
+    try {
+      // Same-origin requests: the Origin names the host the request was sent to.
+      return new URL(origin).host.toLowerCase() === host;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Set the CORS response headers for an allowed request.
+   */
+  public apply(req: IncomingMessage, res: ServerResponse): void {
+    const origin = req.headers.origin;
+    if (origin === undefined) {
+      return;
+    }
+    res.setHeader('Access-Control-Allow-Origin', this.anyOrigin ? '*' : origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Cache-Control, Authorization, X-API-Key, mcp-session-id, mcp-protocol-version, last-event-id');
+    res.setHeader('Access-Control-Expose-Headers', 'mcp-session-id, WWW-Authenticate, Retry-After');
+  }
+
+  public describe(): string[] {
+    return this.anyOrigin ? ['*'] : [...this.origins];
+  }
+}
@@ -0,0 +1,108 @@
+import {
+  AuthorizationModelAst,
+  ConditionDefinition,
+  RewriteNode,
+  TypeDefinition,
+  formatConditionParameterType
+} from './dsl-parser.js';
+import { formatRestriction } from './model-index.js';
+
+/**
+ * Render a relation rewrite as a DSL expression. Nested set operations are
+ * always parenthesized so that the output parses back to the same tree.
+ */
+export function formatRewrite(node: RewriteNode, nested = false): string {
+  switch (node.kind) {
+    case 'direct':
+      return `[${node.types.map(formatRestriction).join(', ')}]`;
+    case 'computed':
+      return node.relation;
+    case 'tupleToUserset':
+      return `${node.relation} from ${node.tupleset}`;
+    case 'union':
+    case 'intersection': {
+      const text = node.children.map(child => formatRewrite(child, true)).join(node.kind === 'union' ? ' or ' : ' and ');
+      return nested ? `(${text})` : text;
+    }
+    case 'exclusion': {
+      const text = `${formatRewrite(node.base, true)} but not ${formatRewrite(node.subtract, true)}`;
+      return nested ? `(${text})` : text;
+    }
+  }
+}
+
+function formatType(type: TypeDefinition, relations = type.relations): string[] {
+  const lines = [`${type.extension ? 'extend type' : 'type'} ${type.name}`];
+  if (relations.length > 0) {
+    lines.push('  relations');
+    for (const relation of relations) {
+      lines.push(`    define ${relation.name}: ${formatRewrite(relation.rewrite)}`);
+    }
+  }
+  return lines;
+}
+
+function formatCondition(condition: ConditionDefinition): string[] {
+  const parameters = condition.parameters
+    .map(parameter => `${parameter.name}: ${formatConditionParameterType(parameter.type)}`)
+    .join(', ');
+  return [`condition ${condition.name}(${parameters}) {`, `  ${condition.expression}`, '}'];
+}
+
+/**
+ * Render a model as a single DSL file in canonical layout. Module files keep
+ * their `module` header and `extend type` blocks; in a regular model the
+ * relations of extensions are folded into the type they extend.
+ */
+export function formatDsl(model: AuthorizationModelAst): string {
+  const blocks: string[][] = [];
+
+  if (model.module) {
+    blocks.push([`module ${model.module}`]);
+    model.types.forEach(type => blocks.push(formatType(type)));
+  } else {
+    blocks.push(['model', `  schema ${model.schemaVersion ?? '1.1'}`]);
+    const order: string[] = [];
+    const merged = new Map<string, TypeDefinition>();
+    for (const type of model.types) {
+      const existing = merged.get(type.name);
+      if (existing) {
+        existing.relations.push(...type.relations);
+        continue;
+      }
+      order.push(type.name);
+      merged.set(type.name, { ...type, extension: false, relations: [...type.relations] });
+    }
+    order.forEach(name => blocks.push(formatType(merged.get(name)!)));
+  }
+
+  model.conditions.forEach(condition => blocks.push(formatCondition(condition)));
+  return `${blocks.map(block => block.join('\n')).join('\n\n')}\n`;
+}
+
+/**
+ * Split a combined modular model back into its module files, using the
+ * `module`/`file` recorded on each type and condition. Returns the file
+ * contents keyed by path, including a generated `fga.mod`.
+ */
+export function formatModuleFiles(model: AuthorizationModelAst): Record<string, string> {
+  const files = new Map<string, AuthorizationModelAst>();
+  const fileFor = (module: string | undefined, file: string | undefined) => {
+    const name = file ?? `${module ?? 'model'}.fga`;
+    if (!files.has(name)) {
+      files.set(name, { module: module ?? 'model', types: [], conditions: [], file: name });
+    }
+    return files.get(name)!;
+  };
+
+  model.types.forEach(type => fileFor(type.module, type.file).types.push(type));
+  model.conditions.forEach(condition => fileFor(condition.module, condition.file).conditions.push(condition));
+
+  const result: Record<string, string> = {
+    'fga.mod': `schema: '${model.schemaVersion ?? '1.2'}'\ncontents:\n${[...files.keys()].map(file => `  - ${file}`).join('\n')}\n`
+  };
+  for (const [file, module] of files) {
+    result[file] = formatDsl(module);
+  }
+  return result;
+}
@@ -0,0 +1,752 @@
+/**
+ * Parser for the OpenFGA modeling language (DSL).
+ *
+ * Supports single-file models (`model` / `schema 1.1|1.2`) as well as module
+ * files (`module <name>` with `extend type`). The parser is line oriented, like
+ * the DSL itself, and keeps 1-based line/column ranges on every node so that
+ * diagnostics can point at the exact token that caused them.
+ */
+
+export type Severity = 'error' | 'warning' | 'info';
+
+/**
+ * A source range. Lines and columns are 1-based, `endColumn` is exclusive.
+ */
+export interface SourceRange {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface Diagnostic extends SourceRange {
+  severity: Severity;
+  code: string;
+  message: string;
+  file?: string;
+}
+
+export interface TypeRestriction {
+  type: string;
+  relation?: string;
+  wildcard: boolean;
+  condition?: string;
+  range: SourceRange;
+}
+
+export type RewriteNode =
+  | { kind: 'direct'; types: TypeRestriction[]; range: SourceRange }
+  | { kind: 'computed'; relation: string; range: SourceRange }
+  | { kind: 'tupleToUserset'; relation: string; tupleset: string; range: SourceRange; tuplesetRange: SourceRange }
+  | { kind: 'union' | 'intersection'; children: RewriteNode[]; range: SourceRange }
+  | { kind: 'exclusion'; base: RewriteNode; subtract: RewriteNode; range: SourceRange };
+
+export interface RelationDefinition {
+  name: string;
+  rewrite: RewriteNode;
+  range: SourceRange;
+  nameRange: SourceRange;
+}
+
+export interface TypeDefinition {
+  name: string;
+  extension: boolean;
+  relations: RelationDefinition[];
+  range: SourceRange;
+  nameRange: SourceRange;
+  module?: string;
+  file?: string;
+}
+
+export interface ConditionParameterType {
+  name: string;
+  genericTypes: ConditionParameterType[];
+}
+
+export interface ConditionParameter {
+  name: string;
+  type: ConditionParameterType;
+  range: SourceRange;
+}
+
+export interface ConditionDefinition {
+  name: string;
+  parameters: ConditionParameter[];
+  expression: string;
+  range: SourceRange;
+  nameRange: SourceRange;
+  expressionRange: SourceRange;
+  module?: string;
+  file?: string;
+}
+
+export interface AuthorizationModelAst {
+  schemaVersion?: string;
+  module?: string;
+  types: TypeDefinition[];
+  conditions: ConditionDefinition[];
+  file?: string;
+}
+
+export interface ParseResult {
+  model: AuthorizationModelAst;
+  diagnostics: Diagnostic[];
+}
+
+export const SUPPORTED_SCHEMA_VERSIONS = ['1.1', '1.2'];
+
+export const CONDITION_PARAMETER_TYPES = [
+  'string', 'int', 'uint', 'double', 'bool', 'duration', 'timestamp', 'map', 'list', 'ipaddress', 'any'
+];
+
+export const RESERVED_KEYWORDS = [
+  'model', 'schema', 'module', 'type', 'extend', 'relations', 'define', 'condition',
+  'or', 'and', 'but', 'not', 'from', 'with', 'self', 'this'
+];
+
+const NAME_PATTERN = /^[^\s:#@*()[\],]+$/;
+const CONDITION_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+interface Token {
+  value: string;
+  column: number;
+  endColumn: number;
+}
+
+class DslSyntaxError extends Error {
+  constructor(message: string, public readonly column: number, public readonly endColumn: number) {
+    super(message);
+  }
+}
+
+/**
+ * Build a range that covers a single line segment.
+ */
+export function lineRange(line: number, column: number, endColumn: number): SourceRange {
+  return { line, column, endLine: line, endColumn };
+}
+
+/**
+ * Strip a trailing `#` comment from a DSL line. A `#` only starts a comment at
+ * the beginning of a line or after whitespace, so `team#member` is preserved.
+ */
+export function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === '\\') {
+        i++;
+      } else if (ch === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+/**
+ * Recursive-descent parser for a single relation definition expression.
+ */
+class RewriteParser {
+  private position = 0;
+  private directSeen = false;
+
+  constructor(private readonly tokens: Token[], private readonly line: number) {}
+
+  parse(): RewriteNode {
+    if (this.tokens.length === 0) {
+      throw new DslSyntaxError('Relation definition is empty', 1, 2);
+    }
+    const node = this.parseExpression();
+    const extra = this.peek();
+    if (extra) {
+      throw new DslSyntaxError(`Unexpected '${extra.value}'`, extra.column, extra.endColumn);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(expected?: string): Token {
+    const token = this.tokens[this.position];
+    if (!token) {
+      const last = this.tokens[this.tokens.length - 1];
+      throw new DslSyntaxError(
+        expected ? `Expected '${expected}' but the definition ended` : 'Unexpected end of definition',
+        last.endColumn,
+        last.endColumn + 1
+      );
+    }
+    if (expected && token.value !== expected) {
+      throw new DslSyntaxError(`Expected '${expected}' but found '${token.value}'`, token.column, token.endColumn);
+    }
+    this.position++;
+    return token;
+  }
+
+  private range(start: number, end: number): SourceRange {
+    return lineRange(this.line, start, end);
+  }
+
+  private parseExpression(): RewriteNode {
+    const first = this.parseTerm();
+    const children: RewriteNode[] = [first];
+    let operator: 'or' | 'and' | null = null;
+
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.value === 'or' || token.value === 'and') {
+        if (operator && operator !== token.value) {
+          throw new DslSyntaxError(
+            `Cannot mix 'or' and 'and' without parentheses`,
+            token.column,
+            token.endColumn
+          );
+        }
+        operator = token.value;
+        this.next();
+        children.push(this.parseTerm());
+        continue;
+      }
+
+      if (token.value === 'but') {
+        this.next();
+        this.next('not');
+        const base: RewriteNode = operator ? this.combine(operator, children) : first;
+        const subtract = this.parseTerm();
+        const following = this.peek();
+        if (following && following.value !== ')') {
+          throw new DslSyntaxError(
+            `Operators after 'but not' require parentheses`,
+            following.column,
+            following.endColumn
+          );
+        }
+        return {
+          kind: 'exclusion',
+          base,
+          subtract,
+          range: this.range(base.range.column, subtract.range.endColumn)
+        };
+      }
+
+      break;
+    }
+
+    return operator ? this.combine(operator, children) : first;
+  }
+
+  private combine(operator: 'or' | 'and', children: RewriteNode[]): RewriteNode {
+    return {
+      kind: operator === 'or' ? 'union' : 'intersection',
+      children: [...children],
+      range: this.range(children[0].range.column, children[children.length - 1].range.endColumn)
+    };
+  }
+
+  private parseTerm(): RewriteNode {
+    const token = this.next();
+
+    if (token.value === '[') {
+      return this.parseDirect(token);
+    }
+
+    if (token.value === '(') {
+      const inner = this.parseExpression();
+      const close = this.next(')');
+      return { ...inner, range: this.range(token.column, close.endColumn) };
+    }
+
+    this.assertName(token, 'relation');
+    if (this.peek()?.value === 'from') {
+      this.next();
+      const tupleset = this.next();
+      this.assertName(tupleset, 'relation');
+      return {
+        kind: 'tupleToUserset',
+        relation: token.value,
+        tupleset: tupleset.value,
+        range: this.range(token.column, tupleset.endColumn),
+        tuplesetRange: this.range(tupleset.column, tupleset.endColumn)
+      };
+    }
+
+    return { kind: 'computed', relation: token.value, range: this.range(token.column, token.endColumn) };
+  }
+
+  private parseDirect(open: Token): RewriteNode {
+    if (this.directSeen) {
+      throw new DslSyntaxError('Only one list of directly related types is allowed per relation', open.column, open.endColumn);
+    }
+    this.directSeen = true;
+
+    const types: TypeRestriction[] = [];
+    for (;;) {
+      const token = this.next();
+      if (token.value === ']' && types.length === 0) {
+        throw new DslSyntaxError('Directly related types cannot be empty', open.column, token.endColumn);
+      }
+      types.push(this.parseRestriction(token));
+
+      if (!this.peek()) {
+        throw new DslSyntaxError(`Missing closing ']'`, open.column, open.endColumn);
+      }
+      const separator = this.next();
+      if (separator.value === ']') {
+        return { kind: 'direct', types, range: this.range(open.column, separator.endColumn) };
+      }
+      if (separator.value !== ',') {
+        throw new DslSyntaxError(`Expected ',' or ']' but found '${separator.value}'`, separator.column, separator.endColumn);
+      }
+    }
+  }
+
+  private parseRestriction(token: Token): TypeRestriction {
+    const match = /^([^:#]+)(?:(:\*)|#([^:#]+))?$/.exec(token.value);
+    if (!match || RESERVED_KEYWORDS.includes(match[1])) {
+      throw new DslSyntaxError(`Invalid type restriction '${token.value}'`, token.column, token.endColumn);
+    }
+
+    const restriction: TypeRestriction = {
+      type: match[1],
+      wildcard: Boolean(match[2]),
+      range: this.range(token.column, token.endColumn)
+    };
+    if (match[3]) {
+      restriction.relation = match[3];
+    }
+
+    if (this.peek()?.value === 'with') {
+      this.next();
+      const condition = this.next();
+      if (!CONDITION_NAME_PATTERN.test(condition.value)) {
+        throw new DslSyntaxError(`Invalid condition name '${condition.value}'`, condition.column, condition.endColumn);
+      }
+      restriction.condition = condition.value;
+      restriction.range = this.range(token.column, condition.endColumn);
+    }
+
+    return restriction;
+  }
+
+  private assertName(token: Token, kind: string) {
+    if (!NAME_PATTERN.test(token.value) || RESERVED_KEYWORDS.includes(token.value)) {
+      throw new DslSyntaxError(`Expected a ${kind} name but found '${token.value}'`, token.column, token.endColumn);
+    }
+  }
+}
+
+/**
+ * Split a relation expression into tokens, keeping 1-based columns relative
+ * to the full source line.
+ */
+function tokenizeExpression(text: string, offset: number): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[[\](),]|[^\s[\](),]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const column = offset + match.index + 1;
+    tokens.push({ value: match[0], column, endColumn: column + match[0].length });
+  }
+  return tokens;
+}
+
+/**
+ * Parse a condition parameter type such as `int`, `list<string>` or
+ * `map<list<int>>`.
+ */
+export function parseConditionParameterType(text: string): ConditionParameterType | null {
+  const trimmed = text.trim();
+  const match = /^([a-z]+)(?:\s*<(.+)>)?$/.exec(trimmed);
+  if (!match) {
+    return null;
+  }
+  const genericTypes: ConditionParameterType[] = [];
+  if (match[2] !== undefined) {
+    const inner = parseConditionParameterType(match[2]);
+    if (!inner) {
+      return null;
+    }
+    genericTypes.push(inner);
+  }
+  return { name: match[1], genericTypes };
+}
+
+/**
+ * Render a condition parameter type back to its DSL spelling.
+ */
+export function formatConditionParameterType(type: ConditionParameterType): string {
+  if (type.genericTypes.length === 0) {
+    return type.name;
+  }
+  return `${type.name}<${type.genericTypes.map(formatConditionParameterType).join(', ')}>`;
+}
+
+class DslParser {
+  private readonly lines: string[];
+  private readonly diagnostics: Diagnostic[] = [];
+  private readonly model: AuthorizationModelAst = { types: [], conditions: [] };
+  private currentType: TypeDefinition | null = null;
+  private inRelations = false;
+  private sawModel = false;
+
+  constructor(source: string, private readonly file?: string) {
+    this.lines = source.split(/\r?\n/);
+    if (file) {
+      this.model.file = file;
+    }
+  }
+
+  parse(): ParseResult {
+    for (let index = 0; index < this.lines.length; index++) {
+      index = this.parseLine(index);
+    }
+
+    if (this.sawModel && !this.model.schemaVersion) {
+      this.error('missing-schema', `Missing 'schema' declaration after 'model'`, lineRange(1, 1, 2));
+    }
+
+    return { model: this.model, diagnostics: this.diagnostics };
+  }
+
+  private error(code: string, message: string, range: SourceRange) {
+    const diagnostic: Diagnostic = { severity: 'error', code, message, ...range };
+    if (this.file) {
+      diagnostic.file = this.file;
+    }
+    this.diagnostics.push(diagnostic);
+  }
+
+  /**
+   * Parse the line at `index` and return the index of the last line consumed.
+   */
+  private parseLine(index: number): number {
+    const lineNumber = index + 1;
+    const text = stripComment(this.lines[index]);
+    const trimmed = text.trim();
+    if (trimmed.length === 0) {
+      return index;
+    }
+
+    const start = text.length - text.trimStart().length;
+    const words = trimmed.split(/\s+/);
+    const keyword = words[0];
+    const wholeLine = lineRange(lineNumber, start + 1, start + trimmed.length + 1);
+
+    switch (keyword) {
+      case 'model':
+        this.parseModelHeader(words, wholeLine);
+        return index;
+
+      case 'schema':
+        this.parseSchema(words, lineNumber, text, wholeLine);
+        return index;
+
+      case 'module':
+        this.parseModule(words, wholeLine);
+        return index;
+
+      case 'type':
+      case 'extend':
+        this.parseType(words, lineNumber, text, wholeLine);
+        return index;
+
+      case 'relations':
+        if (!this.currentType) {
+          this.error('syntax-error', `'relations' must follow a type declaration`, wholeLine);
+        } else if (words.length > 1) {
+          this.error('syntax-error', `Unexpected text after 'relations'`, wholeLine);
+        } else {
+          this.inRelations = true;
+        }
+        return index;
+
+      case 'define':
+        this.parseDefine(lineNumber, text, start, wholeLine);
+        return index;
+
+      case 'condition':
+        return this.parseCondition(index);
+
+      default:
+        this.error('syntax-error', `Unexpected '${keyword}'`, lineRange(lineNumber, start + 1, start + keyword.length + 1));
+        return index;
+    }
+  }
+
+  private parseModelHeader(words: string[], range: SourceRange) {
+    if (words.length > 1) {
+      this.error('syntax-error', `Unexpected text after 'model'`, range);
+    }
+    if (this.model.module) {
+      this.error('syntax-error', `A module file cannot declare 'model'`, range);
+    }
+    if (this.sawModel || this.model.types.length > 0 || this.model.conditions.length > 0) {
+      this.error('syntax-error', `'model' must be declared once, at the top of the file`, range);
+    }
+    this.sawModel = true;
+  }
+
+  private parseSchema(words: string[], lineNumber: number, text: string, range: SourceRange) {
+    if (!this.sawModel || this.currentType || this.model.conditions.length > 0) {
+      this.error('syntax-error', `'schema' must directly follow 'model'`, range);
+      return;
+    }
+    if (words.length !== 2) {
+      this.error('syntax-error', `Expected 'schema <version>'`, range);
+      return;
+    }
+    const version = words[1];
+    const column = text.indexOf(version, text.indexOf('schema') + 6) + 1;
+    if (!SUPPORTED_SCHEMA_VERSIONS.includes(version)) {
+      this.error(
+        'unsupported-schema',
+        `Unsupported schema version '${version}', expected one of ${SUPPORTED_SCHEMA_VERSIONS.join(', ')}`,
+        lineRange(lineNumber, column, column + version.length)
+      );
+    }
+    this.model.schemaVersion = version;
+  }
+
+  private parseModule(words: string[], range: SourceRange) {
+    if (this.sawModel || this.model.module || this.model.types.length > 0 || this.model.conditions.length > 0) {
+      this.error('syntax-error', `'module' must be declared once, at the top of the file, instead of 'model'`, range);
+      return;
+    }
+    if (words.length !== 2 || !NAME_PATTERN.test(words[1])) {
+      this.error('syntax-error', `Expected 'module <name>'`, range);
+      return;
+    }
+    this.model.module = words[1];
+  }
+
+  private parseType(words: string[], lineNumber: number, text: string, range: SourceRange) {
+    const extension = words[0] === 'extend';
+    const expected = extension ? 'extend type <name>' : 'type <name>';
+    const nameIndex = extension ? 2 : 1;
+
+    if ((extension && words[1] !== 'type') || words.length !== nameIndex + 1) {
+      this.error('syntax-error', `Expected '${expected}'`, range);
+      this.currentType = null;
+      return;
+    }
+
+    const name = words[nameIndex];
+    const column = text.lastIndexOf(name) + 1;
+    const nameRange = lineRange(lineNumber, column, column + name.length);
+
+    if (!NAME_PATTERN.test(name) || RESERVED_KEYWORDS.includes(name)) {
+      this.error('invalid-name', `Invalid type name '${name}'`, nameRange);
+    }
+    if (extension && !this.model.module) {
+      this.error('syntax-error', `'extend type' is only allowed in module files`, range);
+    }
+    if (this.model.conditions.length > 0) {
+      this.error('syntax-error', 'Type definitions must come before conditions', range);
+    }
+
+    const type: TypeDefinition = { name, extension, relations: [], range, nameRange };
+    if (this.model.module) {
+      type.module = this.model.module;
+    }
+    if (this.file) {
+      type.file = this.file;
+    }
+    this.model.types.push(type);
+    this.currentType = type;
+    this.inRelations = false;
+  }
+
+  private parseDefine(lineNumber: number, text: string, start: number, range: SourceRange) {
+    if (!this.currentType || !this.inRelations) {
+      this.error('syntax-error', `'define' must appear inside a type's 'relations' block`, range);
+      return;
+    }
+
+    const match = /^define\s+([^\s:]+)\s*:(.*)$/.exec(text.slice(start));
+    if (!match) {
+      this.error('syntax-error', `Expected 'define <relation>: <definition>'`, range);
+      return;
+    }
+
+    const name = match[1];
+    const nameColumn = start + text.slice(start).indexOf(name, 6) + 1;
+    const nameRange = lineRange(lineNumber, nameColumn, nameColumn + name.length);
+    if (!NAME_PATTERN.test(name) || RESERVED_KEYWORDS.includes(name)) {
+      this.error('invalid-name', `Invalid relation name '${name}'`, nameRange);
+    }
+
+    const expressionOffset = text.length - match[2].length;
+    const tokens = tokenizeExpression(match[2], expressionOffset);
+    try {
+      const rewrite = new RewriteParser(tokens, lineNumber).parse();
+      this.currentType.relations.push({ name, rewrite, range, nameRange });
+    } catch (error) {
+      if (!(error instanceof DslSyntaxError)) {
+        throw error;
+      }
+      const column = tokens.length === 0 ? range.endColumn : error.column;
+      const endColumn = tokens.length === 0 ? range.endColumn + 1 : error.endColumn;
+      this.error('syntax-error', error.message, lineRange(lineNumber, column, endColumn));
+    }
+  }
+
+  /**
+   * Parse a (possibly multi-line) condition block starting at `index` and
+   * return the index of its closing line.
+   */
+  private parseCondition(index: number): number {
+    const startLine = index + 1;
+    this.currentType = null;
+    this.inRelations = false;
+
+    // Collect lines until the braces balance.
+    let depth = 0;
+    let opened = false;
+    let last = index;
+    const collected: string[] = [];
+    for (let i = index; i < this.lines.length; i++) {
+      const text = stripComment(this.lines[i]);
+      collected.push(text);
+      last = i;
+      for (const ch of text) {
+        if (ch === '{') {
+          depth++;
+          opened = true;
+        } else if (ch === '}') {
+          depth--;
+        }
+      }
+      if (opened && depth <= 0) {
+        break;
+      }
+      // Stop at the next top-level declaration if the block never opened.
+      if (!opened && i > index && /^\s*(type|extend|condition|model|module)\b/.test(this.lines[i + 1] ?? '')) {
+        break;
+      }
+    }
+
+    const joined = collected.join('\n');
+    const headerRange = lineRange(startLine, joined.indexOf('condition') + 1, collected[0].trimEnd().length + 1);
+
+    if (!opened || depth !== 0) {
+      this.error('syntax-error', `Condition block is missing ${opened ? `a closing '}'` : `an opening '{'`}`, headerRange);
+      return last;
+    }
+
+    const match = /^\s*condition\s+([^\s(]+)\s*\(([^)]*)\)\s*\{([\s\S]*)\}\s*$/.exec(joined);
+    if (!match) {
+      this.error('syntax-error', `Expected 'condition <name>(<parameters>) { <expression> }'`, headerRange);
+      return last;
+    }
+
+    const position = (offset: number) => {
+      const before = joined.slice(0, offset).split('\n');
+      return { line: startLine + before.length - 1, column: before[before.length - 1].length + 1 };
+    };
+
+    const name = match[1];
+    const nameOffset = joined.indexOf(name, joined.indexOf('condition') + 9);
+    const namePosition = position(nameOffset);
+    const nameRange = lineRange(namePosition.line, namePosition.column, namePosition.column + name.length);
+    if (!CONDITION_NAME_PATTERN.test(name)) {
+      this.error('invalid-name', `Invalid condition name '${name}'`, nameRange);
+    }
+
+    const parametersOffset = joined.indexOf('(', nameOffset) + 1;
+    const parameters = this.parseConditionParameters(match[2], parametersOffset, position);
+
+    const expression = match[3].trim();
+    const bodyOffset = joined.indexOf('{', parametersOffset + match[2].length) + 1;
+    const expressionStart = position(bodyOffset + match[3].indexOf(expression));
+    const expressionEnd = position(bodyOffset + match[3].indexOf(expression) + expression.length);
+    const expressionRange: SourceRange = {
+      line: expressionStart.line,
+      column: expressionStart.column,
+      endLine: expressionEnd.line,
+      endColumn: expressionEnd.column
+    };
+    if (expression.length === 0) {
+      this.error('empty-condition', `Condition '${name}' has an empty expression`, nameRange);
+    }
+
+    const endPosition = position(joined.trimEnd().length);
+    const condition: ConditionDefinition = {
+      name,
+      parameters,
+      expression,
+      range: { line: startLine, column: headerRange.column, endLine: endPosition.line, endColumn: endPosition.column },
+      nameRange,
+      expressionRange
+    };
+    if (this.model.module) {
+      condition.module = this.model.module;
+    }
+    if (this.file) {
+      condition.file = this.file;
+    }
+    this.model.conditions.push(condition);
+
+    return last;
+  }
+
+  private parseConditionParameters(
+    text: string,
+    offset: number,
+    position: (offset: number) => { line: number; column: number }
+  ): ConditionParameter[] {
+    const parameters: ConditionParameter[] = [];
+    if (text.trim().length === 0) {
+      return parameters;
+    }
+
+    // Split on commas that are not nested inside generic brackets.
+    const parts: { text: string; offset: number }[] = [];
+    let depth = 0;
+    let partStart = 0;
+    for (let i = 0; i <= text.length; i++) {
+      const ch = text[i];
+      if (ch === '<') depth++;
+      if (ch === '>') depth--;
+      if (i === text.length || (ch === ',' && depth === 0)) {
+        parts.push({ text: text.slice(partStart, i), offset: offset + partStart });
+        partStart = i + 1;
+      }
+    }
+
+    for (const part of parts) {
+      const leading = part.text.length - part.text.trimStart().length;
+      const trimmed = part.text.trim();
+      const start = position(part.offset + leading);
+      const range = lineRange(start.line, start.column, start.column + trimmed.length);
+      const match = /^([A-Za-z_][A-Za-z0-9_]*)\s*:\s*(.+)$/.exec(trimmed);
+      if (!match) {
+        this.error('syntax-error', `Expected '<name>: <type>' but found '${trimmed}'`, range);
+        continue;
+      }
+      const type = parseConditionParameterType(match[2]);
+      if (!type) {
+        this.error('invalid-condition-parameter', `Invalid parameter type '${match[2]}'`, range);
+        continue;
+      }
+      parameters.push({ name: match[1], type, range });
+    }
+
+    return parameters;
+  }
+}
+
+/**
+ * Parse OpenFGA DSL source into an AST plus any syntax diagnostics.
+ */
+export function parseDsl(source: string, options: { file?: string } = {}): ParseResult {
+  return new DslParser(source, options.file).parse();
+}
@@ -0,0 +1,158 @@
+import { PromptMatcher } from './prompt-matcher.js';
+import { Logger } from './logger.js';
+import { GuideSection, ensureUniqueSlugs, splitGuideSections } from './guide-sections.js';
+
+export const GUIDE_URI_PREFIX = 'openfga://guide/';
+export const GUIDE_TOC_URI = `${GUIDE_URI_PREFIX}toc`;
+
+export interface GuideResource {
+  uri: string;
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface GuideResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Publishes each `##` section of the prompt guides as an MCP resource
+ * (`openfga://guide/<section>`), plus a table of contents, and notifies
+ * listeners when the prompt files change on disk.
+ */
+export class GuideResources {
+  private sections: GuideSection[] = [];
+  private loading: Promise<void> | null = null;
+  private listeners = new Set<() => void>();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private readonly promptMatcher: PromptMatcher, private readonly logger: Logger) {}
+
+  /**
+   * (Re)load the sections of every prompt file known to the registry.
+   */
+  public async load(): Promise<void> {
+    await this.promptMatcher.ensureLoaded();
+    const files = [...new Set(this.promptMatcher.getAllRules().map(rule => rule.promptFile))].sort();
+
+    const sections: GuideSection[] = [];
+    for (const file of files) {
+      const content = await this.promptMatcher.loadPromptContent(file);
+      sections.push(...splitGuideSections(content, file));
+    }
+
+    this.sections = ensureUniqueSlugs(sections, ['toc']);
+    this.logger.debug(`Loaded ${sections.length} guide sections from ${files.length} prompt files`, {
+      directory: this.promptMatcher.getPromptsDirectory()
+    });
+  }
+
+  public async getSections(): Promise<GuideSection[]> {
+    await this.ensureLoaded();
+    return [...this.sections];
+  }
+
+  public async listResources(): Promise<GuideResource[]> {
+    await this.ensureLoaded();
+    return [
+      {
+        uri: GUIDE_TOC_URI,
+        name: 'toc',
+        title: 'OpenFGA Modeling Guide: Table of Contents',
+        description: 'Index of every guide section with its resource URI',
+        mimeType: 'text/markdown'
+      },
+      ...this.sections.map(section => ({
+        uri: `${GUIDE_URI_PREFIX}${section.slug}`,
+        name: section.slug,
+        title: section.title,
+        description: this.describe(section),
+        mimeType: 'text/markdown'
+      }))
+    ];
+  }
+
+  public async readResource(uri: string): Promise<GuideResourceContents> {
+    await this.ensureLoaded();
+
+    if (uri === GUIDE_TOC_URI) {
+      return { uri, mimeType: 'text/markdown', text: this.tableOfContents() };
+    }
+
+    const section = this.sections.find(candidate => `${GUIDE_URI_PREFIX}${candidate.slug}` === uri);
+    if (!section) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+    return { uri, mimeType: 'text/markdown', text: section.content };
+  }
+
+  /**
+   * Register a listener for resource list changes. Returns an unsubscribe function.
+   */
+  public onListChanged(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Reload whenever the prompt matcher picks up changed prompt files.
+   */
+  public watch(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+    this.unsubscribe = this.promptMatcher.onChange(() => this.reload());
+  }
+
+  public close(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async reload() {
+    try {
+      this.loading = this.load();
+      await this.loading;
+      this.logger.logServerEvent('Prompt files changed, guide resources reloaded', { sections: this.sections.length });
+      this.listeners.forEach(listener => listener());
+    } catch (error) {
+      this.loading = null;
+      this.logger.error('Failed to reload guide resources', error);
+    }
+  }
+
+  private describe(section: GuideSection): string {
+    const topics = section.subheadings.length > 0 ? ` Covers: ${section.subheadings.slice(0, 6).join('; ')}.` : '';
+    return `${section.title} (${section.file}, lines ${section.startLine}-${section.endLine}).${topics}`;
+  }
+
+  private tableOfContents(): string {
+    const lines = ['# OpenFGA Modeling Guide', '', 'Read a section with `resources/read` using its URI.', ''];
+    let file: string | null = null;
+    for (const section of this.sections) {
+      if (section.file !== file) {
+        file = section.file;
+        lines.push(`## ${file}`, '');
+      }
+      lines.push(`- [${section.title}](${GUIDE_URI_PREFIX}${section.slug})`);
+      for (const subheading of section.subheadings) {
+        lines.push(`  - ${subheading}`);
+      }
+    }
+    return lines.join('\n');
+  }
+}
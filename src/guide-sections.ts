@@ -0,0 +1,124 @@
+/**
+ * Splits markdown guides into `##` sections that can be served and ranked
+ * independently.
+ */
+
+export interface GuideSection {
+  slug: string;
+  title: string;
+  file: string;
+  content: string;
+  startLine: number;
+  endLine: number;
+  subheadings: string[];
+}
+
+/**
+ * Clean up a markdown heading: drop emphasis markers, numbering
+ * (`8.`, `4 `) and surrounding whitespace.
+ */
+export function cleanHeading(heading: string): string {
+  return heading
+    .replace(/[*_`]/g, '')
+    .replace(/^\s*\d+(\.\d+)*\.?\s+/, '')
+    .trim();
+}
+
+/**
+ * An explicit section id written after a heading, `## Modeling Custom Roles {#custom-roles}`.
+ */
+const HEADING_ID = /\s*\{#([A-Za-z0-9_-]+)\}\s*$/;
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Slug for a heading without an explicit `{#id}`: the title up to any
+ * subtitle (`Defining Relationships: Crafting ...` → `defining-relationships`).
+ */
+export function headingSlug(title: string): string {
+  return slugify(title.split(/:|\s[-–—]\s/)[0]);
+}
+
+/**
+ * Split a markdown document into its preamble (everything before the first
+ * `##`, titled after the `#` heading) and one section per `##` heading.
+ * Section slugs come from a heading's `{#id}` when it has one, so resource
+ * URIs survive edits to the heading text. Headings inside fenced code blocks
+ * are ignored.
+ */
+export function splitGuideSections(markdown: string, file: string): GuideSection[] {
+  const lines = markdown.split(/\r?\n/);
+  const sections: GuideSection[] = [];
+  let title = cleanHeading(file.replace(/\.md$/, '').replace(/[-_]/g, ' '));
+  let id: string | undefined;
+  let start = 0;
+  let inFence = false;
+
+  const flush = (end: number, heading: string, headingId?: string) => {
+    const content = lines.slice(start, end)
+      .map(line => /^#{1,2}\s/.test(line) ? line.replace(HEADING_ID, '') : line)
+      .join('\n')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .trim();
+    if (content.length === 0) {
+      return;
+    }
+    const subheadings = lines
+      .slice(start + 1, end)
+      .filter(line => /^#{3,}\s/.test(line))
+      .map(line => cleanHeading(line.replace(/^#+\s*/, '')));
+    sections.push({
+      slug: (headingId ? slugify(headingId) : headingSlug(heading)) || `section-${sections.length + 1}`,
+      title: heading,
+      file,
+      content,
+      startLine: start + 1,
+      endLine: end,
+      subheadings
+    });
+  };
+
+  lines.forEach((line, i) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) {
+      return;
+    }
+    if (sections.length === 0 && start === 0 && /^#\s/.test(line)) {
+      id = HEADING_ID.exec(line)?.[1];
+      title = cleanHeading(line.replace(HEADING_ID, '').replace(/^#\s*/, ''));
+      return;
+    }
+    if (/^##\s/.test(line)) {
+      flush(i, title, id);
+      start = i;
+      id = HEADING_ID.exec(line)?.[1];
+      title = cleanHeading(line.replace(HEADING_ID, '').replace(/^##\s*/, ''));
+    }
+  });
+  flush(lines.length, title, id);
+
+  return sections;
+}
+
+/**
+ * Make section slugs unique across files by prefixing collisions with the
+ * file name. `reserved` slugs (such as `toc`) are always prefixed.
+ */
+export function ensureUniqueSlugs(sections: GuideSection[], reserved: string[] = []): GuideSection[] {
+  const counts = new Map<string, number>();
+  sections.forEach(section => counts.set(section.slug, (counts.get(section.slug) ?? 0) + 1));
+  for (const section of sections) {
+    if (counts.get(section.slug)! > 1 || reserved.includes(section.slug)) {
+      section.slug = `${slugify(section.file.replace(/\.md$/, ''))}-${section.slug}`;
+    }
+  }
+  return sections;
+}
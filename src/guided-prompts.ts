@@ -0,0 +1,206 @@
+import { GetPromptResult, Prompt, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { GUIDE_URI_PREFIX, GuideResources } from './guide-resources.js';
+import { GuideSection } from './guide-sections.js';
+import { PromptMatcher } from './prompt-matcher.js';
+
+/**
+ * Parameterized MCP prompts for the common modeling workflows. Each prompt
+ * embeds the guide sections the workflow needs as resources, followed by the
+ * task built from the user's arguments.
+ */
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptTemplate {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  /**
+   * Guide sections to embed, as slug fragments (`custom-roles` matches
+   * section `custom-roles`).
+   */
+  sections: string[];
+  /**
+   * Used to rank guide sections instead when none of `sections` exist, e.g.
+   * with a custom prompts directory.
+   */
+  fallbackQuery: string;
+  render(args: Record<string, string>): string;
+}
+
+export class PromptArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptArgumentError';
+  }
+}
+
+const FALLBACK_MAX_SECTIONS = 3;
+
+function modelBlock(model: string): string {
+  return `\`\`\`dsl.openfga\n${model.trim()}\n\`\`\``;
+}
+
+/**
+ * A comma- or newline-separated argument as a Markdown list.
+ */
+function listArgument(value: string | undefined): string | undefined {
+  const items = (value ?? '').split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items.map(item => `- ${item}`).join('\n') : undefined;
+}
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    name: 'design_model',
+    title: 'Design an authorization model',
+    description: 'Design an OpenFGA authorization model for a domain, from its resources and roles',
+    arguments: [
+      { name: 'domain', description: 'The product, company or system to model (e.g. "a document management system")', required: true },
+      { name: 'resources', description: 'Comma-separated resource types to protect (e.g. "organization, folder, document")' },
+      { name: 'roles', description: 'Comma-separated roles users can have (e.g. "owner, editor, viewer")' }
+    ],
+    sections: ['core-concepts', 'defining-relationships', 'step-by-step', 'adding-permissions', 'naming-users', 'simplify-models'],
+    fallbackQuery: 'author authorization model types relations permissions',
+    render: args => {
+      const resources = listArgument(args.resources);
+      const roles = listArgument(args.roles);
+      return [
+        `Create an OpenFGA authorization model for ${args.domain}.`,
+        resources ? `Resources to protect:\n${resources}` : 'Identify the resource types to protect from the domain.',
+        roles ? `Roles:\n${roles}` : 'Identify the roles users can have on each resource.',
+        'If one of the scaffold_model templates fits the domain, start from it. ' +
+        'Follow the guide above: start from the types, define relations as [user] assignments, derive permissions as can_* relations ' +
+        'from roles, and use "X from Y" for hierarchies. Check the model with the validate_model and lint_model tools, and ' +
+        'generate tests for it with generate_model_tests. Return the model in a ```dsl.openfga block and explain each relation.'
+      ].join('\n\n');
+    }
+  },
+  {
+    name: 'add_custom_roles',
+    title: 'Add custom roles',
+    description: 'Extend an OpenFGA model so users can define their own roles and assign them per object',
+    arguments: [
+      { name: 'model', description: 'The current OpenFGA DSL model', required: true }
+    ],
+    sections: ['custom-roles', 'adding-permissions'],
+    fallbackQuery: 'custom roles role assignment permissions',
+    render: args => [
+      `Add support for custom roles to this OpenFGA model:\n\n${modelBlock(args.model)}`,
+      'Pick the custom role pattern from the guide above that fits the model (user-defined roles or role assignments) and say why. ' +
+      'Keep the existing relations working, express each permission as a can_* relation that custom roles can grant, ' +
+      'and show the tuples needed to create a role and assign it. Compare the result with the current model using the ' +
+      'diff_models tool and check it with validate_model.'
+    ].join('\n\n')
+  },
+  {
+    name: 'add_temporary_access',
+    title: 'Add temporary access',
+    description: 'Allow time-limited grants on one type of an OpenFGA model with a condition',
+    arguments: [
+      { name: 'model', description: 'The current OpenFGA DSL model', required: true },
+      { name: 'type', description: 'The type whose access should be grantable temporarily (e.g. "document")', required: true }
+    ],
+    sections: ['defining-relationships', 'core-concepts'],
+    fallbackQuery: 'conditions contextual authorization temporary access',
+    render: args => [
+      `Add temporary access to the \`${args.type}\` type of this OpenFGA model:\n\n${modelBlock(args.model)}`,
+      'Use a condition as described under "Contextual Authorization with Conditions" in the guide above, for example:\n\n' +
+      '```dsl.openfga\ncondition non_expired_grant(current_time: timestamp, grant_time: timestamp, grant_duration: duration) {\n' +
+      '  current_time < grant_time + grant_duration\n}\n```\n\n' +
+      `Allow the condition on the directly assignable relations of \`${args.type}\` that should support time-limited grants, ` +
+      'keeping permanent grants possible. Show an example tuple with its condition context, and evaluate the condition ' +
+      'for an active and an expired grant with the evaluate_condition tool.'
+    ].join('\n\n')
+  },
+  {
+    name: 'modularize_model',
+    title: 'Split a model into modules',
+    description: 'Split a single-file OpenFGA model into modules with an fga.mod manifest',
+    arguments: [
+      { name: 'model', description: 'The OpenFGA DSL model to split', required: true },
+      { name: 'modules', description: 'Comma-separated modules to create, optionally with their types (e.g. "core: user organization, docs: folder document")' }
+    ],
+    sections: ['modules'],
+    fallbackQuery: 'modular models modules fga.mod',
+    render: args => {
+      const modules = listArgument(args.modules);
+      return [
+        `Split this OpenFGA model into modules:\n\n${modelBlock(args.model)}`,
+        modules
+          ? `Use these modules:\n${modules}`
+          : 'Group the types by domain; the compose_modular_model tool with action "split" suggests a starting point.',
+        'Follow the guide above: one .fga file per module with a `module` header, `extend type` for relations a module adds ' +
+        'to another module\'s type, and an fga.mod listing every file. Check that the modules compose back into the ' +
+        'original model with the compose_modular_model tool.'
+      ].join('\n\n');
+    }
+  }
+];
+
+export class GuidedPrompts {
+  private readonly templates: Map<string, PromptTemplate>;
+
+  constructor(
+    private readonly guideResources: GuideResources,
+    private readonly promptMatcher: PromptMatcher,
+    templates: PromptTemplate[] = PROMPT_TEMPLATES
+  ) {
+    this.templates = new Map(templates.map(template => [template.name, template]));
+  }
+
+  public list(): Prompt[] {
+    return [...this.templates.values()].map(template => ({
+      name: template.name,
+      title: template.title,
+      description: template.description,
+      arguments: template.arguments.map(argument => ({
+        name: argument.name,
+        description: argument.description,
+        required: argument.required ?? false
+      }))
+    }));
+  }
+
+  /**
+   * Throws PromptArgumentError for an unknown prompt or missing arguments.
+   */
+  public async get(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new PromptArgumentError(`Unknown prompt: ${name} (available: ${[...this.templates.keys()].join(', ')})`);
+    }
+    const missing = template.arguments
+      .filter(argument => argument.required && (args[argument.name] ?? '').trim().length === 0)
+      .map(argument => argument.name);
+    if (missing.length > 0) {
+      throw new PromptArgumentError(`Prompt ${name} requires argument(s): ${missing.join(', ')}`);
+    }
+
+    const sections = await this.sectionsFor(template);
+    const messages: PromptMessage[] = sections.map(section => ({
+      role: 'user',
+      content: {
+        type: 'resource',
+        resource: { uri: `${GUIDE_URI_PREFIX}${section.slug}`, mimeType: 'text/markdown', text: section.content }
+      }
+    }));
+    messages.push({ role: 'user', content: { type: 'text', text: template.render(args) } });
+
+    return { description: template.description, messages };
+  }
+
+  private async sectionsFor(template: PromptTemplate): Promise<Pick<GuideSection, 'slug' | 'content'>[]> {
+    const available = await this.guideResources.getSections();
+    const selected = template.sections.flatMap(fragment => available.filter(section => section.slug.includes(fragment)));
+    if (selected.length > 0) {
+      return [...new Set(selected)];
+    }
+    const context = await this.promptMatcher.getContextForQuery(template.fallbackQuery, { maxSections: FALLBACK_MAX_SECTIONS });
+    return context.sections;
+  }
+}
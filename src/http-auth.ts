@@ -0,0 +1,313 @@
+import { createHash, createPublicKey, JsonWebKey, KeyObject, constants, timingSafeEqual, verify } from 'crypto';
+import { readFile } from 'fs/promises';
+import { IncomingMessage } from 'http';
+
+/**
+ * Authentication for the Streamable HTTP endpoint: static bearer tokens / API
+ * keys and JWTs verified against a local JWKS file.
+ */
+
+export interface Principal {
+  /**
+   * Client name for static tokens, the `sub` claim for JWTs.
+   */
+  id: string;
+  method: 'token' | 'jwt';
+  claims?: Record<string, unknown>;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public readonly code: 'invalid_request' | 'invalid_token' = 'invalid_token') {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export class AuthConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthConfigError';
+  }
+}
+
+export interface Authenticator {
+  /**
+   * The principal for `credential`, or null when this authenticator does
+   * not recognise the credential's form. Throws AuthError for a credential it
+   * owns but rejects (bad signature, expired, ...).
+   */
+  authenticate(credential: string): Principal | null;
+}
+
+function sha256(text: string): Buffer {
+  return createHash('sha256').update(text).digest();
+}
+
+/**
+ * Bearer tokens or API keys listed in a file, one per line as `<token>` or
+ * `<client-name> <token>`; `#` starts a comment.
+ */
+export class StaticTokenAuthenticator implements Authenticator {
+  private readonly tokens: { digest: Buffer; client: string }[];
+
+  constructor(tokens: Map<string, string>) {
+    this.tokens = [...tokens].map(([token, client]) => ({ digest: sha256(token), client }));
+  }
+
+  public static async fromFile(file: string): Promise<StaticTokenAuthenticator> {
+    let content: string;
+    try {
+      content = await readFile(file, 'utf-8');
+    } catch (error) {
+      throw new AuthConfigError(`Cannot read token file '${file}': ${(error as Error).message}`);
+    }
+    const tokens = new Map<string, string>();
+    content.split(/\r?\n/).forEach((raw, i) => {
+      const line = raw.replace(/#.*$/, '').trim();
+      if (line.length === 0) {
+        return;
+      }
+      const fields = line.split(/\s+/);
+      if (fields.length > 2) {
+        throw new AuthConfigError(`${file}:${i + 1}: expected '<token>' or '<client-name> <token>'`);
+      }
+      const [client, token] = fields.length === 2 ? fields : [`client-${tokens.size + 1}`, fields[0]];
+      tokens.set(token, client);
+    });
+    if (tokens.size === 0) {
+      throw new AuthConfigError(`Token file '${file}' does not contain any tokens`);
+    }
+    return new StaticTokenAuthenticator(tokens);
+  }
+
+  public get size(): number {
+    return this.tokens.length;
+  }
+
+  public authenticate(credential: string): Principal | null {
+    const digest = sha256(credential);
+    // Compare every entry so timing does not reveal which token matched.
+    let client: string | undefined;
+    for (const entry of this.tokens) {
+      if (timingSafeEqual(entry.digest, digest)) {
+        client ??= entry.client;
+      }
+    }
+    return client ? { id: client, method: 'token' } : null;
+  }
+}
+
+export interface JwtOptions {
+  issuer?: string;
+  audience?: string;
+  /**
+   * Allowed clock skew for `exp` and `nbf` (default 60 seconds).
+   */
+  clockToleranceSeconds?: number;
+}
+
+interface VerificationKey {
+  kid?: string;
+  alg?: string;
+  key: KeyObject;
+}
+
+const JWT_ALGORITHMS: Record<string, { keyTypes: string[]; hash: string | null; padding?: number; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { keyTypes: ['rsa'], hash: 'sha256' },
+  RS384: { keyTypes: ['rsa'], hash: 'sha384' },
+  RS512: { keyTypes: ['rsa'], hash: 'sha512' },
+  PS256: { keyTypes: ['rsa', 'rsa-pss'], hash: 'sha256', padding: constants.RSA_PKCS1_PSS_PADDING },
+  PS384: { keyTypes: ['rsa', 'rsa-pss'], hash: 'sha384', padding: constants.RSA_PKCS1_PSS_PADDING },
+  PS512: { keyTypes: ['rsa', 'rsa-pss'], hash: 'sha512', padding: constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { keyTypes: ['ec'], hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { keyTypes: ['ec'], hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+  ES512: { keyTypes: ['ec'], hash: 'sha512', dsaEncoding: 'ieee-p1363' },
+  EdDSA: { keyTypes: ['ed25519', 'ed448'], hash: null }
+};
+
+function decodeSegment(segment: string, name: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value;
+    }
+  } catch {
+    // Reported below.
+  }
+  throw new AuthError(`Malformed JWT ${name}`);
+}
+
+/**
+ * Verifies JWT signatures (RS*, PS*, ES*, EdDSA) against the public keys of a
+ * JWKS file, plus `exp`, `nbf` and optionally `iss` and `aud`. Tokens without
+ * an `exp` claim are rejected, since they would be valid forever.
+ */
+export class JwtAuthenticator implements Authenticator {
+  constructor(private readonly keys: VerificationKey[], private readonly options: JwtOptions = {}) {}
+
+  public static async fromJwksFile(file: string, options: JwtOptions = {}): Promise<JwtAuthenticator> {
+    let jwks: { keys?: unknown };
+    try {
+      jwks = JSON.parse(await readFile(file, 'utf-8'));
+    } catch (error) {
+      throw new AuthConfigError(`Cannot read JWKS file '${file}': ${(error as Error).message}`);
+    }
+    if (!Array.isArray(jwks?.keys) || jwks.keys.length === 0) {
+      throw new AuthConfigError(`JWKS file '${file}' must contain a non-empty 'keys' array`);
+    }
+
+    const keys: VerificationKey[] = [];
+    jwks.keys.forEach((jwk: JsonWebKey & { kid?: string; alg?: string; use?: string }, i: number) => {
+      if (jwk.use && jwk.use !== 'sig') {
+        return;
+      }
+      if (jwk.d !== undefined) {
+        throw new AuthConfigError(`JWKS file '${file}' key ${i + 1} is a private key; only public keys belong in the JWKS`);
+      }
+      try {
+        keys.push({ kid: jwk.kid, alg: jwk.alg, key: createPublicKey({ key: jwk, format: 'jwk' }) });
+      } catch (error) {
+        throw new AuthConfigError(`JWKS file '${file}' key ${i + 1} is not a valid public key: ${(error as Error).message}`);
+      }
+    });
+    return new JwtAuthenticator(keys, options);
+  }
+
+  public get size(): number {
+    return this.keys.length;
+  }
+
+  public authenticate(credential: string): Principal | null {
+    const segments = credential.split('.');
+    if (segments.length !== 3) {
+      return null;
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+    const header = decodeSegment(encodedHeader, 'header');
+    const claims = decodeSegment(encodedPayload, 'payload');
+
+    const algorithm = typeof header.alg === 'string' ? JWT_ALGORITHMS[header.alg] : undefined;
+    if (!algorithm) {
+      throw new AuthError(`Unsupported JWT algorithm '${String(header.alg)}'`);
+    }
+    const candidates = this.keys.filter(key =>
+      (header.kid === undefined || key.kid === header.kid) &&
+      (key.alg === undefined || key.alg === header.alg) &&
+      algorithm.keyTypes.includes(key.key.asymmetricKeyType ?? '')
+    );
+    if (candidates.length === 0) {
+      throw new AuthError(`No key in the JWKS matches kid '${String(header.kid ?? '')}' and algorithm ${String(header.alg)}`);
+    }
+
+    const data = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    const valid = candidates.some(candidate => {
+      try {
+        return verify(algorithm.hash, data, {
+          key: candidate.key,
+          ...(algorithm.padding !== undefined ? { padding: algorithm.padding, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } : {}),
+          ...(algorithm.dsaEncoding ? { dsaEncoding: algorithm.dsaEncoding } : {})
+        }, signature);
+      } catch {
+        return false;
+      }
+    });
+    if (!valid) {
+      throw new AuthError('Invalid JWT signature');
+    }
+
+    this.checkClaims(claims);
+    return { id: typeof claims.sub === 'string' ? claims.sub : 'jwt', method: 'jwt', claims };
+  }
+
+  private checkClaims(claims: Record<string, unknown>) {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.options.clockToleranceSeconds ?? 60;
+    if (typeof claims.exp !== 'number') {
+      throw new AuthError('JWT has no expiry (exp claim)');
+    }
+    if (now - tolerance >= claims.exp) {
+      throw new AuthError('JWT has expired');
+    }
+    if (typeof claims.nbf === 'number' && now + tolerance < claims.nbf) {
+      throw new AuthError('JWT is not valid yet');
+    }
+    if (this.options.issuer !== undefined && claims.iss !== this.options.issuer) {
+      throw new AuthError(`JWT issuer '${String(claims.iss)}' is not accepted`);
+    }
+    if (this.options.audience !== undefined) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.options.audience)) {
+        throw new AuthError(`JWT audience does not include '${this.options.audience}'`);
+      }
+    }
+  }
+}
+
+/**
+ * Reads the credential from `Authorization: Bearer <token>` or `X-API-Key`
+ * and tries each configured authenticator in turn.
+ */
+export class HttpAuthenticator {
+  constructor(private readonly authenticators: Authenticator[]) {}
+
+  public get enabled(): boolean {
+    return this.authenticators.length > 0;
+  }
+
+  /**
+   * The authenticated principal; throws AuthError when authentication is
+   * enabled and the request has no valid credential.
+   */
+  public authenticate(req: IncomingMessage): Principal | null {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const authorization = req.headers.authorization;
+    const apiKey = req.headers['x-api-key'];
+    let credential: string | undefined;
+    if (authorization) {
+      const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization);
+      if (!match) {
+        throw new AuthError(`The Authorization header must use the Bearer scheme`, 'invalid_request');
+      }
+      credential = match[1];
+    } else if (apiKey) {
+      credential = Array.isArray(apiKey) ? apiKey[0] : apiKey;
+    }
+    if (!credential) {
+      throw new AuthError('Authentication required', 'invalid_request');
+    }
+
+    for (const authenticator of this.authenticators) {
+      const principal = authenticator.authenticate(credential);
+      if (principal) {
+        return principal;
+      }
+    }
+    throw new AuthError('Invalid credentials');
+  }
+}
+
+export interface HttpAuthOptions extends JwtOptions {
+  tokensFile?: string;
+  jwksFile?: string;
+}
+
+/**
+ * Build the authenticator from configuration; with neither file configured
+ * authentication is disabled. Throws AuthConfigError for unusable files.
+ */
+export async function loadHttpAuthenticator(options: HttpAuthOptions): Promise<HttpAuthenticator> {
+  const authenticators: Authenticator[] = [];
+  if (options.tokensFile) {
+    authenticators.push(await StaticTokenAuthenticator.fromFile(options.tokensFile));
+  }
+  if (options.jwksFile) {
+    authenticators.push(await JwtAuthenticator.fromJwksFile(options.jwksFile, options));
+  } else if (options.issuer || options.audience) {
+    throw new AuthConfigError('A JWT issuer or audience is configured without a JWKS file');
+  }
+  return new HttpAuthenticator(authenticators);
+}
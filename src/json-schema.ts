@@ -0,0 +1,128 @@
+/**
+ * The subset of JSON Schema used by tool input and output schemas, and a
+ * validator that reports every violation with the path to the offending value.
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: readonly unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  minItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+}
+
+export interface SchemaViolation {
+  /**
+   * `model`, `rules.no-unused`, `relations[2]`; empty for the value itself.
+   */
+  path: string;
+  message: string;
+}
+
+function typeOf(value: unknown): JsonSchemaType | 'undefined' {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function describe(value: unknown): string {
+  const type = typeOf(value);
+  if (type === 'string') {
+    const text = value as string;
+    return `'${text.length > 40 ? `${text.slice(0, 40)}…` : text}'`;
+  }
+  return type === 'integer' || type === 'number' || type === 'boolean' ? `${type} ${String(value)}` : type;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+export function validateJsonSchema(schema: JsonSchema, value: unknown, path = ''): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const fail = (message: string) => violations.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`expected ${types.join(' or ')}, got ${describe(value)}`);
+      return violations;
+    }
+  }
+  if (schema.enum !== undefined && !schema.enum.includes(value)) {
+    fail(`must be one of ${schema.enum.map(option => String(option)).join(', ')} (got ${describe(value)})`);
+    return violations;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum} (got ${value})`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum} (got ${value})`);
+    }
+  }
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    fail(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => violations.push(...validateJsonSchema(schema.items!, item, childPath(path, i))));
+    }
+  } else if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    for (const name of schema.required ?? []) {
+      if (object[name] === undefined) {
+        violations.push({ path: childPath(path, name), message: 'is required' });
+      }
+    }
+    for (const [name, item] of Object.entries(object)) {
+      if (item === undefined) {
+        continue;
+      }
+      const propertySchema = Object.prototype.hasOwnProperty.call(properties, name) ? properties[name] : schema.additionalProperties;
+      if (propertySchema === false) {
+        const known = Object.keys(properties);
+        violations.push({
+          path: childPath(path, name),
+          message: `is not a known property${known.length > 0 ? ` (expected ${known.join(', ')})` : ''}`
+        });
+      } else if (propertySchema && propertySchema !== true) {
+        violations.push(...validateJsonSchema(propertySchema, item, childPath(path, name)));
+      }
+    }
+  }
+  return violations;
+}
+
+export function formatSchemaViolations(violations: SchemaViolation[]): string {
+  return violations.map(violation => `- ${violation.path || '(value)'}: ${violation.message}`).join('\n');
+}
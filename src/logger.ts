@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { performance } from 'perf_hooks';
 
 export enum LogLevel {
@@ -7,22 +8,146 @@ export enum LogLevel {
   ERROR = 3
 }
 
+/**
+ * `json` writes one JSON object per line; `human` writes one readable line
+ * per record with the fields as compact JSON.
+ */
+export type LogFormat = 'json' | 'human';
+
+/**
+ * Correlation IDs attached to every record logged while handling a request.
+ */
+export interface LogContext {
+  requestId?: string;
+  sessionId?: string;
+}
+
+export interface LoggerOptions {
+  format?: LogFormat;
+  /**
+   * Field names whose string values are replaced by their length, at any
+   * depth (default: `query`).
+   */
+  redactFields?: string[];
+  /**
+   * Strings longer than this are truncated (default 500 characters).
+   */
+  maxFieldLength?: number;
+  /**
+   * Where records go (default: stderr, stdout belongs to the stdio transport).
+   */
+  write?: (line: string) => void;
+}
+
+export const DEFAULT_REDACT_FIELDS = ['query'];
+export const DEFAULT_MAX_FIELD_LENGTH = 500;
+
+const MAX_ARRAY_ITEMS = 20;
+const MAX_DEPTH = 6;
+
+/**
+ * Tool results are logged as their size only: the text can be large and
+ * echoes the caller's input (e.g. the query).
+ */
+function summarizeResult(result: any): any {
+  if (!result || !Array.isArray(result.content)) {
+    return result;
+  }
+  return {
+    ...(result.isError ? { isError: true } : {}),
+    content: result.content.map((item: { type?: string; text?: unknown }) =>
+      typeof item?.text === 'string' ? { type: item.type, chars: item.text.length } : { type: item?.type })
+  };
+}
+
 export class Logger {
   private logLevel: LogLevel;
   private requestId: number = 0;
+  private readonly format: LogFormat;
+  private readonly redactFields: Set<string>;
+  private readonly maxFieldLength: number;
+  private readonly write: (line: string) => void;
+  private readonly context = new AsyncLocalStorage<LogContext>();
+  private readonly pending = new Map<string, number>();
 
-  constructor(level: LogLevel = LogLevel.INFO) {
+  constructor(level: LogLevel = LogLevel.INFO, options: LoggerOptions = {}) {
     this.logLevel = level;
+    this.format = options.format ?? 'human';
+    this.redactFields = new Set(options.redactFields ?? DEFAULT_REDACT_FIELDS);
+    this.maxFieldLength = options.maxFieldLength ?? DEFAULT_MAX_FIELD_LENGTH;
+    this.write = options.write ?? (line => process.stderr.write(`${line}\n`));
+  }
+
+  /**
+   * Run `fn` with correlation IDs that every record logged inside it, however
+   * deep in the call stack, carries along.
+   */
+  public withContext<T>(context: LogContext, fn: () => T): T {
+    return this.context.run({ ...this.context.getStore(), ...context }, fn);
   }
 
   private formatMessage(level: string, message: string, data?: any): string {
     const timestamp = new Date().toISOString();
+    const context = this.context.getStore();
+    const fields = data === undefined ? undefined : this.sanitize(data);
+    const extra = fields !== null && typeof fields === 'object' && !Array.isArray(fields) ? fields : fields === undefined ? {} : { data: fields };
+
+    if (this.format === 'json') {
+      return JSON.stringify({ time: timestamp, level: level.toLowerCase(), msg: message, ...context, ...extra });
+    }
+    const merged = { ...context, ...extra };
     const baseMessage = `[${timestamp}] [${level}] ${message}`;
-    
-    if (data) {
-      return `${baseMessage}\n${JSON.stringify(data, null, 2)}`;
+    return Object.keys(merged).length > 0 ? `${baseMessage} ${JSON.stringify(merged)}` : baseMessage;
+  }
+
+  /**
+   * Make `value` safe to log: redact configured fields, truncate long strings
+   * and arrays, and turn errors into plain objects.
+   */
+  private sanitize(value: unknown, key?: string, depth = 0, seen = new WeakSet<object>()): unknown {
+    if (typeof value === 'string') {
+      if (key !== undefined && this.redactFields.has(key)) {
+        return `[redacted ${value.length} chars]`;
+      }
+      return value.length > this.maxFieldLength
+        ? `${value.slice(0, this.maxFieldLength)}…[+${value.length - this.maxFieldLength} chars]`
+        : value;
+    }
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (typeof value === 'function' || typeof value === 'symbol') {
+      return undefined;
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
     }
-    return baseMessage;
+    if (key !== undefined && this.redactFields.has(key)) {
+      return '[redacted]';
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    if (depth >= MAX_DEPTH) {
+      return Array.isArray(value) ? '[Array]' : '[Object]';
+    }
+    seen.add(value);
+
+    if (value instanceof Error) {
+      return this.sanitize({ name: value.name, message: value.message, stack: value.stack }, key, depth, seen);
+    }
+    if (Array.isArray(value)) {
+      const items = value.slice(0, MAX_ARRAY_ITEMS).map(item => this.sanitize(item, undefined, depth + 1, seen));
+      return value.length > MAX_ARRAY_ITEMS ? [...items, `…[+${value.length - MAX_ARRAY_ITEMS} items]`] : items;
+    }
+    const result: Record<string, unknown> = {};
+    for (const [field, item] of Object.entries(value)) {
+      const sanitized = this.sanitize(item, field, depth + 1, seen);
+      if (sanitized !== undefined) {
+        result[field] = sanitized;
+      }
+    }
+    return result;
   }
 
   private shouldLog(level: LogLevel): boolean {
@@ -31,63 +156,75 @@ export class Logger {
 
   debug(message: string, data?: any): void {
     if (this.shouldLog(LogLevel.DEBUG)) {
-      console.error(this.formatMessage('DEBUG', message, data));
+      this.write(this.formatMessage('DEBUG', message, data));
     }
   }
 
   info(message: string, data?: any): void {
     if (this.shouldLog(LogLevel.INFO)) {
-      console.error(this.formatMessage('INFO', message, data));
+      this.write(this.formatMessage('INFO', message, data));
     }
   }
 
   warn(message: string, data?: any): void {
     if (this.shouldLog(LogLevel.WARN)) {
-      console.error(this.formatMessage('WARN', message, data));
+      this.write(this.formatMessage('WARN', message, data));
     }
   }
 
   error(message: string, data?: any): void {
     if (this.shouldLog(LogLevel.ERROR)) {
-      console.error(this.formatMessage('ERROR', message, data));
+      this.write(this.formatMessage('ERROR', message, data));
     }
   }
 
+  /**
+   * Assign the next request ID; inside `withContext` it is also added to the
+   * context so records logged further down carry it.
+   */
   logRequest(method: string, params?: any): string {
     const requestId = (++this.requestId).toString();
-    this.info(`📥 Incoming Request [${requestId}]`, {
+    const context = this.context.getStore();
+    if (context) {
+      context.requestId = requestId;
+    }
+    this.pending.set(requestId, performance.now());
+    this.info('Incoming request', {
+      requestId,
       method,
-      params,
-      timestamp: performance.now()
+      params
     });
     return requestId;
   }
 
   logResponse(requestId: string, result?: any, error?: any): void {
-    const status = error ? 'ERROR' : 'SUCCESS';
-    const emoji = error ? '❌' : '✅';
-    
-    this.info(`📤 Outgoing Response [${requestId}] ${emoji} ${status}`, {
-      result: error ? undefined : result,
-      error: error ? error : undefined,
-      timestamp: performance.now()
-    });
+    const started = this.pending.get(requestId);
+    this.pending.delete(requestId);
+    const durationMs = started === undefined ? undefined : Number((performance.now() - started).toFixed(1));
+
+    if (error) {
+      this.warn('Request failed', { requestId, durationMs, error });
+      return;
+    }
+    this.info('Request completed', { requestId, durationMs, result: summarizeResult(result) });
   }
 
   logToolCall(toolName: string, args: any, requestId: string): void {
-    this.info(`🔧 Tool Call [${requestId}]`, {
+    this.info('Tool call', {
+      requestId,
       tool: toolName,
       arguments: args
     });
   }
 
   logResourceAccess(uri: string, requestId: string): void {
-    this.info(`📄 Resource Access [${requestId}]`, {
+    this.info('Resource access', {
+      requestId,
       uri
     });
   }
 
   logServerEvent(event: string, data?: any): void {
-    this.info(`🚀 Server Event: ${event}`, data);
+    this.info(event, data);
   }
 }
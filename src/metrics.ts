@@ -0,0 +1,205 @@
+/**
+ * Minimal Prometheus metrics (text exposition format 0.0.4) for the HTTP
+ * server's `/metrics` endpoint.
+ */
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// Label values beyond this many per metric are folded into `other` to bound cardinality.
+const MAX_SERIES = 100;
+
+type Labels = Record<string, string>;
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  return entries.length > 0 ? `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  return Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+}
+
+interface Metric {
+  render(): string[];
+}
+
+abstract class LabelledMetric<T> implements Metric {
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    public readonly name: string,
+    protected readonly help: string,
+    private readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  protected abstract initial(): T;
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+
+  protected get(labels: Labels): T {
+    let key = JSON.stringify(labels);
+    if (!this.series.has(key) && this.series.size >= MAX_SERIES) {
+      labels = Object.fromEntries(Object.keys(labels).map(name => [name, 'other']));
+      key = JSON.stringify(labels);
+    }
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: this.initial() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  public render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+}
+
+export class Counter extends LabelledMetric<{ count: number }> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  public inc(labels: Labels = {}, amount = 1): void {
+    this.get(labels).count += amount;
+  }
+
+  protected initial() {
+    return { count: 0 };
+  }
+
+  protected renderSeries(labels: Labels, value: { count: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value.count)}`];
+  }
+}
+
+/**
+ * A gauge or counter whose value is read when the metrics are rendered.
+ */
+export class CollectedMetric implements Metric {
+  constructor(
+    public readonly name: string,
+    private readonly help: string,
+    private readonly type: 'counter' | 'gauge',
+    private readonly collect: () => number
+  ) {}
+
+  public render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, `${this.name} ${formatValue(this.collect())}`];
+  }
+}
+
+interface HistogramValue {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends LabelledMetric<HistogramValue> {
+  constructor(name: string, help: string, private readonly bounds: number[] = DEFAULT_LATENCY_BUCKETS) {
+    super(name, help, 'histogram');
+  }
+
+  public observe(labels: Labels, value: number): void {
+    const entry = this.get(labels);
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) {
+        entry.buckets[i]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  protected initial(): HistogramValue {
+    return { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+  }
+
+  protected renderSeries(labels: Labels, value: HistogramValue): string[] {
+    return [
+      ...this.bounds.map((bound, i) => `${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${value.buckets[i]}`),
+      `${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`
+    ];
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  public counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  public histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  public collected(name: string, help: string, type: 'counter' | 'gauge', collect: () => number): CollectedMetric {
+    return this.register(new CollectedMetric(name, help, type, collect));
+  }
+
+  public render(): string {
+    return `${this.metrics.flatMap(metric => metric.render()).join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+/**
+ * The server's metrics: tool calls, context matches, HTTP rejections and
+ * (once the HTTP server is up) sessions.
+ */
+export class ServerMetrics {
+  public readonly registry = new MetricsRegistry();
+  private readonly toolCalls = this.registry.counter('mcp_tool_calls_total', 'Tool calls by tool.');
+  private readonly toolErrors = this.registry.counter('mcp_tool_errors_total', 'Tool calls that returned an error, by tool.');
+  private readonly toolDuration = this.registry.histogram('mcp_tool_call_duration_seconds', 'Tool call latency in seconds, by tool.');
+  private readonly contextQueries = this.registry.counter('mcp_context_queries_total', 'get_context_for_query calls by result (match or no_match).');
+  private readonly httpRejections = this.registry.counter('mcp_http_rejections_total', 'HTTP requests rejected before reaching a session, by reason.');
+
+  public recordToolCall(tool: string, durationSeconds: number, failed: boolean): void {
+    this.toolCalls.inc({ tool });
+    this.toolDuration.observe({ tool }, durationSeconds);
+    if (failed) {
+      this.toolErrors.inc({ tool });
+    }
+  }
+
+  public recordContextQuery(matched: boolean): void {
+    this.contextQueries.inc({ result: matched ? 'match' : 'no_match' });
+  }
+
+  public recordHttpRejection(reason: 'origin' | 'auth' | 'rate_limit'): void {
+    this.httpRejections.inc({ reason });
+  }
+
+  /**
+   * Report session metrics from `stats`, read at scrape time.
+   */
+  public trackSessions(stats: () => { active: number; created: number; terminated: number; evicted: number; rejected: number }): void {
+    this.registry.collected('mcp_active_sessions', 'Currently open HTTP sessions.', 'gauge', () => stats().active);
+    this.registry.collected('mcp_sessions_created_total', 'HTTP sessions created.', 'counter', () => stats().created);
+    this.registry.collected('mcp_sessions_terminated_total', 'HTTP sessions closed by the client.', 'counter', () => stats().terminated);
+    this.registry.collected('mcp_sessions_evicted_total', 'Idle HTTP sessions evicted.', 'counter', () => stats().evicted);
+    this.registry.collected('mcp_sessions_rejected_total', 'initialize requests rejected by the session limit.', 'counter', () => stats().rejected);
+  }
+
+  public render(): string {
+    return this.registry.render();
+  }
+}
@@ -0,0 +1,554 @@
+import { Diagnostic, RewriteNode, SourceRange, parseDsl } from './dsl-parser.js';
+import { formatRewrite } from './dsl-formatter.js';
+import { ModelIndex, collectDirectRestrictions, formatRestriction, indexModel, walkRewrite } from './model-index.js';
+import { ModelValidator } from './model-validator.js';
+
+/**
+ * Static cost analysis of a model: recursion in the relation rewrite graph,
+ * tuple-to-userset hop depth, expensive set operations, wildcard paths and a
+ * worst-case estimate of the tuple reads one check needs.
+ */
+
+export interface ComplexityOptions {
+  /**
+   * Expected data shape. `type#relation` keys give the average number of
+   * tuples per object that a check follows on that relation: parents on a
+   * tupleset relation (`folder#parent: 1`), usersets on a relation that
+   * assigns them (`group#member: 3` nested groups). `type` keys give the
+   * number of objects of the type (`folder: 10000`), which scales
+   * list_objects estimates.
+   */
+  profile?: Record<string, number>;
+  /**
+   * How many levels recursive relations are unrolled to.
+   */
+  recursionDepth?: number;
+}
+
+export interface RelationComplexity {
+  /**
+   * `type#relation`.
+   */
+  relation: string;
+  /**
+   * The relation is, or depends on, a recursive relation.
+   */
+  recursive: boolean;
+  /**
+   * Worst-case number of tuple-to-userset and userset hops; null when
+   * recursion makes it depend on the data.
+   */
+  maxHops: number | null;
+  /**
+   * Estimated tuple reads for one check when every branch is evaluated.
+   */
+  checkCost: number;
+  /**
+   * checkCost times the number of objects of the type, when the profile
+   * gives it: the cost of checking every candidate in list_objects.
+   */
+  listObjectsCost?: number;
+  /**
+   * Wildcard assignments the relation can be granted through, as
+   * `type#relation: user:*`.
+   */
+  wildcards: string[];
+}
+
+export interface RecursiveCycle {
+  relations: string[];
+  /**
+   * `folder#viewer -> folder#viewer (viewer from parent)`.
+   */
+  path: string;
+}
+
+export interface ComplexityFinding extends Diagnostic {
+  relation: string;
+}
+
+export interface ComplexityResult {
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  relations: RelationComplexity[];
+  cycles: RecursiveCycle[];
+  findings: ComplexityFinding[];
+  assumptions: string[];
+  markdown: string;
+}
+
+export class ComplexityError extends Error {}
+
+export const DEFAULT_RECURSION_DEPTH = 5;
+
+/**
+ * Tuples per object assumed on tupleset relations (one parent) and on
+ * relations that assign usersets, unless the profile says otherwise.
+ */
+export const DEFAULT_TUPLESET_FAN_OUT = 1;
+export const DEFAULT_USERSET_FAN_OUT = 10;
+
+const DEEP_HOPS = 3;
+const EXPENSIVE_OPERAND_COST = 100;
+
+type DependencyKind = 'computed' | 'tupleToUserset' | 'userset';
+
+interface Dependency {
+  to: string;
+  kind: DependencyKind;
+  /**
+   * Follows a tuple to another object.
+   */
+  hop: boolean;
+  /**
+   * The DSL that creates the dependency: `editor`, `viewer from parent` or
+   * `team#member`.
+   */
+  via: string;
+}
+
+function key(type: string, relation: string): string {
+  return `${type}#${relation}`;
+}
+
+function formatCost(cost: number): string {
+  return cost >= 1e6 ? cost.toExponential(1) : String(cost);
+}
+
+export function formatComplexityMarkdown(result: Omit<ComplexityResult, 'markdown'>): string {
+  const lines = ['### Model complexity', ''];
+  const worst = [...result.relations].sort((a, b) => b.checkCost - a.checkCost)[0];
+  const recursive = result.relations.filter(relation => relation.recursive).length;
+  lines.push(
+    `${result.relations.length} relations, ${recursive} recursive or depending on recursion` +
+    (worst ? `; the most expensive check is \`${worst.relation}\` at ~${formatCost(worst.checkCost)} tuple reads.` : '.')
+  );
+
+  const listObjects = result.relations.some(relation => relation.listObjectsCost !== undefined);
+  lines.push(
+    '',
+    `| Relation | Max hops | Reads per check |${listObjects ? ' Reads per list_objects |' : ''} Wildcards |`,
+    `|---|---|---|${listObjects ? '---|' : ''}---|`
+  );
+  for (const relation of result.relations) {
+    const hops = relation.maxHops === null ? 'unbounded (recursive)' : String(relation.maxHops);
+    const listCost = listObjects ? ` ${relation.listObjectsCost !== undefined ? formatCost(relation.listObjectsCost) : ''} |` : '';
+    lines.push(`| \`${relation.relation}\` | ${hops} | ${formatCost(relation.checkCost)} |${listCost} ${relation.wildcards.map(w => `\`${w}\``).join(', ')} |`);
+  }
+
+  if (result.cycles.length > 0) {
+    lines.push('', '#### Recursive cycles', '', ...result.cycles.map(cycle => `- ${cycle.path}`));
+  }
+  if (result.findings.length > 0) {
+    lines.push('', '#### Findings', '');
+    for (const finding of result.findings) {
+      lines.push(`- line ${finding.line} ${finding.severity} [${finding.code}] ${finding.message}`);
+    }
+  }
+  lines.push('', '#### Assumptions', '', ...result.assumptions.map(assumption => `- ${assumption}`));
+  return lines.join('\n');
+}
+
+class ComplexityAnalysis {
+  public readonly dependencies = new Map<string, Dependency[]>();
+  private readonly component = new Map<string, number>();
+  private readonly cyclic = new Set<number>();
+  private readonly costs = new Map<string, number>();
+  private readonly hops = new Map<string, number | null>();
+
+  constructor(
+    private readonly index: ModelIndex,
+    private readonly profile: Record<string, number>,
+    private readonly recursionDepth: number
+  ) {
+    for (const [type, relations] of index.types) {
+      for (const relation of relations.values()) {
+        this.dependencies.set(key(type, relation.name), this.dependenciesOf(type, relation.rewrite));
+      }
+    }
+    this.findComponents();
+  }
+
+  public get relations(): string[] {
+    return [...this.dependencies.keys()];
+  }
+
+  public isCyclic(relation: string): boolean {
+    return this.cyclic.has(this.component.get(relation)!);
+  }
+
+  /**
+   * Relations reachable from `relation`, including itself.
+   */
+  public reachable(relation: string): Set<string> {
+    const seen = new Set<string>([relation]);
+    const queue = [relation];
+    while (queue.length > 0) {
+      for (const dependency of this.dependencies.get(queue.pop()!) ?? []) {
+        if (!seen.has(dependency.to)) {
+          seen.add(dependency.to);
+          queue.push(dependency.to);
+        }
+      }
+    }
+    return seen;
+  }
+
+  public isRecursive(relation: string): boolean {
+    return [...this.reachable(relation)].some(reached => this.isCyclic(reached));
+  }
+
+  public maxHops(relation: string): number | null {
+    if (this.hops.has(relation)) {
+      return this.hops.get(relation)!;
+    }
+    let result: number | null = 0;
+    if (this.isCyclic(relation)) {
+      result = null;
+    } else {
+      for (const dependency of this.dependencies.get(relation) ?? []) {
+        const next = this.maxHops(dependency.to);
+        if (next === null) {
+          result = null;
+          break;
+        }
+        result = Math.max(result, next + (dependency.hop ? 1 : 0));
+      }
+    }
+    this.hops.set(relation, result);
+    return result;
+  }
+
+  public checkCost(relation: string): number {
+    return Math.ceil(this.relationCost(relation, this.recursionDepth));
+  }
+
+  /**
+   * Estimated reads for one operand of a set operation in `relation`.
+   */
+  public rewriteCost(relation: string, node: RewriteNode): number {
+    return Math.ceil(this.nodeCost(relation, node, this.recursionDepth));
+  }
+
+  public fanOut(type: string, relation: string, fallback: number): number {
+    return this.profile[key(type, relation)] ?? fallback;
+  }
+
+  /**
+   * One shortest cycle through each recursive component.
+   */
+  public cycles(): RecursiveCycle[] {
+    const cycles: RecursiveCycle[] = [];
+    for (const id of this.cyclic) {
+      const members = this.relations.filter(relation => this.component.get(relation) === id);
+      const start = members[0];
+      const previous = new Map<string, { from: string; dependency: Dependency }>();
+      const queue = [start];
+      let found: { from: string; dependency: Dependency } | undefined;
+      while (queue.length > 0 && !found) {
+        const current = queue.shift()!;
+        for (const dependency of this.dependencies.get(current)!) {
+          if (dependency.to === start) {
+            found = { from: current, dependency };
+            break;
+          }
+          if (this.component.get(dependency.to) === id && !previous.has(dependency.to)) {
+            previous.set(dependency.to, { from: current, dependency });
+            queue.push(dependency.to);
+          }
+        }
+      }
+
+      const steps: { from: string; dependency: Dependency }[] = [];
+      for (let step = found; step; step = previous.get(step.from)) {
+        steps.unshift(step);
+        if (step.from === start) {
+          break;
+        }
+      }
+      cycles.push({
+        relations: members,
+        path: [start, ...steps.map(step => `-> ${step.dependency.to} (${step.dependency.via})`)].join(' ')
+      });
+    }
+    return cycles;
+  }
+
+  /**
+   * The relations a rewrite (or part of one) on `type` evaluates.
+   */
+  public dependenciesOf(type: string, rewrite: RewriteNode): Dependency[] {
+    const dependencies: Dependency[] = [];
+    const relations = this.index.types.get(type)!;
+    walkRewrite(rewrite, node => {
+      if (node.kind === 'computed') {
+        dependencies.push({ to: key(type, node.relation), kind: 'computed', hop: false, via: node.relation });
+      } else if (node.kind === 'tupleToUserset') {
+        const tupleset = relations.get(node.tupleset);
+        for (const parent of this.parentTypes(tupleset?.rewrite, node.relation)) {
+          dependencies.push({ to: key(parent, node.relation), kind: 'tupleToUserset', hop: true, via: formatRewrite(node) });
+        }
+      } else if (node.kind === 'direct') {
+        for (const restriction of node.types.filter(candidate => candidate.relation)) {
+          const target = key(restriction.type, restriction.relation!);
+          dependencies.push({ to: target, kind: 'userset', hop: true, via: target });
+        }
+      }
+    });
+    return dependencies;
+  }
+
+  /**
+   * The object types a tupleset can point to that define `relation`.
+   */
+  private parentTypes(tupleset: RewriteNode | undefined, relation: string): string[] {
+    const types = (tupleset ? collectDirectRestrictions(tupleset) : [])
+      .filter(restriction => !restriction.relation && !restriction.wildcard && this.index.types.get(restriction.type)?.has(relation))
+      .map(restriction => restriction.type);
+    return [...new Set(types)];
+  }
+
+  /**
+   * Tarjan's strongly connected components; a component is cyclic when it
+   * has more than one relation or a relation that depends on itself.
+   */
+  private findComponents() {
+    const order = new Map<string, number>();
+    const low = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    let counter = 0;
+    let components = 0;
+
+    const visit = (relation: string) => {
+      order.set(relation, counter);
+      low.set(relation, counter);
+      counter++;
+      stack.push(relation);
+      onStack.add(relation);
+
+      for (const { to } of this.dependencies.get(relation) ?? []) {
+        if (!this.dependencies.has(to)) {
+          continue;
+        }
+        if (!order.has(to)) {
+          visit(to);
+          low.set(relation, Math.min(low.get(relation)!, low.get(to)!));
+        } else if (onStack.has(to)) {
+          low.set(relation, Math.min(low.get(relation)!, order.get(to)!));
+        }
+      }
+
+      if (low.get(relation) === order.get(relation)) {
+        const id = components++;
+        const members: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          this.component.set(member, id);
+          members.push(member);
+        } while (member !== relation);
+        if (members.length > 1 || this.dependencies.get(relation)!.some(dependency => dependency.to === relation)) {
+          this.cyclic.add(id);
+        }
+      }
+    };
+
+    for (const relation of this.dependencies.keys()) {
+      if (!order.has(relation)) {
+        visit(relation);
+      }
+    }
+  }
+
+  /**
+   * `budget` is the number of recursion levels left; it is only spent on
+   * dependencies inside a recursive component.
+   */
+  private relationCost(relation: string, budget: number): number {
+    const memo = `${relation}|${budget}`;
+    if (this.costs.has(memo)) {
+      return this.costs.get(memo)!;
+    }
+    const [type, name] = relation.split('#');
+    const definition = this.index.types.get(type)?.get(name);
+    const cost = definition ? this.nodeCost(relation, definition.rewrite, budget) : 0;
+    this.costs.set(memo, cost);
+    return cost;
+  }
+
+  private follow(from: string, to: string, budget: number): number {
+    if (this.isCyclic(from) && this.component.get(from) === this.component.get(to)) {
+      return budget === 0 ? 0 : this.relationCost(to, budget - 1);
+    }
+    return this.relationCost(to, budget);
+  }
+
+  private nodeCost(relation: string, node: RewriteNode, budget: number): number {
+    const [type, name] = relation.split('#');
+    switch (node.kind) {
+      case 'direct': {
+        const usersets = node.types.filter(restriction => restriction.relation);
+        if (usersets.length === 0) {
+          return 1;
+        }
+        const expansion = Math.max(...usersets.map(restriction => this.follow(relation, key(restriction.type, restriction.relation!), budget)));
+        return 1 + this.fanOut(type, name, DEFAULT_USERSET_FAN_OUT) * expansion;
+      }
+      case 'computed':
+        return this.follow(relation, key(type, node.relation), budget);
+      case 'tupleToUserset': {
+        const tupleset = this.index.types.get(type)!.get(node.tupleset);
+        const parents = this.parentTypes(tupleset?.rewrite, node.relation);
+        const expansion = parents.length > 0 ? Math.max(...parents.map(parent => this.follow(relation, key(parent, node.relation), budget))) : 0;
+        return 1 + this.fanOut(type, node.tupleset, DEFAULT_TUPLESET_FAN_OUT) * expansion;
+      }
+      case 'union':
+      case 'intersection':
+        return node.children.reduce((total, child) => total + this.nodeCost(relation, child, budget), 0);
+      case 'exclusion':
+        return this.nodeCost(relation, node.base, budget) + this.nodeCost(relation, node.subtract, budget);
+    }
+  }
+}
+
+export class ModelComplexityAnalyzer {
+  constructor(private readonly validator: ModelValidator = new ModelValidator()) {}
+
+  /**
+   * Throws ComplexityError when the profile names unknown types or relations
+   * or has non-positive counts.
+   */
+  public analyze(source: string, options: ComplexityOptions = {}): ComplexityResult {
+    const result: ComplexityResult = {
+      valid: false,
+      diagnostics: this.validator.validate(source).diagnostics,
+      relations: [],
+      cycles: [],
+      findings: [],
+      assumptions: [],
+      markdown: ''
+    };
+    if (result.diagnostics.some(d => d.severity === 'error')) {
+      return result;
+    }
+
+    const model = parseDsl(source).model;
+    const index = indexModel(model);
+    const profile = options.profile ?? {};
+    const recursionDepth = options.recursionDepth ?? DEFAULT_RECURSION_DEPTH;
+    this.checkProfile(index, profile);
+
+    const analysis = new ComplexityAnalysis(index, profile, recursionDepth);
+    const ranges = new Map<string, { relation: SourceRange; rewrite: RewriteNode }>();
+    for (const type of model.types) {
+      for (const relation of type.relations) {
+        ranges.set(key(type.name, relation.name), { relation: relation.nameRange, rewrite: relation.rewrite });
+      }
+    }
+
+    const wildcardSources = new Map<string, string[]>();
+    for (const [type, relations] of index.types) {
+      for (const relation of relations.values()) {
+        const wildcards = collectDirectRestrictions(relation.rewrite).filter(restriction => restriction.wildcard);
+        if (wildcards.length > 0) {
+          wildcardSources.set(key(type, relation.name), [...new Set(wildcards.map(formatRestriction))]);
+        }
+      }
+    }
+
+    for (const relation of analysis.relations) {
+      const [type] = relation.split('#');
+      const reachable = analysis.reachable(relation);
+      const checkCost = analysis.checkCost(relation);
+      result.relations.push({
+        relation,
+        recursive: analysis.isRecursive(relation),
+        maxHops: analysis.maxHops(relation),
+        checkCost,
+        ...(profile[type] !== undefined ? { listObjectsCost: Math.ceil(checkCost * profile[type]) } : {}),
+        wildcards: [...reachable].flatMap(reached => (wildcardSources.get(reached) ?? []).map(wildcard => `${reached}: ${wildcard}`))
+      });
+    }
+    result.cycles = analysis.cycles();
+
+    const finding = (relation: string, range: SourceRange, severity: ComplexityFinding['severity'], code: string, message: string) =>
+      result.findings.push({ ...range, severity, code, message, relation, ...(model.file ? { file: model.file } : {}) });
+
+    for (const cycle of result.cycles) {
+      const relation = cycle.relations[0];
+      finding(relation, ranges.get(relation)!.relation, 'warning', 'recursive-relation',
+        `Recursive: ${cycle.path}. Checks follow the chain one level per tuple, so their cost grows with its depth ` +
+        `(estimates assume ${recursionDepth} levels).`);
+    }
+
+    for (const item of result.relations) {
+      if (item.maxHops !== null && item.maxHops >= DEEP_HOPS) {
+        finding(item.relation, ranges.get(item.relation)!.relation, 'warning', 'deep-hops',
+          `\`${item.relation}\` follows up to ${item.maxHops} tuple-to-userset or userset hops; each hop is another round of tuple reads.`);
+      }
+    }
+
+    for (const [relation, { rewrite }] of ranges) {
+      walkRewrite(rewrite, node => {
+        if (node.kind !== 'intersection' && node.kind !== 'exclusion') {
+          return;
+        }
+        const operands = node.kind === 'exclusion' ? [node.base, node.subtract] : node.children;
+        const expensive = operands.flatMap(operand => {
+          const cost = analysis.rewriteCost(relation, operand);
+          const recursive = analysis.dependenciesOf(relation.split('#')[0], operand).some(dependency => analysis.isRecursive(dependency.to));
+          if (!recursive && cost < EXPENSIVE_OPERAND_COST) {
+            return [];
+          }
+          return [`\`${formatRewrite(operand, true)}\` (${recursive ? 'recursive, ' : ''}~${formatCost(cost)} reads)`];
+        });
+        if (expensive.length > 0) {
+          const operator = node.kind === 'intersection' ? 'and' : 'but not';
+          finding(relation, node.range, 'warning', 'expensive-set-operation',
+            `\`${operator}\` in \`${relation}\` evaluates ${expensive.join(' and ')}. Both sides run for every check that gets ` +
+            'this far, and list_objects and list_users must check each candidate instead of expanding the graph.');
+        }
+      });
+    }
+
+    for (const [source, wildcards] of wildcardSources) {
+      const granted = result.relations
+        .filter(item => item.relation !== source && item.wildcards.some(wildcard => wildcard.startsWith(`${source}: `)))
+        .map(item => item.relation);
+      const acrossObjects = analysis.relations.some(relation =>
+        analysis.dependencies.get(relation)!.some(dependency => dependency.hop && analysis.reachable(dependency.to).has(source)));
+      finding(source, ranges.get(source)?.relation ?? ranges.get(granted[0])!.relation, acrossObjects ? 'warning' : 'info', 'wildcard-path',
+        `${wildcards.map(wildcard => `\`${wildcard}\``).join(', ')} on \`${source}\` makes ${granted.length > 0 ? granted.map(r => `\`${r}\``).join(', ') : 'it'} ` +
+        'publicly grantable' + (acrossObjects ? ', including through tuple-to-userset or userset hops from other objects' : '') +
+        '. list_users returns the wildcard, and list_objects must consider every public object.');
+    }
+
+    result.findings.sort((a, b) => a.line - b.line || a.column - b.column);
+    result.assumptions = [
+      `${DEFAULT_TUPLESET_FAN_OUT} tuple per object on tupleset relations (such as parent) and ${DEFAULT_USERSET_FAN_OUT} userset tuples ` +
+      'per object on relations that assign usersets, unless the profile says otherwise.',
+      `Recursive relations are unrolled to ${recursionDepth} levels.`,
+      'Costs are worst-case tuple reads with every branch evaluated; OpenFGA stops early once a branch grants access.',
+      ...Object.entries(profile).map(([name, count]) => name.includes('#')
+        ? `Profile: ${count} tuple(s) per object on \`${name}\`.`
+        : `Profile: ${count} \`${name}\` object(s).`)
+    ];
+    result.valid = true;
+    result.markdown = formatComplexityMarkdown(result);
+    return result;
+  }
+
+  private checkProfile(index: ModelIndex, profile: Record<string, number>) {
+    for (const [name, count] of Object.entries(profile)) {
+      const [type, relation] = name.split('#');
+      if (!index.types.has(type) || (relation !== undefined && !index.types.get(type)!.has(relation))) {
+        throw new ComplexityError(`Profile key '${name}' is not a type or 'type#relation' of the model`);
+      }
+      if (typeof count !== 'number' || !(count > 0)) {
+        throw new ComplexityError(`Profile value for '${name}' must be a positive number`);
+      }
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { AuthorizationModelAst, Diagnostic, parseDsl } from './dsl-parser.js';
+import { formatDsl, formatModuleFiles } from './dsl-formatter.js';
+import { AuthorizationModelJson, modelToJson, parseModelJson } from './model-json.js';
+import { ModelValidator } from './model-validator.js';
+
+export interface DslToJsonResult {
+  valid: boolean;
+  json?: AuthorizationModelJson;
+  diagnostics: Diagnostic[];
+  /**
+   * Whether converting the JSON back to DSL and again to JSON reproduced it.
+   */
+  roundTrip: boolean;
+}
+
+export interface JsonToDslResult {
+  valid: boolean;
+  dsl?: string;
+  /**
+   * Module files (plus `fga.mod`) when the JSON carries module metadata.
+   */
+  files?: Record<string, string>;
+  diagnostics: Diagnostic[];
+  roundTrip: boolean;
+}
+
+const EXTERNAL_REFERENCE_CODES = ['undefined-extended-type', 'unresolved-type', 'unresolved-relation'];
+
+/**
+ * Combine module files that have already been parsed into a single model.
+ */
+export function combineModels(models: AuthorizationModelAst[], schemaVersion?: string): AuthorizationModelAst {
+  const combined: AuthorizationModelAst = {
+    types: models.flatMap(model => model.types),
+    conditions: models.flatMap(model => model.conditions)
+  };
+  const version = schemaVersion ?? models.find(model => model.schemaVersion)?.schemaVersion;
+  if (version) {
+    combined.schemaVersion = version;
+  }
+  return combined;
+}
+
+/**
+ * Converts models between the DSL and the OpenFGA API JSON, validating the
+ * input and checking that the conversion round-trips.
+ */
+export class ModelConverter {
+  constructor(private readonly validator: ModelValidator = new ModelValidator()) {}
+
+  public dslToJson(source: string, options: { file?: string } = {}): DslToJsonResult {
+    // A module file on its own may reference types from other modules, which
+    // the API would reject, so unresolved references become errors here.
+    const diagnostics = this.validator.validate(source, options).diagnostics.map(d =>
+      EXTERNAL_REFERENCE_CODES.includes(d.code)
+        ? { ...d, severity: 'error' as const, message: `${d.message}. Combine the module files into one model before converting` }
+        : d
+    );
+
+    if (diagnostics.some(d => d.severity === 'error')) {
+      return { valid: false, diagnostics, roundTrip: false };
+    }
+
+    const { model } = parseDsl(source, options);
+    const json = modelToJson(model);
+    const reread = parseModelJson(json);
+    const roundTrip = reread.diagnostics.length === 0 && this.same(modelToJson(reread.model), json);
+    return { valid: true, json, diagnostics, roundTrip };
+  }
+
+  public jsonToDsl(input: unknown, options: { file?: string } = {}): JsonToDslResult {
+    const parsed = parseModelJson(input, options);
+    if (parsed.diagnostics.length > 0) {
+      return { valid: false, diagnostics: parsed.diagnostics, roundTrip: false };
+    }
+
+    const diagnostics = this.validator.analyze(parsed.model);
+    const dsl = formatDsl(parsed.model);
+    const expected = modelToJson(parsed.model);
+
+    const result: JsonToDslResult = {
+      valid: !diagnostics.some(d => d.severity === 'error'),
+      dsl,
+      diagnostics,
+      roundTrip: false
+    };
+
+    if (parsed.modular) {
+      result.files = formatModuleFiles(parsed.model);
+      const modules = Object.entries(result.files)
+        .filter(([file]) => file !== 'fga.mod')
+        .map(([file, content]) => parseDsl(content, { file }));
+      result.roundTrip = modules.every(module => module.diagnostics.length === 0) &&
+        this.same(modelToJson(combineModels(modules.map(module => module.model), parsed.model.schemaVersion)), expected);
+    } else {
+      const reparsed = parseDsl(dsl);
+      result.roundTrip = reparsed.diagnostics.length === 0 && this.same(modelToJson(reparsed.model), expected);
+    }
+
+    return result;
+  }
+
+  /**
+   * Compare two JSON models, ignoring the order of type definitions (module
+   * files list types per file, not in the original order).
+   */
+  private same(a: AuthorizationModelJson, b: AuthorizationModelJson): boolean {
+    const canonical = (json: AuthorizationModelJson) => JSON.stringify({
+      ...json,
+      type_definitions: [...json.type_definitions].sort((x, y) => x.type.localeCompare(y.type))
+    });
+    return canonical(a) === canonical(b);
+  }
+}
@@ -0,0 +1,421 @@
+import {
+  ConditionDefinition,
+  Diagnostic,
+  RelationDefinition,
+  RewriteNode,
+  formatConditionParameterType,
+  parseDsl
+} from './dsl-parser.js';
+import { formatRewrite } from './dsl-formatter.js';
+import { ModelIndex, collectDirectRestrictions, formatRestriction, indexModel, relationReferences } from './model-index.js';
+import { ModelValidator } from './model-validator.js';
+
+/**
+ * Structural comparison of two models, with each change classified by its
+ * effect on existing tuples and on who has access.
+ */
+
+export type ChangeImpact = 'breaking' | 'behaviour-changing' | 'safe';
+
+export interface ModelChange {
+  impact: ChangeImpact;
+  action: 'added' | 'removed' | 'changed';
+  kind: 'schema' | 'type' | 'relation' | 'user-type' | 'condition';
+  /**
+   * What changed: `document`, `document#viewer`, `document#viewer: user:*`
+   * or a condition name.
+   */
+  target: string;
+  description: string;
+  before?: string;
+  after?: string;
+  /**
+   * Relations whose results may change as a consequence.
+   */
+  affects?: string[];
+  /**
+   * On an added type: the removed type it looks like a rename of.
+   */
+  renamedFrom?: string;
+  /**
+   * On a removed relation: the new relation of the same type it looks like
+   * a rename to.
+   */
+  renamedTo?: string;
+}
+
+export interface ModelDiffResult {
+  valid: boolean;
+  changes: ModelChange[];
+  summary: Record<ChangeImpact, number>;
+  diagnostics: { before: Diagnostic[]; after: Diagnostic[] };
+  markdown: string;
+}
+
+const IMPACT_ORDER: ChangeImpact[] = ['breaking', 'behaviour-changing', 'safe'];
+
+const IMPACT_TITLES: Record<ChangeImpact, string> = {
+  breaking: 'Breaking',
+  'behaviour-changing': 'Behaviour-changing',
+  safe: 'Safe'
+};
+
+/**
+ * A rewrite with its directly related types blanked out, so that changes to
+ * allowed user types are reported separately from structural changes. The
+ * operands of `or` and `and` are flattened and sorted, since their order does
+ * not change who has access.
+ */
+function shape(node: RewriteNode): string {
+  const strip = (current: RewriteNode): RewriteNode => {
+    switch (current.kind) {
+      case 'direct':
+        return { ...current, types: [] };
+      case 'union':
+      case 'intersection': {
+        const children = current.children
+          .map(strip)
+          .flatMap(child => child.kind === current.kind ? child.children : [child])
+          .map(child => ({ child, text: formatRewrite(child) }))
+          .sort((a, b) => a.text < b.text ? -1 : a.text > b.text ? 1 : 0)
+          .map(({ child }) => child);
+        return { ...current, children };
+      }
+      case 'exclusion':
+        return { ...current, base: strip(current.base), subtract: strip(current.subtract) };
+      default:
+        return current;
+    }
+  };
+  return formatRewrite(strip(node));
+}
+
+function unionMembers(node: RewriteNode): string[] {
+  return node.kind === 'union' ? node.children.flatMap(unionMembers) : [shape(node)];
+}
+
+/**
+ * Recognise the common ways a rewrite grows or shrinks: members added to or
+ * removed from a union, or the old rewrite intersected or excluded from.
+ */
+function rewriteDirection(before: RewriteNode, after: RewriteNode): 'widened' | 'narrowed' | undefined {
+  const old = unionMembers(before);
+  const updated = unionMembers(after);
+  if (old.every(member => updated.includes(member))) {
+    return 'widened';
+  }
+  if (updated.every(member => old.includes(member))) {
+    return 'narrowed';
+  }
+  const restricts = (outer: RewriteNode, inner: RewriteNode) =>
+    (outer.kind === 'intersection' && outer.children.some(child => shape(child) === shape(inner))) ||
+    (outer.kind === 'exclusion' && shape(outer.base) === shape(inner));
+  if (restricts(after, before)) {
+    return 'narrowed';
+  }
+  if (restricts(before, after)) {
+    return 'widened';
+  }
+  return undefined;
+}
+
+function restrictionsOf(relation: RelationDefinition): string[] {
+  return [...new Set(collectDirectRestrictions(relation.rewrite).map(formatRestriction))];
+}
+
+function conditionSignature(condition: ConditionDefinition): string {
+  return `${condition.name}(${condition.parameters.map(p => `${p.name}: ${formatConditionParameterType(p.type)}`).join(', ')})`;
+}
+
+/**
+ * Relations that depend on `type#relation`, directly or transitively.
+ */
+function dependents(references: Map<string, Set<string>>, key: string): string[] {
+  const found = new Set<string>();
+  const queue = [key];
+  while (queue.length > 0) {
+    for (const user of references.get(queue.pop()!) ?? []) {
+      if (user !== key && !found.has(user)) {
+        found.add(user);
+        queue.push(user);
+      }
+    }
+  }
+  return [...found].sort();
+}
+
+export function formatDiffMarkdown(changes: ModelChange[]): string {
+  const lines = ['### Authorization model changes', ''];
+  if (changes.length === 0) {
+    lines.push('No changes to types, relations, allowed user types or conditions.');
+    return lines.join('\n');
+  }
+
+  const count = (impact: ChangeImpact) => changes.filter(change => change.impact === impact).length;
+  lines.push(IMPACT_ORDER.map(impact => {
+    const text = `${count(impact)} ${IMPACT_TITLES[impact].toLowerCase()}`;
+    return impact === 'breaking' && count(impact) > 0 ? `**${text}**` : text;
+  }).join(', '));
+
+  for (const impact of IMPACT_ORDER) {
+    const group = changes.filter(change => change.impact === impact);
+    if (group.length === 0) {
+      continue;
+    }
+    lines.push('', `#### ${IMPACT_TITLES[impact]}`, '');
+    for (const change of group) {
+      const action = `${change.action[0].toUpperCase()}${change.action.slice(1)} ${change.kind.replace('-', ' ')}`;
+      let line = `- **${action}** \`${change.target}\`: ${change.description}`;
+      if (change.affects && change.affects.length > 0) {
+        line += ` Affects ${change.affects.map(relation => `\`${relation}\``).join(', ')}.`;
+      }
+      lines.push(line);
+      if (change.before !== undefined && change.after !== undefined) {
+        lines.push(`  - before: \`${change.before}\``, `  - after: \`${change.after}\``);
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Compares two DSL models and classifies each change as breaking (existing
+ * tuples or API calls may fail), behaviour-changing (the same tuples grant
+ * different access) or safe.
+ */
+export class ModelDiffer {
+  constructor(private readonly validator: ModelValidator = new ModelValidator()) {}
+
+  public diff(before: string, after: string, options: { beforeFile?: string; afterFile?: string } = {}): ModelDiffResult {
+    const diagnostics = {
+      before: this.validator.validate(before, { file: options.beforeFile }).diagnostics,
+      after: this.validator.validate(after, { file: options.afterFile }).diagnostics
+    };
+    const summary: Record<ChangeImpact, number> = { breaking: 0, 'behaviour-changing': 0, safe: 0 };
+    if ([...diagnostics.before, ...diagnostics.after].some(d => d.severity === 'error')) {
+      return { valid: false, changes: [], summary, diagnostics, markdown: '' };
+    }
+
+    const oldModel = parseDsl(before, { file: options.beforeFile }).model;
+    const newModel = parseDsl(after, { file: options.afterFile }).model;
+    const changes: ModelChange[] = [];
+
+    if ((oldModel.schemaVersion ?? '') !== (newModel.schemaVersion ?? '')) {
+      changes.push({
+        impact: 'safe',
+        action: 'changed',
+        kind: 'schema',
+        target: 'schema',
+        description: 'Schema version changed.',
+        before: oldModel.schemaVersion ?? '(none)',
+        after: newModel.schemaVersion ?? '(none)'
+      });
+    }
+
+    const oldIndex = indexModel(oldModel);
+    const newIndex = indexModel(newModel);
+    this.diffTypes(oldIndex, newIndex, changes);
+    this.diffConditions(oldIndex, newIndex, changes);
+
+    changes.sort((a, b) => IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact) || a.target.localeCompare(b.target));
+    changes.forEach(change => summary[change.impact]++);
+    return { valid: true, changes, summary, diagnostics, markdown: formatDiffMarkdown(changes) };
+  }
+
+  private diffTypes(oldIndex: ModelIndex, newIndex: ModelIndex, changes: ModelChange[]) {
+    const oldReferences = relationReferences(oldIndex);
+    const newReferences = relationReferences(newIndex);
+    const removedTypes = [...oldIndex.types.keys()].filter(type => !newIndex.types.has(type));
+
+    for (const [type, relations] of newIndex.types) {
+      if (oldIndex.types.has(type)) {
+        continue;
+      }
+      // A new type with the same relations as a removed one is probably a rename.
+      const signature = (index: ModelIndex, name: string) =>
+        [...index.types.get(name)!.values()].map(relation => `${relation.name}:${formatRewrite(relation.rewrite)}`).sort().join('\n');
+      const renamed = removedTypes.find(candidate => relations.size > 0 && signature(oldIndex, candidate) === signature(newIndex, type));
+      changes.push({
+        impact: 'safe',
+        action: 'added',
+        kind: 'type',
+        target: type,
+        description: `New type${relations.size > 0 ? ` with relations ${[...relations.keys()].join(', ')}` : ''}.` +
+          (renamed ? ` Looks like a rename of '${renamed}'; tuples for '${renamed}' must be rewritten.` : ''),
+        ...(renamed ? { renamedFrom: renamed } : {})
+      });
+    }
+
+    for (const type of removedTypes) {
+      changes.push({
+        impact: 'breaking',
+        action: 'removed',
+        kind: 'type',
+        target: type,
+        description: `Existing tuples with '${type}' objects or users become invalid, and checks on '${type}' objects will fail.`
+      });
+    }
+
+    for (const [type, newRelations] of newIndex.types) {
+      const oldRelations = oldIndex.types.get(type);
+      if (!oldRelations) {
+        continue;
+      }
+
+      for (const [name, relation] of oldRelations) {
+        if (newRelations.has(name)) {
+          continue;
+        }
+        const key = `${type}#${name}`;
+        const renamed = [...newRelations.values()].find(candidate =>
+          !oldRelations.has(candidate.name) && formatRewrite(candidate.rewrite) === formatRewrite(relation.rewrite));
+        changes.push({
+          impact: 'breaking',
+          action: 'removed',
+          kind: 'relation',
+          target: key,
+          description: (restrictionsOf(relation).length > 0
+            ? 'Existing tuples for this relation become invalid, and checks for it will fail.'
+            : 'Checks and list calls for this relation will fail.') +
+            (renamed ? ` Looks like a rename to '${renamed.name}'.` : ''),
+          affects: dependents(oldReferences, key),
+          ...(renamed ? { renamedTo: renamed.name } : {})
+        });
+      }
+
+      for (const [name, relation] of newRelations) {
+        const key = `${type}#${name}`;
+        const previous = oldRelations.get(name);
+        if (!previous) {
+          changes.push({
+            impact: 'safe',
+            action: 'added',
+            kind: 'relation',
+            target: key,
+            description: 'New relation.',
+            after: formatRewrite(relation.rewrite)
+          });
+          continue;
+        }
+        this.diffRelation(key, previous, relation, dependents(newReferences, key), changes);
+      }
+    }
+  }
+
+  private diffRelation(key: string, previous: RelationDefinition, relation: RelationDefinition, affects: string[], changes: ModelChange[]) {
+    if (shape(previous.rewrite) !== shape(relation.rewrite)) {
+      const direction = rewriteDirection(previous.rewrite, relation.rewrite);
+      changes.push({
+        impact: 'behaviour-changing',
+        action: 'changed',
+        kind: 'relation',
+        target: key,
+        description: direction === 'widened'
+          ? 'The same tuples now grant this relation to more users.'
+          : direction === 'narrowed'
+            ? 'The same tuples now grant this relation to fewer users.'
+            : 'The rewrite changed; the same tuples may grant different access.',
+        before: formatRewrite(previous.rewrite),
+        after: formatRewrite(relation.rewrite),
+        affects
+      });
+    }
+
+    const oldTypes = restrictionsOf(previous);
+    const newTypes = restrictionsOf(relation);
+    for (const restriction of oldTypes.filter(candidate => !newTypes.includes(candidate))) {
+      const base = restriction.split(' with ')[0];
+      const replacement = newTypes.find(candidate => candidate.split(' with ')[0] === base);
+      changes.push({
+        impact: 'breaking',
+        action: 'removed',
+        kind: 'user-type',
+        target: `${key}: ${restriction}`,
+        description: replacement
+          ? `Only '${replacement}' is allowed now; existing '${restriction}' tuples become invalid.`
+          : `Existing tuples assigning '${restriction}' to this relation become invalid.`,
+        affects
+      });
+    }
+    for (const restriction of newTypes.filter(candidate => !oldTypes.includes(candidate))) {
+      changes.push({
+        impact: 'safe',
+        action: 'added',
+        kind: 'user-type',
+        target: `${key}: ${restriction}`,
+        description: restriction.includes(':*')
+          ? 'Tuples may now grant this relation to every user of the type (public access).'
+          : oldTypes.length === 0
+            ? 'The relation is now directly assignable.'
+            : 'Tuples may now assign this user type.'
+      });
+    }
+  }
+
+  private diffConditions(oldIndex: ModelIndex, newIndex: ModelIndex, changes: ModelChange[]) {
+    for (const [name, condition] of oldIndex.conditions) {
+      if (!newIndex.conditions.has(name)) {
+        changes.push({
+          impact: 'breaking',
+          action: 'removed',
+          kind: 'condition',
+          target: name,
+          description: 'Existing tuples written with this condition become invalid.',
+          before: conditionSignature(condition)
+        });
+      }
+    }
+
+    for (const [name, condition] of newIndex.conditions) {
+      const previous = oldIndex.conditions.get(name);
+      if (!previous) {
+        changes.push({ impact: 'safe', action: 'added', kind: 'condition', target: name, description: 'New condition.', after: conditionSignature(condition) });
+        continue;
+      }
+
+      const oldParameters = new Map(previous.parameters.map(p => [p.name, formatConditionParameterType(p.type)]));
+      const newParameters = new Map(condition.parameters.map(p => [p.name, formatConditionParameterType(p.type)]));
+      const added = [...newParameters.keys()].filter(parameter => !oldParameters.has(parameter));
+      const retyped = [...newParameters.keys()].filter(parameter => oldParameters.has(parameter) && oldParameters.get(parameter) !== newParameters.get(parameter));
+      const removed = [...oldParameters.keys()].filter(parameter => !newParameters.has(parameter));
+
+      if (added.length > 0 || retyped.length > 0) {
+        const problems = [
+          ...(added.length > 0 ? [`new parameter(s) ${added.join(', ')} must be supplied by tuple or request context`] : []),
+          ...(retyped.length > 0 ? [`parameter(s) ${retyped.join(', ')} changed type, so existing context values may no longer convert`] : [])
+        ];
+        changes.push({
+          impact: 'breaking',
+          action: 'changed',
+          kind: 'condition',
+          target: name,
+          description: `${problems.join('; ')}.`.replace(/^./, first => first.toUpperCase()),
+          before: conditionSignature(previous),
+          after: conditionSignature(condition)
+        });
+      } else if (removed.length > 0) {
+        changes.push({
+          impact: 'safe',
+          action: 'changed',
+          kind: 'condition',
+          target: name,
+          description: `Parameter(s) ${removed.join(', ')} removed; extra context values are ignored.`,
+          before: conditionSignature(previous),
+          after: conditionSignature(condition)
+        });
+      }
+
+      if (previous.expression.replace(/\s+/g, ' ') !== condition.expression.replace(/\s+/g, ' ')) {
+        changes.push({
+          impact: 'behaviour-changing',
+          action: 'changed',
+          kind: 'condition',
+          target: name,
+          description: 'The expression changed; conditional tuples may evaluate differently.',
+          before: previous.expression.replace(/\s+/g, ' '),
+          after: condition.expression.replace(/\s+/g, ' ')
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,407 @@
+import { Diagnostic, RewriteNode, TypeRestriction, parseDsl } from './dsl-parser.js';
+import { ModelIndex, collectDirectRestrictions, formatRestriction, indexModel, walkRewrite } from './model-index.js';
+import { ModelValidator } from './model-validator.js';
+import { csvField } from './tuple-formats.js';
+
+/**
+ * Documentation of a model for readers who do not read the DSL: per type, who
+ * can hold each relation and how it is granted in plain English, plus a
+ * role-to-permission matrix. The output depends only on the model, in source
+ * order, so regenerated documents diff cleanly.
+ */
+
+/**
+ * `role`: assignable to subjects; `permission`: derived, or assignable only to
+ * usersets such as custom roles (`role#assignee`); `link`: points at another
+ * object for `X from <link>`.
+ */
+export type RelationKind = 'role' | 'permission' | 'link';
+
+/**
+ * `conditional`: only together with the other operands of an `and`, unless the
+ * `but not` side applies, or while a condition holds.
+ */
+export type Grant = 'yes' | 'conditional' | 'no';
+
+export interface RelationDocumentation {
+  relation: string;
+  kind: RelationKind;
+  /**
+   * Directly related types as written in the DSL (`user`, `team#member`, `user:*`).
+   */
+  assignable: string[];
+  /**
+   * Subject types that can end up holding the relation, usersets expanded.
+   */
+  holders: string[];
+  derivation: string;
+}
+
+export interface RoleMatrixRow {
+  /**
+   * A role of the type, or a userset (`role#assignee`) assigned on its relations.
+   */
+  role: string;
+  userset: boolean;
+  grants: Record<string, Grant>;
+}
+
+export interface RoleMatrix {
+  permissions: string[];
+  rows: RoleMatrixRow[];
+}
+
+export interface TypeDocumentation {
+  type: string;
+  relations: RelationDocumentation[];
+  matrix?: RoleMatrix;
+}
+
+export interface DocumentationResult {
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  types: TypeDocumentation[];
+  markdown: string;
+  /**
+   * One row per relation: type, relation, kind, assigned directly, holders, derivation.
+   */
+  csv: string;
+  /**
+   * One row per granting matrix cell: type, role, permission, grant.
+   */
+  matrixCsv: string;
+}
+
+const GRANT_ORDER: Grant[] = ['no', 'conditional', 'yes'];
+const GRANT_SYMBOLS: Record<Grant, string> = { yes: '✓', conditional: '(✓)', no: '' };
+
+/**
+ * Inlined `X from Y` hops in one phrase, e.g. the parent folder's organization.
+ */
+const MAX_INLINED_HOPS = 5;
+
+function key(type: string, relation: string): string {
+  return `${type}#${relation}`;
+}
+
+function humanize(name: string): string {
+  return name.replace(/_/g, ' ');
+}
+
+function pluralize(noun: string): string {
+  if (/ed$/.test(noun)) {
+    return `${noun} users`;
+  }
+  if (/[^aeiou]y$/.test(noun)) {
+    return `${noun.slice(0, -1)}ies`;
+  }
+  return /(s|x|z|ch|sh)$/.test(noun) ? `${noun}es` : `${noun}s`;
+}
+
+function article(noun: string): string {
+  return /^[aeiou]/.test(noun) ? `an ${noun}` : `a ${noun}`;
+}
+
+function joinOr(items: string[]): string {
+  return items.length <= 2 ? items.join(' or ') : `${items.slice(0, -1).join(', ')}, or ${items[items.length - 1]}`;
+}
+
+function code(text: string): string {
+  return `\`${text}\``;
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+class ModelDescriber {
+  private readonly holderCache = new Map<string, string[]>();
+
+  constructor(private readonly index: ModelIndex) {}
+
+  public document(type: string): TypeDocumentation {
+    const relations = this.index.types.get(type)!;
+    const links = new Set<string>();
+    for (const relation of relations.values()) {
+      walkRewrite(relation.rewrite, node => {
+        if (node.kind === 'tupleToUserset') {
+          links.add(node.tupleset);
+        }
+      });
+    }
+
+    const documented = [...relations.values()].map((relation): RelationDocumentation => {
+      const restrictions = collectDirectRestrictions(relation.rewrite);
+      const kind: RelationKind = links.has(relation.name)
+        ? 'link'
+        : restrictions.some(restriction => !restriction.relation) ? 'role' : 'permission';
+      return {
+        relation: relation.name,
+        kind,
+        assignable: [...new Set(restrictions.map(formatRestriction))],
+        holders: this.holders(type, relation.name),
+        derivation: this.describe(type, relation.rewrite, false)
+      };
+    });
+
+    const matrix = this.matrix(type, documented);
+    return { type, relations: documented, ...(matrix ? { matrix } : {}) };
+  }
+
+  /**
+   * Rows are the roles of the type and the usersets assigned on its relations;
+   * columns are its roles and permissions. None for a single column.
+   */
+  private matrix(type: string, documented: RelationDocumentation[]): RoleMatrix | undefined {
+    const relations = this.index.types.get(type)!;
+    const permissions = documented.filter(relation => relation.kind !== 'link').map(relation => relation.relation);
+    const roles = documented.filter(relation => relation.kind === 'role').map(relation => relation.relation);
+    const usersets = [...new Set(permissions.flatMap(permission => collectDirectRestrictions(relations.get(permission)!.rewrite)
+      .filter(restriction => restriction.relation)
+      .map(restriction => key(restriction.type, restriction.relation!))))];
+    if (permissions.length < 2 || roles.length + usersets.length === 0) {
+      return undefined;
+    }
+
+    const row = (role: string, userset: boolean): RoleMatrixRow => ({
+      role,
+      userset,
+      grants: Object.fromEntries(permissions.map(permission =>
+        [permission, permission === role ? 'yes' : this.grant(type, relations.get(permission)!.rewrite, role, new Set([key(type, permission)]))]))
+    });
+    return {
+      permissions,
+      rows: [...roles.map(role => row(role, false)), ...usersets.map(userset => row(userset, true))]
+    };
+  }
+
+  /**
+   * Whether holding `source` on an object (a relation of its type, or being in
+   * a `type#relation` userset assigned on it) grants `node` on the same object.
+   */
+  private grant(type: string, node: RewriteNode, source: string, visiting: Set<string>): Grant {
+    switch (node.kind) {
+      case 'direct': {
+        const matches = node.types.filter(restriction => restriction.relation && key(restriction.type, restriction.relation) === source);
+        return matches.length === 0 ? 'no' : matches.some(restriction => !restriction.condition) ? 'yes' : 'conditional';
+      }
+      case 'computed': {
+        const id = key(type, node.relation);
+        if (node.relation === source) {
+          return 'yes';
+        }
+        if (visiting.has(id)) {
+          return 'no';
+        }
+        visiting.add(id);
+        const grant = this.grant(type, this.index.types.get(type)!.get(node.relation)!.rewrite, source, visiting);
+        visiting.delete(id);
+        return grant;
+      }
+      case 'tupleToUserset':
+        return 'no';
+      case 'union':
+        return node.children
+          .map(child => this.grant(type, child, source, visiting))
+          .reduce((best, grant) => GRANT_ORDER.indexOf(grant) > GRANT_ORDER.indexOf(best) ? grant : best, 'no');
+      case 'intersection': {
+        const grants = node.children.map(child => this.grant(type, child, source, visiting));
+        return grants.every(grant => grant === 'yes') ? 'yes' : grants.some(grant => grant !== 'no') ? 'conditional' : 'no';
+      }
+      case 'exclusion':
+        return this.grant(type, node.base, source, visiting) === 'no' ? 'no' : 'conditional';
+    }
+  }
+
+  private holders(type: string, relation: string): string[] {
+    const id = key(type, relation);
+    if (!this.holderCache.has(id)) {
+      this.holderCache.set(id, [...this.relationHolders(type, relation, new Set())].sort());
+    }
+    return this.holderCache.get(id)!;
+  }
+
+  /**
+   * Relations already being expanded contribute nothing more, which makes
+   * recursive relations converge.
+   */
+  private relationHolders(type: string, relation: string, visiting: Set<string>): Set<string> {
+    const id = key(type, relation);
+    const definition = this.index.types.get(type)?.get(relation);
+    if (!definition || visiting.has(id)) {
+      return new Set();
+    }
+    visiting.add(id);
+    const holders = this.nodeHolders(type, definition.rewrite, visiting);
+    visiting.delete(id);
+    return holders;
+  }
+
+  private nodeHolders(type: string, node: RewriteNode, visiting: Set<string>): Set<string> {
+    switch (node.kind) {
+      case 'direct':
+        return new Set(node.types.flatMap(restriction => restriction.wildcard
+          ? [`${restriction.type}:*`]
+          : restriction.relation ? [...this.relationHolders(restriction.type, restriction.relation, visiting)] : [restriction.type]));
+      case 'computed':
+        return this.relationHolders(type, node.relation, visiting);
+      case 'tupleToUserset':
+        return new Set(this.parentTypes(type, node).flatMap(parent => [...this.relationHolders(parent, node.relation, visiting)]));
+      case 'union':
+        return new Set(node.children.flatMap(child => [...this.nodeHolders(type, child, visiting)]));
+      case 'intersection': {
+        const [first, ...rest] = node.children.map(child => this.nodeHolders(type, child, visiting));
+        return new Set([...first].filter(holder => rest.every(holders => holders.has(holder))));
+      }
+      case 'exclusion':
+        return this.nodeHolders(type, node.base, visiting);
+    }
+  }
+
+  /**
+   * The object types a tupleset relation points at that define the relation
+   * being followed.
+   */
+  private parentTypes(type: string, node: Extract<RewriteNode, { kind: 'tupleToUserset' }>): string[] {
+    const tupleset = this.index.types.get(type)?.get(node.tupleset);
+    return [...new Set((tupleset ? collectDirectRestrictions(tupleset.rewrite) : [])
+      .filter(restriction => !restriction.relation && !restriction.wildcard && this.index.types.get(restriction.type)?.has(node.relation))
+      .map(restriction => restriction.type))];
+  }
+
+  private describe(type: string, node: RewriteNode, nested: boolean): string {
+    const group = (text: string) => nested ? `(${text})` : text;
+    switch (node.kind) {
+      case 'direct':
+        return `directly assigned ${joinOr(node.types.map(restriction => this.restrictionPhrase(restriction)))}`;
+      case 'computed':
+        return this.relationPhrase(node.relation, `the ${humanize(type)}`);
+      case 'tupleToUserset':
+        return this.hopPhrase(type, node, `the ${humanize(type)}`, new Set());
+      case 'union':
+        return group(node.children.map(child => this.describe(type, child, true)).join(', or '));
+      case 'intersection':
+        return group(node.children.map(child => this.describe(type, child, true)).join(' who are also '));
+      case 'exclusion':
+        return group(`${this.describe(type, node.base, true)}, except ${this.describe(type, node.subtract, true)}`);
+    }
+  }
+
+  private restrictionPhrase(restriction: TypeRestriction): string {
+    const phrase = restriction.wildcard
+      ? `every ${humanize(restriction.type)} (${code(`${restriction.type}:*`)})`
+      : restriction.relation
+        ? this.relationPhrase(restriction.relation, article(humanize(restriction.type)))
+        : pluralize(humanize(restriction.type));
+    return restriction.condition ? `${phrase} while ${code(restriction.condition)} holds` : phrase;
+  }
+
+  private relationPhrase(relation: string, owner: string): string {
+    return relation.startsWith('can_')
+      ? `users who can ${humanize(relation.slice(4))} ${owner}`
+      : `${pluralize(humanize(relation))} of ${owner}`;
+  }
+
+  /**
+   * `admin from parent` is "admins of the document's parent folder"; when the
+   * folder's admin is itself only `admin from organization`, the hop is
+   * inlined: "admins of the document's parent folder's organization".
+   */
+  private hopPhrase(type: string, node: Extract<RewriteNode, { kind: 'tupleToUserset' }>, owner: string, seen: Set<string>): string {
+    const parents = this.parentTypes(type, node);
+    const link = humanize(node.tupleset);
+    const parentOwner = parents.length !== 1
+      ? `${owner}'s ${link}${parents.length > 1 ? ` (${joinOr(parents.map(humanize))})` : ''}`
+      : parents[0] === node.tupleset ? `${owner}'s ${link}` : `${owner}'s ${link} ${humanize(parents[0])}`;
+
+    if (parents.length === 1) {
+      const target = this.index.types.get(parents[0])!.get(node.relation)!.rewrite;
+      const id = key(parents[0], node.relation);
+      if (target.kind === 'tupleToUserset' && !seen.has(id) && seen.size < MAX_INLINED_HOPS) {
+        seen.add(id);
+        return this.hopPhrase(parents[0], target, parentOwner, seen);
+      }
+    }
+    return this.relationPhrase(node.relation, parentOwner);
+  }
+}
+
+export function formatDocumentationMarkdown(types: TypeDocumentation[]): string {
+  const documented = types.filter(type => type.relations.length > 0);
+  const subjects = types.filter(type => type.relations.length === 0);
+  const relationCount = documented.reduce((count, type) => count + type.relations.length, 0);
+
+  const subjectNote = subjects.length === 1
+    ? ` ${code(subjects[0].type)} has no relations and only appears as a subject.`
+    : subjects.length > 1 ? ` ${subjects.map(type => code(type.type)).join(', ')} have no relations and only appear as subjects.` : '';
+  const lines = ['### Authorization model', '', `${documented.length} ${documented.length === 1 ? 'type' : 'types'} with ${relationCount} ${relationCount === 1 ? 'relation' : 'relations'}.${subjectNote}`];
+  if (documented.some(type => type.matrix)) {
+    lines.push('', 'In the role-to-permission matrices, ✓ means holding the role grants the permission; (✓) means only together with ' +
+      'the other side of an `and`, unless the `but not` side applies, or while a condition holds. Userset rows such as custom roles ' +
+      '(`role#assignee`) show the permissions a tuple for the userset can grant.');
+  }
+
+  for (const type of documented) {
+    lines.push('', `#### ${code(type.type)}`, '', '| Relation | Kind | Assigned directly | Who can hold it | How it is granted |', '|---|---|---|---|---|');
+    for (const relation of type.relations) {
+      lines.push(`| ${code(relation.relation)} | ${relation.kind} | ${relation.assignable.map(code).join(', ')} | ` +
+        `${relation.holders.map(code).join(', ')} | ${cell(relation.derivation)} |`);
+    }
+    if (type.matrix) {
+      lines.push('', 'Role-to-permission matrix:', '', `| Role | ${type.matrix.permissions.map(code).join(' | ')} |`,
+        `|---|${type.matrix.permissions.map(() => '---|').join('')}`);
+      for (const row of type.matrix.rows) {
+        const cells = type.matrix.permissions.map(permission => GRANT_SYMBOLS[row.grants[permission]]);
+        lines.push(`| ${code(row.role)}${row.userset ? ' (userset)' : ''} | ${cells.join(' | ')} |`);
+      }
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export function formatDocumentationCsv(types: TypeDocumentation[]): string {
+  const rows = types.flatMap(type => type.relations.map(relation => [
+    type.type,
+    relation.relation,
+    relation.kind,
+    relation.assignable.join('; '),
+    relation.holders.join('; '),
+    relation.derivation
+  ]));
+  return [['type', 'relation', 'kind', 'assigned_directly', 'holders', 'derivation'], ...rows]
+    .map(row => `${row.map(csvField).join(',')}\n`).join('');
+}
+
+export function formatRoleMatrixCsv(types: TypeDocumentation[]): string {
+  const rows = types.flatMap(type => (type.matrix?.rows ?? []).flatMap(row => type.matrix!.permissions
+    .filter(permission => row.grants[permission] !== 'no')
+    .map(permission => [type.type, row.role, permission, row.grants[permission]])));
+  return [['type', 'role', 'permission', 'grant'], ...rows].map(row => `${row.map(csvField).join(',')}\n`).join('');
+}
+
+export class ModelDocumenter {
+  constructor(private readonly validator: ModelValidator = new ModelValidator()) {}
+
+  public document(source: string): DocumentationResult {
+    const result: DocumentationResult = {
+      valid: false,
+      diagnostics: this.validator.validate(source).diagnostics,
+      types: [],
+      markdown: '',
+      csv: '',
+      matrixCsv: ''
+    };
+    if (result.diagnostics.some(d => d.severity === 'error')) {
+      return result;
+    }
+
+    const index = indexModel(parseDsl(source).model);
+    const describer = new ModelDescriber(index);
+    result.types = [...index.types.keys()].map(type => describer.document(type));
+    result.markdown = formatDocumentationMarkdown(result.types);
+    result.csv = formatDocumentationCsv(result.types);
+    result.matrixCsv = formatRoleMatrixCsv(result.types);
+    result.valid = true;
+    return result;
+  }
+}
@@ -0,0 +1,458 @@
+import { CreateMessageRequest, SamplingMessage } from '@modelcontextprotocol/sdk/types.js';
+import {
+  AuthorizationModelAst,
+  Diagnostic,
+  RelationDefinition,
+  RewriteNode,
+  TypeRestriction,
+  lineRange
+} from './dsl-parser.js';
+import { formatDsl } from './dsl-formatter.js';
+import { ModelValidator, formatDiagnostics } from './model-validator.js';
+import { SamplingClient } from './sampling-client.js';
+
+/**
+ * Drafts a model from requirements text. The client's model (through MCP
+ * sampling) only extracts a structured spec of types, roles and permissions;
+ * the DSL is generated from the spec here, validated, and the diagnostics are
+ * sent back until the draft is clean.
+ */
+
+export interface DraftRelationSpec {
+  name: string;
+  /**
+   * Directly assignable types: `user`, `user:*`, `team#member`.
+   */
+  assignable?: string[];
+  /**
+   * Relations of the same type that imply this one (`owner` for `editor`).
+   */
+  impliedBy?: string[];
+  /**
+   * Relations inherited from related objects: `viewer` from `parent`.
+   */
+  inheritedFrom?: { relation: string; from: string }[];
+  /**
+   * Relations of the same type that revoke this one (`but not`).
+   */
+  excludedBy?: string[];
+  /**
+   * IDs of the requirements this relation implements.
+   */
+  requirements?: string[];
+}
+
+export interface DraftTypeSpec {
+  name: string;
+  relations?: DraftRelationSpec[];
+}
+
+export interface DraftSpec {
+  types: DraftTypeSpec[];
+}
+
+export interface Requirement {
+  id: string;
+  text: string;
+}
+
+export interface TraceabilityEntry extends Requirement {
+  /**
+   * `type#relation` of every relation that cites the requirement.
+   */
+  relations: string[];
+}
+
+export interface DraftIteration {
+  iteration: number;
+  errors: number;
+  warnings: number;
+  /**
+   * Problems with the spec itself, such as a malformed response.
+   */
+  problems: string[];
+}
+
+export type DraftStatus = 'clean' | 'has-errors' | 'sampling-unavailable';
+
+export interface DraftOptions {
+  /**
+   * Spec to use instead of sampling one; drafts it once.
+   */
+  spec?: unknown;
+  maxIterations?: number;
+  sampling?: SamplingClient;
+}
+
+export interface DraftResult {
+  status: DraftStatus;
+  requirements: Requirement[];
+  iterations: DraftIteration[];
+  spec?: DraftSpec;
+  dsl?: string;
+  diagnostics: Diagnostic[];
+  problems: string[];
+  traceability: TraceabilityEntry[];
+  /**
+   * IDs of requirements no relation cites.
+   */
+  uncovered: string[];
+  notes: string[];
+  /**
+   * How to write the spec without sampling (`sampling-unavailable`).
+   */
+  instructions?: string;
+  markdown: string;
+}
+
+export class DraftError extends Error {}
+
+export const DEFAULT_DRAFT_ITERATIONS = 3;
+export const MAX_DRAFT_ITERATIONS = 10;
+
+const SAMPLING_MAX_TOKENS = 4096;
+const NO_RANGE = lineRange(1, 1, 1);
+const RESTRICTION_PATTERN = /^([^\s:#@*()[\],]+)(?::(\*)|#([^\s:#@*()[\],]+))?$/;
+
+export const SPEC_INSTRUCTIONS = `Extract the authorization model from the numbered requirements as JSON, and reply with only the JSON:
+
+{
+  "types": [
+    { "name": "user" },
+    {
+      "name": "document",
+      "relations": [
+        { "name": "parent", "assignable": ["folder"], "requirements": ["R2"] },
+        { "name": "owner", "assignable": ["user"], "requirements": ["R1"] },
+        { "name": "blocked", "assignable": ["user"], "requirements": ["R4"] },
+        { "name": "viewer", "assignable": ["user", "team#member", "user:*"], "impliedBy": ["owner"], "inheritedFrom": [{ "relation": "viewer", "from": "parent" }], "requirements": ["R3"] },
+        { "name": "can_view", "impliedBy": ["viewer"], "excludedBy": ["blocked"], "requirements": ["R3", "R4"] }
+      ]
+    }
+  ]
+}
+
+- Types are the entities: users, groups and the resources to protect. Include every type you reference, including "user".
+- Roles are relations with "assignable" types: a type ("user"), every user of a type ("user:*"), or the members of a group ("team#member").
+- Permissions are can_* relations, granted by roles through "impliedBy".
+- "impliedBy" lists relations of the same type; "inheritedFrom" grants "relation" of the object referenced by "from", a relation of the same type whose assignable types are the related objects (such as "parent").
+- "excludedBy" lists relations of the same type that revoke access.
+- Every relation cites the IDs of the requirements it implements in "requirements".`;
+
+/**
+ * Number the requirements: one per list item or line, or one per sentence
+ * when the text is a single paragraph.
+ */
+export function splitRequirements(text: string): Requirement[] {
+  const lines = text.split(/\r?\n/).map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim()).filter(Boolean);
+  const statements = lines.length === 1
+    ? lines[0].split(/(?<=[.!?])\s+(?=[A-Z0-9"'])/).map(sentence => sentence.trim()).filter(Boolean)
+    : lines;
+  return statements.map((statement, i) => ({ id: `R${i + 1}`, text: statement }));
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * The JSON object in a model response, with or without a code fence;
+ * undefined when there is none.
+ */
+function extractJson(text: string): unknown {
+  const fenced = /```(?:json)?\s*\n([\s\S]*?)```/.exec(text);
+  const body = fenced ? fenced[1] : text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+  try {
+    return JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check the shape of a spec; returns the problems found.
+ */
+function checkSpec(spec: unknown): string[] {
+  if (spec === undefined) {
+    return ['The response did not contain a JSON spec'];
+  }
+  const types = (spec as { types?: unknown } | null)?.types;
+  if (!Array.isArray(types) || types.length === 0) {
+    return [`The spec must be an object with a non-empty "types" list`];
+  }
+  const problems: string[] = [];
+  types.forEach((type, i) => {
+    const name = (type as { name?: unknown } | null)?.name;
+    if (typeof name !== 'string' || name.length === 0) {
+      problems.push(`types[${i}] needs a "name"`);
+      return;
+    }
+    const relations = (type as { relations?: unknown }).relations;
+    if (relations === undefined) {
+      return;
+    }
+    if (!Array.isArray(relations)) {
+      problems.push(`${name}: "relations" must be a list`);
+      return;
+    }
+    relations.forEach((relation, j) => {
+      const raw = (relation ?? {}) as Record<string, unknown>;
+      const label = typeof raw.name === 'string' && raw.name.length > 0 ? `${name}#${raw.name}` : `${name} relations[${j}]`;
+      if (typeof raw.name !== 'string' || raw.name.length === 0) {
+        problems.push(`${label} needs a "name"`);
+      }
+      for (const field of ['assignable', 'impliedBy', 'excludedBy', 'requirements']) {
+        if (raw[field] !== undefined && !isStringList(raw[field])) {
+          problems.push(`${label}: "${field}" must be a list of strings`);
+        }
+      }
+      if (raw.inheritedFrom !== undefined && (!Array.isArray(raw.inheritedFrom) || !raw.inheritedFrom.every(entry =>
+        typeof entry?.relation === 'string' && typeof entry?.from === 'string'))) {
+        problems.push(`${label}: "inheritedFrom" must be a list of {"relation", "from"}`);
+      }
+    });
+  });
+  return problems;
+}
+
+/**
+ * Generate the model for a well-formed spec. Relations that grant nothing and
+ * malformed assignable types are reported as problems and left out.
+ */
+function specToModel(spec: DraftSpec, problems: string[]): AuthorizationModelAst {
+  const model: AuthorizationModelAst = { schemaVersion: '1.1', types: [], conditions: [] };
+  for (const typeSpec of spec.types) {
+    const relations: RelationDefinition[] = [];
+    for (const relationSpec of typeSpec.relations ?? []) {
+      const label = `${typeSpec.name}#${relationSpec.name}`;
+      const types: TypeRestriction[] = [];
+      for (const assignable of relationSpec.assignable ?? []) {
+        const match = RESTRICTION_PATTERN.exec(assignable.trim());
+        if (!match) {
+          problems.push(`${label}: "${assignable}" is not a type, type:* or type#relation`);
+          continue;
+        }
+        types.push({ type: match[1], relation: match[3], wildcard: match[2] === '*', range: NO_RANGE });
+      }
+
+      const grants: RewriteNode[] = [
+        ...(types.length > 0 ? [{ kind: 'direct' as const, types, range: NO_RANGE }] : []),
+        ...(relationSpec.impliedBy ?? []).map(relation => ({ kind: 'computed' as const, relation, range: NO_RANGE })),
+        ...(relationSpec.inheritedFrom ?? []).map(entry => ({
+          kind: 'tupleToUserset' as const,
+          relation: entry.relation,
+          tupleset: entry.from,
+          range: NO_RANGE,
+          tuplesetRange: NO_RANGE
+        }))
+      ];
+      if (grants.length === 0) {
+        problems.push(`${label} grants nothing: give it "assignable" types, "impliedBy" or "inheritedFrom"`);
+        continue;
+      }
+
+      let rewrite: RewriteNode = grants.length === 1 ? grants[0] : { kind: 'union', children: grants, range: NO_RANGE };
+      const excluded = relationSpec.excludedBy ?? [];
+      if (excluded.length > 0) {
+        const subtract: RewriteNode[] = excluded.map(relation => ({ kind: 'computed', relation, range: NO_RANGE }));
+        rewrite = {
+          kind: 'exclusion',
+          base: rewrite,
+          subtract: subtract.length === 1 ? subtract[0] : { kind: 'union', children: subtract, range: NO_RANGE },
+          range: NO_RANGE
+        };
+      }
+      relations.push({ name: relationSpec.name, rewrite, range: NO_RANGE, nameRange: NO_RANGE });
+    }
+    model.types.push({ name: typeSpec.name, extension: false, relations, range: NO_RANGE, nameRange: NO_RANGE });
+  }
+  return model;
+}
+
+function formatRequirements(requirements: Requirement[]): string {
+  return requirements.map(requirement => `${requirement.id}: ${requirement.text}`).join('\n');
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+}
+
+export function formatDraftMarkdown(result: DraftResult): string {
+  const lines = ['### Drafted model', ''];
+  const last = result.iterations[result.iterations.length - 1];
+  switch (result.status) {
+    case 'clean':
+      lines.push(`The model has no errors after ${result.iterations.length} iteration(s).`);
+      break;
+    case 'has-errors':
+      lines.push(`The model still has ${last ? last.errors + last.problems.length : 0} problem(s) after ${result.iterations.length} iteration(s); ` +
+        'fix them or draft again.');
+      break;
+    case 'sampling-unavailable':
+      lines.push('The client does not support sampling. Write the spec as instructed below and call the tool again with it as `spec`.');
+      break;
+  }
+  result.notes.forEach(note => lines.push('', `- ${note}`));
+
+  if (result.dsl) {
+    lines.push('', '```dsl.openfga', result.dsl.trimEnd(), '```');
+  }
+  if (result.problems.length > 0 || result.diagnostics.length > 0) {
+    lines.push('', '#### Problems', '');
+    result.problems.forEach(problem => lines.push(`- ${problem}`));
+    if (result.diagnostics.length > 0) {
+      lines.push(formatDiagnostics(result.diagnostics));
+    }
+  }
+  if (result.instructions) {
+    lines.push('', '#### Spec format', '', result.instructions, '', '#### Requirements', '', formatRequirements(result.requirements));
+  }
+  if (result.traceability.length > 0 && result.spec) {
+    lines.push('', '#### Traceability', '', '| Requirement | Text | Relations |', '|---|---|---|');
+    for (const entry of result.traceability) {
+      const relations = entry.relations.map(relation => `\`${relation}\``).join(', ') || '(not covered)';
+      lines.push(`| ${entry.id} | ${escapeCell(entry.text)} | ${relations} |`);
+    }
+  }
+  return lines.join('\n');
+}
+
+export class ModelDrafter {
+  constructor(private readonly validator: ModelValidator = new ModelValidator()) {}
+
+  /**
+   * Throws DraftError for empty requirements or a sampling failure on the
+   * first request; later sampling failures end the loop with the last draft.
+   */
+  public async draft(requirementsText: string, options: DraftOptions = {}): Promise<DraftResult> {
+    const requirements = splitRequirements(requirementsText);
+    if (requirements.length === 0) {
+      throw new DraftError('The requirements are empty');
+    }
+    const result: DraftResult = {
+      status: 'has-errors',
+      requirements,
+      iterations: [],
+      diagnostics: [],
+      problems: [],
+      traceability: [],
+      uncovered: [],
+      notes: [],
+      markdown: ''
+    };
+
+    if (options.spec !== undefined) {
+      this.evaluate(options.spec, result);
+    } else if (!options.sampling) {
+      result.status = 'sampling-unavailable';
+      result.instructions = SPEC_INSTRUCTIONS;
+    } else {
+      await this.sampleDrafts(options.sampling, Math.min(options.maxIterations ?? DEFAULT_DRAFT_ITERATIONS, MAX_DRAFT_ITERATIONS), result);
+    }
+
+    result.markdown = formatDraftMarkdown(result);
+    return result;
+  }
+
+  private async sampleDrafts(sampling: SamplingClient, maxIterations: number, result: DraftResult): Promise<void> {
+    const messages: SamplingMessage[] = [{
+      role: 'user',
+      content: { type: 'text', text: `Requirements:\n\n${formatRequirements(result.requirements)}` }
+    }];
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      const request: CreateMessageRequest['params'] = {
+        messages,
+        systemPrompt: `You are an OpenFGA modeling expert. ${SPEC_INSTRUCTIONS}`,
+        includeContext: 'none',
+        maxTokens: SAMPLING_MAX_TOKENS
+      };
+
+      let text: string;
+      try {
+        const response = await sampling.createMessage(request);
+        text = response.content.type === 'text' ? response.content.text : '';
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        if (iteration === 1) {
+          throw new DraftError(`The client could not sample a draft: ${reason}`);
+        }
+        result.notes.push(`Stopped after ${iteration - 1} iteration(s): sampling failed (${reason}).`);
+        return;
+      }
+
+      const feedback = this.evaluate(extractJson(text), result, iteration);
+      if (result.status === 'clean') {
+        return;
+      }
+
+      messages.push({ role: 'assistant', content: { type: 'text', text } });
+      messages.push({
+        role: 'user',
+        content: { type: 'text', text: `${feedback}\n\nFix these problems and reply with the complete corrected spec as JSON.` }
+      });
+    }
+  }
+
+  /**
+   * Draft the model for one spec and record it as the latest result; a
+   * malformed spec keeps the previous draft. Returns the problems as feedback
+   * for the next iteration.
+   */
+  private evaluate(spec: unknown, result: DraftResult, iteration = 1): string {
+    const problems = checkSpec(spec);
+    if (problems.length > 0) {
+      this.record(iteration, result, problems);
+      return `The spec is malformed:\n${problems.map(problem => `- ${problem}`).join('\n')}`;
+    }
+
+    const draftSpec = spec as DraftSpec;
+    const dsl = formatDsl(specToModel(draftSpec, problems));
+    const diagnostics = this.validator.validate(dsl).diagnostics;
+    const ids = new Set(result.requirements.map(requirement => requirement.id));
+    for (const type of draftSpec.types) {
+      for (const relation of type.relations ?? []) {
+        const unknown = (relation.requirements ?? []).filter(id => !ids.has(id));
+        if (unknown.length > 0) {
+          problems.push(`${type.name}#${relation.name} cites unknown requirement(s) ${unknown.join(', ')}`);
+        }
+      }
+    }
+
+    result.spec = draftSpec;
+    result.dsl = dsl;
+    result.diagnostics = diagnostics;
+    result.traceability = result.requirements.map(requirement => ({
+      ...requirement,
+      relations: draftSpec.types.flatMap(type => (type.relations ?? [])
+        .filter(relation => relation.requirements?.includes(requirement.id))
+        .map(relation => `${type.name}#${relation.name}`))
+    }));
+    result.uncovered = result.traceability.filter(entry => entry.relations.length === 0).map(entry => entry.id);
+    this.record(iteration, result, problems, diagnostics);
+
+    const feedback: string[] = [];
+    if (problems.length > 0) {
+      feedback.push(`Problems with the spec:\n${problems.map(problem => `- ${problem}`).join('\n')}`);
+    }
+    if (diagnostics.some(d => d.severity === 'error')) {
+      feedback.push(`The generated model has errors:\n\n\`\`\`dsl.openfga\n${dsl}\`\`\`\n\n${formatDiagnostics(diagnostics)}`);
+    }
+    if (result.uncovered.length > 0) {
+      feedback.push(`No relation cites ${result.uncovered.join(', ')}; cite them if the model implements them.`);
+    }
+    return feedback.join('\n\n');
+  }
+
+  private record(iteration: number, result: DraftResult, problems: string[], diagnostics: Diagnostic[] = []): void {
+    const errors = diagnostics.filter(d => d.severity === 'error').length;
+    result.problems = problems;
+    result.iterations.push({
+      iteration,
+      errors,
+      warnings: diagnostics.filter(d => d.severity === 'warning').length,
+      problems
+    });
+    result.status = problems.length === 0 && errors === 0 ? 'clean' : 'has-errors';
+  }
+}
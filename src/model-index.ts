@@ -0,0 +1,126 @@
+import {
+  AuthorizationModelAst,
+  ConditionDefinition,
+  RelationDefinition,
+  RewriteNode,
+  TypeDefinition,
+  TypeRestriction
+} from './dsl-parser.js';
+
+/**
+ * Lookup tables over a parsed model. Extensions (`extend type`) are merged
+ * into the type they extend; the first definition of a name wins.
+ */
+export interface ModelIndex {
+  types: Map<string, Map<string, RelationDefinition>>;
+  definitions: Map<string, TypeDefinition[]>;
+  conditions: Map<string, ConditionDefinition>;
+}
+
+export function indexModel(model: AuthorizationModelAst): ModelIndex {
+  const index: ModelIndex = { types: new Map(), definitions: new Map(), conditions: new Map() };
+
+  for (const type of model.types) {
+    const relations = index.types.get(type.name) ?? new Map<string, RelationDefinition>();
+    for (const relation of type.relations) {
+      if (!relations.has(relation.name)) {
+        relations.set(relation.name, relation);
+      }
+    }
+    index.types.set(type.name, relations);
+    index.definitions.set(type.name, [...(index.definitions.get(type.name) ?? []), type]);
+  }
+
+  for (const condition of model.conditions) {
+    if (!index.conditions.has(condition.name)) {
+      index.conditions.set(condition.name, condition);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Collect the directly related type restrictions used anywhere in a rewrite.
+ */
+export function collectDirectRestrictions(node: RewriteNode): TypeRestriction[] {
+  switch (node.kind) {
+    case 'direct':
+      return [...node.types];
+    case 'union':
+    case 'intersection':
+      return node.children.flatMap(collectDirectRestrictions);
+    case 'exclusion':
+      return [...collectDirectRestrictions(node.base), ...collectDirectRestrictions(node.subtract)];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Visit every node of a rewrite tree, parents before children.
+ */
+export function walkRewrite(node: RewriteNode, visit: (node: RewriteNode) => void): void {
+  visit(node);
+  if (node.kind === 'union' || node.kind === 'intersection') {
+    node.children.forEach(child => walkRewrite(child, visit));
+  } else if (node.kind === 'exclusion') {
+    walkRewrite(node.base, visit);
+    walkRewrite(node.subtract, visit);
+  }
+}
+
+/**
+ * A relation is "directly assignable" when tuples can be written for it, i.e.
+ * its rewrite contains a list of directly related types.
+ */
+export function isDirectlyAssignable(relation: RelationDefinition): boolean {
+  return collectDirectRestrictions(relation.rewrite).length > 0;
+}
+
+/**
+ * Render a type restriction the way it is written in the DSL.
+ */
+export function formatRestriction(restriction: Pick<TypeRestriction, 'type' | 'relation' | 'wildcard' | 'condition'>): string {
+  const base = restriction.wildcard
+    ? `${restriction.type}:*`
+    : restriction.relation
+      ? `${restriction.type}#${restriction.relation}`
+      : restriction.type;
+  return restriction.condition ? `${base} with ${restriction.condition}` : base;
+}
+
+/**
+ * Map every `type#relation` to the relations (`type#relation`) that reference
+ * it: computed relations, both sides of `X from Y`, and usersets in directly
+ * related types.
+ */
+export function relationReferences(index: ModelIndex): Map<string, Set<string>> {
+  const references = new Map<string, Set<string>>();
+  const use = (target: string, user: string) => {
+    const users = references.get(target) ?? new Set<string>();
+    users.add(user);
+    references.set(target, users);
+  };
+
+  for (const [typeName, relations] of index.types) {
+    for (const relation of relations.values()) {
+      const user = `${typeName}#${relation.name}`;
+      walkRewrite(relation.rewrite, node => {
+        if (node.kind === 'computed') {
+          use(`${typeName}#${node.relation}`, user);
+        } else if (node.kind === 'tupleToUserset') {
+          use(`${typeName}#${node.tupleset}`, user);
+          const tupleset = relations.get(node.tupleset);
+          for (const restriction of tupleset ? collectDirectRestrictions(tupleset.rewrite) : []) {
+            use(`${restriction.type}#${node.relation}`, user);
+          }
+        } else if (node.kind === 'direct') {
+          node.types.filter(restriction => restriction.relation).forEach(restriction => use(`${restriction.type}#${restriction.relation}`, user));
+        }
+      });
+    }
+  }
+
+  return references;
+}
@@ -0,0 +1,566 @@
+import {
+  AuthorizationModelAst,
+  ConditionDefinition,
+  ConditionParameterType,
+  Diagnostic,
+  RelationDefinition,
+  RewriteNode,
+  TypeDefinition,
+  TypeRestriction,
+  CONDITION_PARAMETER_TYPES,
+  SUPPORTED_SCHEMA_VERSIONS,
+  lineRange
+} from './dsl-parser.js';
+import { collectDirectRestrictions } from './model-index.js';
+
+/**
+ * Conversion between the parsed DSL and the JSON `AuthorizationModel` used by
+ * the OpenFGA API (`WriteAuthorizationModel` / `ReadAuthorizationModel`).
+ */
+
+export interface ObjectRelationJson {
+  object?: string;
+  relation?: string;
+}
+
+export type UsersetJson =
+  | { this: Record<string, never> }
+  | { computedUserset: ObjectRelationJson }
+  | { tupleToUserset: { tupleset: ObjectRelationJson; computedUserset: ObjectRelationJson } }
+  | { union: { child: UsersetJson[] } }
+  | { intersection: { child: UsersetJson[] } }
+  | { difference: { base: UsersetJson; subtract: UsersetJson } };
+
+export interface RelationReferenceJson {
+  type: string;
+  relation?: string;
+  wildcard?: Record<string, never>;
+  condition?: string;
+}
+
+export interface SourceInfoJson {
+  file: string;
+}
+
+export interface RelationMetadataJson {
+  directly_related_user_types: RelationReferenceJson[];
+  module?: string;
+  source_info?: SourceInfoJson;
+}
+
+export interface TypeDefinitionJson {
+  type: string;
+  relations: Record<string, UsersetJson>;
+  metadata: {
+    relations: Record<string, RelationMetadataJson>;
+    module?: string;
+    source_info?: SourceInfoJson;
+  } | null;
+}
+
+export interface ConditionParamTypeRefJson {
+  type_name: string;
+  generic_types?: ConditionParamTypeRefJson[];
+}
+
+export interface ConditionJson {
+  name: string;
+  expression: string;
+  parameters: Record<string, ConditionParamTypeRefJson>;
+  metadata?: {
+    module?: string;
+    source_info?: SourceInfoJson;
+  };
+}
+
+export interface AuthorizationModelJson {
+  schema_version: string;
+  type_definitions: TypeDefinitionJson[];
+  conditions?: Record<string, ConditionJson>;
+}
+
+export interface JsonParseResult {
+  model: AuthorizationModelAst;
+  diagnostics: Diagnostic[];
+  /**
+   * Whether the JSON carried module/source file metadata, i.e. came from a
+   * modular model.
+   */
+  modular: boolean;
+}
+
+const TYPE_NAME_PREFIX = 'TYPE_NAME_';
+
+// JSON models carry no source positions; every node points at the start.
+const NO_RANGE = lineRange(1, 1, 1);
+
+function toTypeName(type: ConditionParameterType): ConditionParamTypeRefJson {
+  const ref: ConditionParamTypeRefJson = { type_name: `${TYPE_NAME_PREFIX}${type.name.toUpperCase()}` };
+  if (type.genericTypes.length > 0) {
+    ref.generic_types = type.genericTypes.map(toTypeName);
+  }
+  return ref;
+}
+
+function toUserset(node: RewriteNode): UsersetJson {
+  switch (node.kind) {
+    case 'direct':
+      return { this: {} };
+    case 'computed':
+      return { computedUserset: { object: '', relation: node.relation } };
+    case 'tupleToUserset':
+      return {
+        tupleToUserset: {
+          tupleset: { object: '', relation: node.tupleset },
+          computedUserset: { object: '', relation: node.relation }
+        }
+      };
+    case 'union':
+      return { union: { child: node.children.map(toUserset) } };
+    case 'intersection':
+      return { intersection: { child: node.children.map(toUserset) } };
+    case 'exclusion':
+      return { difference: { base: toUserset(node.base), subtract: toUserset(node.subtract) } };
+  }
+}
+
+function toReference(restriction: TypeRestriction): RelationReferenceJson {
+  const reference: RelationReferenceJson = { type: restriction.type };
+  if (restriction.relation) {
+    reference.relation = restriction.relation;
+  }
+  if (restriction.wildcard) {
+    reference.wildcard = {};
+  }
+  if (restriction.condition) {
+    reference.condition = restriction.condition;
+  }
+  return reference;
+}
+
+/**
+ * Convert a parsed model to the API JSON. Extensions (`extend type`) are
+ * merged into the type they extend, keeping their module and source file as
+ * relation metadata. Types that are only extended are skipped; callers should
+ * validate the model first.
+ */
+export function modelToJson(model: AuthorizationModelAst): AuthorizationModelJson {
+  const modular = Boolean(model.module) || model.types.some(type => type.module) || model.conditions.some(c => c.module);
+  const definitions = new Map<string, TypeDefinitionJson>();
+  const owners = new Map<string, TypeDefinition>();
+
+  for (const type of model.types.filter(candidate => !candidate.extension)) {
+    if (definitions.has(type.name)) {
+      continue;
+    }
+    const definition: TypeDefinitionJson = { type: type.name, relations: {}, metadata: null };
+    if (type.relations.length > 0 || type.module) {
+      definition.metadata = { relations: {} };
+      if (type.module) {
+        definition.metadata.module = type.module;
+        definition.metadata.source_info = { file: type.file ?? '' };
+      }
+    }
+    definitions.set(type.name, definition);
+    owners.set(type.name, type);
+  }
+
+  for (const type of model.types) {
+    const definition = definitions.get(type.name);
+    if (!definition || (!type.extension && owners.get(type.name) !== type)) {
+      continue;
+    }
+    for (const relation of type.relations) {
+      if (relation.name in definition.relations) {
+        continue;
+      }
+      definition.relations[relation.name] = toUserset(relation.rewrite);
+      const metadata: RelationMetadataJson = {
+        directly_related_user_types: collectDirectRestrictions(relation.rewrite).map(toReference)
+      };
+      if (type.extension && type.module) {
+        metadata.module = type.module;
+        metadata.source_info = { file: type.file ?? '' };
+      }
+      definition.metadata = definition.metadata ?? { relations: {} };
+      definition.metadata.relations[relation.name] = metadata;
+    }
+  }
+
+  const json: AuthorizationModelJson = {
+    schema_version: model.schemaVersion ?? (modular ? '1.2' : '1.1'),
+    type_definitions: [...definitions.values()]
+  };
+
+  if (model.conditions.length > 0) {
+    json.conditions = {};
+    for (const condition of model.conditions) {
+      if (condition.name in json.conditions) {
+        continue;
+      }
+      const parameters: Record<string, ConditionParamTypeRefJson> = {};
+      condition.parameters.forEach(parameter => {
+        parameters[parameter.name] = toTypeName(parameter.type);
+      });
+      const entry: ConditionJson = { name: condition.name, expression: condition.expression, parameters };
+      if (condition.module) {
+        entry.metadata = { module: condition.module, source_info: { file: condition.file ?? '' } };
+      }
+      json.conditions[condition.name] = entry;
+    }
+  }
+
+  return json;
+}
+
+class JsonModelReader {
+  private readonly diagnostics: Diagnostic[] = [];
+  private modular = false;
+
+  constructor(private readonly file?: string) {}
+
+  read(input: unknown): JsonParseResult {
+    const model: AuthorizationModelAst = { types: [], conditions: [] };
+    if (this.file) {
+      model.file = this.file;
+    }
+
+    // Accept a ReadAuthorizationModel response as well as a bare model.
+    const root = this.isObject(input) && this.isObject(input.authorization_model) ? input.authorization_model : input;
+    if (!this.isObject(root)) {
+      this.error('$', 'The model must be a JSON object');
+      return this.result(model);
+    }
+
+    const version = root.schema_version;
+    if (typeof version !== 'string' || !SUPPORTED_SCHEMA_VERSIONS.includes(version)) {
+      this.error('schema_version', `Expected one of ${SUPPORTED_SCHEMA_VERSIONS.join(', ')} but found ${JSON.stringify(version)}`);
+    } else {
+      model.schemaVersion = version;
+    }
+
+    if (!Array.isArray(root.type_definitions)) {
+      this.error('type_definitions', 'Expected a list of type definitions');
+    } else {
+      root.type_definitions.forEach((raw, i) => model.types.push(...this.readType(raw, `type_definitions[${i}]`)));
+    }
+
+    if (root.conditions !== undefined && root.conditions !== null) {
+      if (!this.isObject(root.conditions)) {
+        this.error('conditions', 'Expected an object keyed by condition name');
+      } else {
+        for (const [name, raw] of Object.entries(root.conditions)) {
+          const condition = this.readCondition(name, raw, `conditions.${name}`);
+          if (condition) {
+            model.conditions.push(condition);
+          }
+        }
+      }
+    }
+
+    return this.result(model);
+  }
+
+  private result(model: AuthorizationModelAst): JsonParseResult {
+    return { model, diagnostics: this.diagnostics, modular: this.modular };
+  }
+
+  private error(path: string, message: string) {
+    const diagnostic: Diagnostic = { severity: 'error', code: 'invalid-json-model', message: `${path}: ${message}`, ...NO_RANGE };
+    if (this.file) {
+      diagnostic.file = this.file;
+    }
+    this.diagnostics.push(diagnostic);
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private text(value: unknown): string | undefined {
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+  }
+
+  /**
+   * Read a type definition. Relations whose metadata names a different module
+   * than the type become an `extend type` definition for that module.
+   */
+  private readType(raw: unknown, path: string): TypeDefinition[] {
+    if (!this.isObject(raw) || typeof raw.type !== 'string' || raw.type.length === 0) {
+      this.error(path, `Expected an object with a 'type' name`);
+      return [];
+    }
+
+    const metadata = this.isObject(raw.metadata) ? raw.metadata : {};
+    const relationMetadata = this.isObject(metadata.relations) ? metadata.relations : {};
+    const module = this.text(metadata.module);
+    const file = this.sourceFile(metadata.source_info);
+
+    const base = this.newType(raw.type, false, module, file);
+    const definitions = [base];
+
+    if (raw.relations !== undefined && raw.relations !== null && !this.isObject(raw.relations)) {
+      this.error(`${path}.relations`, 'Expected an object keyed by relation name');
+      return definitions;
+    }
+
+    for (const [name, userset] of Object.entries(raw.relations ?? {})) {
+      const relationPath = `${path}.relations.${name}`;
+      const info = this.isObject(relationMetadata[name]) ? relationMetadata[name] as Record<string, unknown> : {};
+      const types = this.readReferences(info.directly_related_user_types, `${path}.metadata.relations.${name}.directly_related_user_types`);
+      const state = { types, used: false };
+      const rewrite = this.readUserset(userset, relationPath, state);
+      if (!rewrite) {
+        continue;
+      }
+      if (!state.used && types.length > 0) {
+        this.error(relationPath, `Has directly related user types in its metadata but no 'this'`);
+      }
+
+      const relation: RelationDefinition = { name, rewrite, range: NO_RANGE, nameRange: NO_RANGE };
+      const relationModule = this.text(info.module);
+      const relationFile = this.sourceFile(info.source_info);
+      if (relationModule && (relationModule !== module || (relationFile ?? file) !== file)) {
+        let extension = definitions.find(d => d.extension && d.module === relationModule && d.file === (relationFile ?? file));
+        if (!extension) {
+          extension = this.newType(raw.type, true, relationModule, relationFile ?? file);
+          definitions.push(extension);
+        }
+        extension.relations.push(relation);
+      } else {
+        base.relations.push(relation);
+      }
+    }
+
+    return definitions;
+  }
+
+  private newType(name: string, extension: boolean, module?: string, file?: string): TypeDefinition {
+    const type: TypeDefinition = { name, extension, relations: [], range: NO_RANGE, nameRange: NO_RANGE };
+    if (module) {
+      this.modular = true;
+      type.module = module;
+      if (file) {
+        type.file = file;
+      }
+    }
+    return type;
+  }
+
+  private sourceFile(raw: unknown): string | undefined {
+    return this.isObject(raw) ? this.text(raw.file) : undefined;
+  }
+
+  private readReferences(raw: unknown, path: string): TypeRestriction[] {
+    if (raw === undefined || raw === null) {
+      return [];
+    }
+    if (!Array.isArray(raw)) {
+      this.error(path, 'Expected a list of relation references');
+      return [];
+    }
+
+    const restrictions: TypeRestriction[] = [];
+    raw.forEach((reference, i) => {
+      if (!this.isObject(reference) || typeof reference.type !== 'string' || reference.type.length === 0) {
+        this.error(`${path}[${i}]`, `Expected an object with a 'type'`);
+        return;
+      }
+      const restriction: TypeRestriction = { type: reference.type, wildcard: this.isObject(reference.wildcard), range: NO_RANGE };
+      const relation = this.text(reference.relation);
+      if (relation) {
+        restriction.relation = relation;
+      }
+      if (restriction.wildcard && relation) {
+        this.error(`${path}[${i}]`, `A reference cannot have both 'wildcard' and 'relation'`);
+        return;
+      }
+      const condition = this.text(reference.condition);
+      if (condition) {
+        restriction.condition = condition;
+      }
+      restrictions.push(restriction);
+    });
+    return restrictions;
+  }
+
+  private readUserset(raw: unknown, path: string, state: { types: TypeRestriction[]; used: boolean }): RewriteNode | null {
+    if (!this.isObject(raw)) {
+      this.error(path, 'Expected a userset object');
+      return null;
+    }
+
+    const keys = Object.keys(raw);
+    if (keys.length !== 1) {
+      this.error(path, `Expected exactly one of this, computedUserset, tupleToUserset, union, intersection, difference but found ${keys.join(', ') || 'none'}`);
+      return null;
+    }
+
+    const [key] = keys;
+    const value = raw[key];
+    switch (key) {
+      case 'this':
+        if (state.used) {
+          this.error(path, `'this' can only be used once per relation`);
+          return null;
+        }
+        if (state.types.length === 0) {
+          this.error(path, `Uses 'this' but its metadata has no directly_related_user_types`);
+          return null;
+        }
+        state.used = true;
+        return { kind: 'direct', types: state.types, range: NO_RANGE };
+
+      case 'computedUserset': {
+        const relation = this.isObject(value) ? this.text(value.relation) : undefined;
+        if (!relation) {
+          this.error(`${path}.computedUserset`, `Expected a 'relation'`);
+          return null;
+        }
+        return { kind: 'computed', relation, range: NO_RANGE };
+      }
+
+      case 'tupleToUserset': {
+        const tupleset = this.isObject(value) && this.isObject(value.tupleset) ? this.text(value.tupleset.relation) : undefined;
+        const relation = this.isObject(value) && this.isObject(value.computedUserset) ? this.text(value.computedUserset.relation) : undefined;
+        if (!tupleset || !relation) {
+          this.error(`${path}.tupleToUserset`, `Expected 'tupleset.relation' and 'computedUserset.relation'`);
+          return null;
+        }
+        return { kind: 'tupleToUserset', relation, tupleset, range: NO_RANGE, tuplesetRange: NO_RANGE };
+      }
+
+      case 'union':
+      case 'intersection': {
+        const children = this.isObject(value) ? value.child : undefined;
+        if (!Array.isArray(children) || children.length < 2) {
+          this.error(`${path}.${key}`, `Expected 'child' with at least two usersets`);
+          return null;
+        }
+        const nodes = children.map((child, i) => this.readUserset(child, `${path}.${key}.child[${i}]`, state));
+        if (nodes.some(node => node === null)) {
+          return null;
+        }
+        return { kind: key, children: nodes as RewriteNode[], range: NO_RANGE };
+      }
+
+      case 'difference': {
+        if (!this.isObject(value)) {
+          this.error(`${path}.difference`, `Expected 'base' and 'subtract'`);
+          return null;
+        }
+        const base = this.readUserset(value.base, `${path}.difference.base`, state);
+        const subtract = this.readUserset(value.subtract, `${path}.difference.subtract`, state);
+        return base && subtract ? { kind: 'exclusion', base, subtract, range: NO_RANGE } : null;
+      }
+
+      default:
+        this.error(path, `Unknown userset '${key}'`);
+        return null;
+    }
+  }
+
+  private readCondition(name: string, raw: unknown, path: string): ConditionDefinition | null {
+    if (!this.isObject(raw)) {
+      this.error(path, 'Expected a condition object');
+      return null;
+    }
+    if (raw.name !== undefined && raw.name !== name) {
+      this.error(`${path}.name`, `Does not match its key '${name}'`);
+    }
+    if (typeof raw.expression !== 'string' || raw.expression.trim().length === 0) {
+      this.error(`${path}.expression`, 'Expected a non-empty expression');
+      return null;
+    }
+
+    const condition: ConditionDefinition = {
+      name,
+      parameters: [],
+      expression: raw.expression.trim(),
+      range: NO_RANGE,
+      nameRange: NO_RANGE,
+      expressionRange: NO_RANGE
+    };
+
+    const parameters = raw.parameters ?? {};
+    if (!this.isObject(parameters)) {
+      this.error(`${path}.parameters`, 'Expected an object keyed by parameter name');
+      return null;
+    }
+    for (const [parameter, type] of Object.entries(parameters)) {
+      const parsed = this.readParameterType(type, `${path}.parameters.${parameter}`);
+      if (!parsed) {
+        return null;
+      }
+      condition.parameters.push({ name: parameter, type: parsed, range: NO_RANGE });
+    }
+
+    const metadata = this.isObject(raw.metadata) ? raw.metadata : {};
+    const module = this.text(metadata.module);
+    if (module) {
+      this.modular = true;
+      condition.module = module;
+      const file = this.sourceFile(metadata.source_info);
+      if (file) {
+        condition.file = file;
+      }
+    }
+
+    return condition;
+  }
+
+  private readParameterType(raw: unknown, path: string): ConditionParameterType | null {
+    const typeName = this.isObject(raw) ? raw.type_name : undefined;
+    const name = typeof typeName === 'string' && typeName.startsWith(TYPE_NAME_PREFIX)
+      ? typeName.slice(TYPE_NAME_PREFIX.length).toLowerCase()
+      : undefined;
+    if (!name || !CONDITION_PARAMETER_TYPES.includes(name)) {
+      this.error(`${path}.type_name`, `Unknown parameter type ${JSON.stringify(typeName)}`);
+      return null;
+    }
+
+    const generics = (raw as Record<string, unknown>).generic_types ?? [];
+    if (!Array.isArray(generics)) {
+      this.error(`${path}.generic_types`, 'Expected a list');
+      return null;
+    }
+    const genericTypes: ConditionParameterType[] = [];
+    for (const [i, generic] of generics.entries()) {
+      const parsed = this.readParameterType(generic, `${path}.generic_types[${i}]`);
+      if (!parsed) {
+        return null;
+      }
+      genericTypes.push(parsed);
+    }
+    if ((name === 'map' || name === 'list') && genericTypes.length !== 1) {
+      this.error(path, `'${name}' needs exactly one generic type`);
+      return null;
+    }
+    return { name, genericTypes };
+  }
+}
+
+/**
+ * Read an API JSON model (an object or JSON text) into the same AST the DSL
+ * parser produces. Structural problems are reported as `invalid-json-model`
+ * diagnostics with the JSON path of the offending value.
+ */
+export function parseModelJson(input: unknown, options: { file?: string } = {}): JsonParseResult {
+  if (typeof input === 'string') {
+    try {
+      input = JSON.parse(input);
+    } catch (error) {
+      const diagnostic: Diagnostic = {
+        severity: 'error',
+        code: 'invalid-json-model',
+        message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        ...NO_RANGE
+      };
+      if (options.file) {
+        diagnostic.file = options.file;
+      }
+      return { model: { types: [], conditions: [] }, diagnostics: [diagnostic], modular: false };
+    }
+  }
+  return new JsonModelReader(options.file).read(input);
+}
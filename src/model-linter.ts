@@ -0,0 +1,712 @@
+import { parse as parseYaml } from 'yaml';
+import {
+  AuthorizationModelAst,
+  Diagnostic,
+  RelationDefinition,
+  RewriteNode,
+  Severity,
+  SourceRange,
+  TypeDefinition,
+  parseDsl,
+  stripComment
+} from './dsl-parser.js';
+import { formatRewrite } from './dsl-formatter.js';
+import {
+  ModelIndex,
+  collectDirectRestrictions,
+  indexModel,
+  isDirectlyAssignable,
+  relationReferences,
+  walkRewrite
+} from './model-index.js';
+import { ModelValidator } from './model-validator.js';
+
+/**
+ * Rule based linting of OpenFGA models: dead types and relations, permission
+ * naming and rewrites that can be simplified, with line-based autofixes.
+ */
+
+export type RuleSetting = Severity | 'off';
+
+export interface LineEdit {
+  /**
+   * First and last (inclusive) 1-based lines to replace.
+   */
+  startLine: number;
+  endLine: number;
+  /**
+   * Replacement lines; empty to delete the range.
+   */
+  lines: string[];
+}
+
+export interface LintFix {
+  description: string;
+  edits: LineEdit[];
+  /**
+   * Unified diff of the fix against the linted source.
+   */
+  patch: string;
+}
+
+export interface LintFinding extends Diagnostic {
+  rule: string;
+  fix?: LintFix;
+}
+
+export interface LintOptions {
+  file?: string;
+  /**
+   * `.fga.yaml` test document; relations it checks or assigns count as used.
+   */
+  tests?: string;
+  /**
+   * Per-rule severity overrides, or `off` to disable a rule.
+   */
+  rules?: Record<string, RuleSetting>;
+}
+
+export interface LintResult {
+  /**
+   * False when the model has errors and could not be linted.
+   */
+  linted: boolean;
+  findings: LintFinding[];
+  diagnostics: Diagnostic[];
+  summary: { errors: number; warnings: number; infos: number; fixable: number };
+  /**
+   * The model with every fix applied (repeated until no fixes remain).
+   */
+  fixed?: string;
+}
+
+export interface LintRuleInfo {
+  id: string;
+  description: string;
+  defaultSeverity: Severity;
+}
+
+export class LintConfigError extends Error {}
+
+interface TestUsage {
+  types: Set<string>;
+  checked: Set<string>;
+  assigned: Set<string>;
+}
+
+interface LintContext {
+  model: AuthorizationModelAst;
+  index: ModelIndex;
+  lines: string[];
+  references: Map<string, Set<string>>;
+  tests?: TestUsage;
+  /**
+   * Relations reachable from permissions and tests, or null when the model
+   * has neither (nothing can be called unreachable then).
+   */
+  reachable: Set<string> | null;
+  reachableTypes: Set<string>;
+}
+
+type Report = (message: string, range: SourceRange, fix?: Omit<LintFix, 'patch'>) => void;
+
+interface LintRule extends LintRuleInfo {
+  check(context: LintContext, report: Report): void;
+}
+
+const PERMISSION_PREFIX = 'can_';
+
+const key = (type: string, relation: string) => `${type}#${relation}`;
+
+function hasPermissionPrefix(name: string): boolean {
+  return name.startsWith(PERMISSION_PREFIX);
+}
+
+/**
+ * Relations referencing `type#relation`, ignoring the relation itself.
+ */
+function referencedBy(references: Map<string, Set<string>>, type: string, relation: string): string[] {
+  return [...(references.get(key(type, relation)) ?? [])].filter(user => user !== key(type, relation));
+}
+
+/**
+ * Permissions are what applications check: `can_<action>` relations, and
+ * computed relations that nothing else references.
+ */
+function isPermission(references: Map<string, Set<string>>, type: string, relation: RelationDefinition): boolean {
+  return hasPermissionPrefix(relation.name) ||
+    (!isDirectlyAssignable(relation) && referencedBy(references, type, relation.name).length === 0);
+}
+
+function usedByTests(context: LintContext, type: string, relation: string): boolean {
+  return Boolean(context.tests && (context.tests.checked.has(key(type, relation)) || context.tests.assigned.has(key(type, relation))));
+}
+
+/**
+ * Directly assignable relations that nothing reads: no relation or test
+ * references them and (with tests) no test tuple assigns them.
+ */
+function isUnusedRelation(context: LintContext, type: string, relation: RelationDefinition): boolean {
+  return !hasPermissionPrefix(relation.name) &&
+    isDirectlyAssignable(relation) &&
+    referencedBy(context.references, type, relation.name).length === 0 &&
+    !usedByTests(context, type, relation.name);
+}
+
+function isUnprefixedPermission(context: LintContext, type: string, relation: RelationDefinition): boolean {
+  return !hasPermissionPrefix(relation.name) && isPermission(context.references, type, relation);
+}
+
+function relationsOf(context: LintContext): { type: TypeDefinition; relation: RelationDefinition }[] {
+  return context.model.types.flatMap(type => type.relations.map(relation => ({ type, relation })));
+}
+
+/**
+ * Replace a relation's definition line, keeping indentation and comments.
+ */
+function rewriteLine(context: LintContext, relation: RelationDefinition, name: string, rewrite: RewriteNode): LineEdit {
+  const original = context.lines[relation.range.line - 1];
+  const code = stripComment(original);
+  const indent = original.slice(0, original.length - original.trimStart().length);
+  const comment = original.slice(code.trimEnd().length);
+  return {
+    startLine: relation.range.line,
+    endLine: relation.range.line,
+    lines: [`${indent}define ${name}: ${formatRewrite(rewrite)}${comment}`]
+  };
+}
+
+function deleteLines(context: LintContext, startLine: number, endLine: number): LineEdit {
+  // Take a following blank line along so blocks stay evenly spaced.
+  const next = context.lines[endLine];
+  const extra = next !== undefined && next.trim().length === 0 && startLine !== endLine ? 1 : 0;
+  return { startLine, endLine: endLine + extra, lines: [] };
+}
+
+/**
+ * Last line of a type block: the line before the next type or condition,
+ * without trailing blank lines.
+ */
+function typeBlockEnd(context: LintContext, type: TypeDefinition): number {
+  const starts = [
+    ...context.model.types.map(other => other.range.line),
+    ...context.model.conditions.map(condition => condition.range.line)
+  ].filter(line => line > type.range.line);
+  let end = starts.length > 0 ? Math.min(...starts) - 1 : context.lines.length;
+  while (end > type.range.line && stripComment(context.lines[end - 1]).trim().length === 0) {
+    end--;
+  }
+  return end;
+}
+
+/**
+ * Relation names `node` always includes on `type`, following computed
+ * relations and unions (but not intersections or exclusions).
+ */
+function impliedRelations(index: ModelIndex, type: string, node: RewriteNode, seen = new Set<string>()): Set<string> {
+  if (node.kind === 'computed') {
+    if (!seen.has(node.relation)) {
+      seen.add(node.relation);
+      const target = index.types.get(type)?.get(node.relation);
+      if (target) {
+        impliedRelations(index, type, target.rewrite, seen);
+      }
+    }
+  } else if (node.kind === 'union') {
+    node.children.forEach(child => impliedRelations(index, type, child, seen));
+  }
+  return seen;
+}
+
+/**
+ * Whether `inner` grants a subset of what `outer` grants.
+ */
+function isSubsetOf(index: ModelIndex, type: string, inner: RewriteNode, outer: RewriteNode): boolean {
+  if (formatRewrite(inner) === formatRewrite(outer)) {
+    return true;
+  }
+  return inner.kind === 'computed' && impliedRelations(index, type, outer).has(inner.relation);
+}
+
+/**
+ * Children of a union or intersection that can be dropped: in a union the
+ * ones contained in a sibling, in an intersection the ones containing one.
+ * For mutually contained children the first is kept.
+ */
+function redundantChildren(index: ModelIndex, type: string, node: { kind: 'union' | 'intersection'; children: RewriteNode[] }): Set<number> {
+  const removed = new Set<number>();
+  const covers = (i: number, j: number) => node.kind === 'union'
+    ? isSubsetOf(index, type, node.children[i], node.children[j])
+    : isSubsetOf(index, type, node.children[j], node.children[i]);
+
+  node.children.forEach((_, i) => {
+    for (let j = 0; j < node.children.length; j++) {
+      if (j === i || removed.has(j) || !covers(i, j)) {
+        continue;
+      }
+      if (!covers(j, i) || j < i) {
+        removed.add(i);
+        return;
+      }
+    }
+  });
+  return removed;
+}
+
+function withoutChildren(node: { kind: 'union' | 'intersection'; children: RewriteNode[]; range: SourceRange }, removed: Set<number>): RewriteNode {
+  const children = node.children.filter((_, i) => !removed.has(i));
+  return children.length === 1 ? children[0] : { ...node, children };
+}
+
+/**
+ * Rebuild a rewrite, replacing `target` (by identity) with `replacement`.
+ */
+function replaceNode(node: RewriteNode, target: RewriteNode, replacement: RewriteNode): RewriteNode {
+  if (node === target) {
+    return replacement;
+  }
+  if (node.kind === 'union' || node.kind === 'intersection') {
+    return { ...node, children: node.children.map(child => replaceNode(child, target, replacement)) };
+  }
+  if (node.kind === 'exclusion') {
+    return { ...node, base: replaceNode(node.base, target, replacement), subtract: replaceNode(node.subtract, target, replacement) };
+  }
+  return node;
+}
+
+const RULES: LintRule[] = [
+  {
+    id: 'unreachable-type',
+    description: 'Types not used by any permission, test or relation reachable from them',
+    defaultSeverity: 'warning',
+    check(context, report) {
+      if (!context.reachable) {
+        return;
+      }
+      const referenced = new Set(relationsOf(context).flatMap(({ relation }) =>
+        collectDirectRestrictions(relation.rewrite).map(restriction => restriction.type)
+      ));
+      for (const type of context.model.types.filter(candidate => !candidate.extension)) {
+        if (context.reachableTypes.has(type.name)) {
+          continue;
+        }
+        // Removing assignable relations would drop the tuples written to them.
+        const safe = !referenced.has(type.name) &&
+          context.model.types.filter(other => other.name === type.name).length === 1 &&
+          !type.relations.some(isDirectlyAssignable);
+        report(
+          `Type '${type.name}' is not used by any permission or test`,
+          type.nameRange,
+          safe ? { description: `Remove type '${type.name}'`, edits: [deleteLines(context, type.range.line, typeBlockEnd(context, type))] } : undefined
+        );
+      }
+    }
+  },
+  {
+    id: 'unreachable-relation',
+    description: 'Relations that no permission or test reaches',
+    defaultSeverity: 'warning',
+    check(context, report) {
+      if (!context.reachable) {
+        return;
+      }
+      for (const { type, relation } of relationsOf(context)) {
+        if (context.reachable.has(key(type.name, relation.name)) || isUnusedRelation(context, type.name, relation)) {
+          continue;
+        }
+        const users = referencedBy(context.references, type.name, relation.name);
+        report(
+          `Relation '${type.name}#${relation.name}' is not reachable from any permission or test` +
+            (users.length > 0 ? ` (only used by ${users.join(', ')})` : ''),
+          relation.nameRange
+        );
+      }
+    }
+  },
+  // Removing an assignable relation or renaming a permission breaks the tuples
+  // and checks that use it, so those findings come without a fix.
+  {
+    id: 'unused-relation',
+    description: 'Directly assignable relations that are never referenced (and, with tests, never assigned)',
+    defaultSeverity: 'warning',
+    check(context, report) {
+      for (const { type, relation } of relationsOf(context)) {
+        if (!isUnusedRelation(context, type.name, relation)) {
+          continue;
+        }
+        report(
+          `Relation '${type.name}#${relation.name}' is never referenced by another relation${context.tests ? ' and never assigned or checked in the tests' : ''}`,
+          relation.nameRange
+        );
+      }
+    }
+  },
+  {
+    id: 'permission-prefix',
+    description: `Permissions (computed relations nothing else references) should be named '${PERMISSION_PREFIX}<action>'`,
+    defaultSeverity: 'warning',
+    check(context, report) {
+      for (const { type, relation } of relationsOf(context)) {
+        if (!isUnprefixedPermission(context, type.name, relation)) {
+          continue;
+        }
+        report(
+          `Relation '${type.name}#${relation.name}' looks like a permission; name it '${PERMISSION_PREFIX}${relation.name}'`,
+          relation.nameRange
+        );
+      }
+    }
+  },
+  {
+    id: 'assignable-permission',
+    description: `Permissions ('${PERMISSION_PREFIX}*') should be derived from roles, not directly assigned`,
+    defaultSeverity: 'info',
+    check(context, report) {
+      for (const { type, relation } of relationsOf(context)) {
+        if (hasPermissionPrefix(relation.name) && isDirectlyAssignable(relation)) {
+          report(`Permission '${type.name}#${relation.name}' is directly assignable; grant it through a role relation instead`, relation.nameRange);
+        }
+      }
+    }
+  },
+  {
+    id: 'redundant-union',
+    description: `Union members already included by another member (e.g. 'owner or editor' when editor includes owner)`,
+    defaultSeverity: 'warning',
+    check(context, report) {
+      for (const { type, relation } of relationsOf(context)) {
+        walkRewrite(relation.rewrite, node => {
+          if (node.kind !== 'union') {
+            return;
+          }
+          const removed = redundantChildren(context.index, type.name, node);
+          node.children.forEach((child, i) => {
+            if (child.kind === 'computed' && child.relation === relation.name) {
+              removed.add(i);
+            }
+          });
+          if (removed.size === 0) {
+            return;
+          }
+          const names = [...removed].map(i => `'${formatRewrite(node.children[i])}'`).join(', ');
+          report(
+            `${names} ${removed.size === 1 ? 'is' : 'are'} redundant in '${type.name}#${relation.name}': already granted by the rest of the union`,
+            node.range,
+            {
+              description: `Remove ${names}`,
+              edits: [rewriteLine(context, relation, relation.name, replaceNode(relation.rewrite, node, withoutChildren(node, removed)))]
+            }
+          );
+        });
+      }
+    }
+  },
+  {
+    id: 'simplifiable-rewrite',
+    description: 'Rewrites that can be written more simply: nested operators, intersections with implied members, empty exclusions',
+    defaultSeverity: 'info',
+    check(context, report) {
+      for (const { type, relation } of relationsOf(context)) {
+        walkRewrite(relation.rewrite, node => {
+          if (node.kind === 'union' || node.kind === 'intersection') {
+            if (node.children.some(child => child.kind === node.kind)) {
+              const flattened = { ...node, children: node.children.flatMap(child => child.kind === node.kind ? child.children : [child]) };
+              report(
+                `Nested '${node.kind === 'union' ? 'or' : 'and'}' can be flattened in '${type.name}#${relation.name}'`,
+                node.range,
+                {
+                  description: 'Remove the redundant parentheses',
+                  edits: [rewriteLine(context, relation, relation.name, replaceNode(relation.rewrite, node, flattened))]
+                }
+              );
+              return;
+            }
+          }
+          if (node.kind === 'intersection') {
+            const removed = redundantChildren(context.index, type.name, node);
+            if (removed.size > 0) {
+              const names = [...removed].map(i => `'${formatRewrite(node.children[i])}'`).join(', ');
+              report(
+                `${names} can be dropped from the intersection in '${type.name}#${relation.name}': another member is already narrower`,
+                node.range,
+                {
+                  description: `Remove ${names}`,
+                  edits: [rewriteLine(context, relation, relation.name, replaceNode(relation.rewrite, node, withoutChildren(node, removed)))]
+                }
+              );
+            }
+          }
+          if (node.kind === 'exclusion' && isSubsetOf(context.index, type.name, node.base, node.subtract)) {
+            report(`'${formatRewrite(node)}' in '${type.name}#${relation.name}' never grants access: everything in the base is excluded`, node.range);
+          }
+        });
+      }
+    }
+  }
+];
+
+/**
+ * Relations and types the tests check, list or assign.
+ */
+function collectTestUsage(source: string): TestUsage {
+  let document: unknown;
+  try {
+    document = parseYaml(source);
+  } catch (error) {
+    throw new LintConfigError(`Invalid tests YAML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const usage: TestUsage = { types: new Set(), checked: new Set(), assigned: new Set() };
+  const typeOf = (value: unknown) => typeof value === 'string' ? value.split(':')[0] : undefined;
+  const addUser = (value: unknown) => {
+    if (typeof value !== 'string') {
+      return;
+    }
+    const [object, relation] = value.split('#');
+    usage.types.add(object.split(':')[0]);
+    if (relation) {
+      usage.checked.add(key(object.split(':')[0], relation));
+    }
+  };
+  const addTuples = (tuples: unknown) => {
+    for (const tuple of Array.isArray(tuples) ? tuples : []) {
+      const type = typeOf(tuple?.object);
+      if (type && typeof tuple?.relation === 'string') {
+        usage.types.add(type);
+        usage.assigned.add(key(type, tuple.relation));
+      }
+      addUser(tuple?.user);
+    }
+  };
+  const asList = (value: unknown): unknown[] => Array.isArray(value) ? value : value === undefined ? [] : [value];
+  const doc = (document ?? {}) as Record<string, any>;
+
+  addTuples(doc.tuples);
+  for (const test of asList(doc.tests) as Record<string, any>[]) {
+    addTuples(test?.tuples);
+    for (const check of asList(test?.check) as Record<string, any>[]) {
+      [...asList(check?.user), ...asList(check?.users)].forEach(addUser);
+      for (const object of [...asList(check?.object), ...asList(check?.objects)]) {
+        const type = typeOf(object);
+        if (type) {
+          usage.types.add(type);
+          Object.keys(check?.assertions ?? {}).forEach(relation => usage.checked.add(key(type, relation)));
+        }
+      }
+    }
+    for (const listObjects of asList(test?.list_objects) as Record<string, any>[]) {
+      addUser(listObjects?.user);
+      if (typeof listObjects?.type === 'string') {
+        usage.types.add(listObjects.type);
+        Object.keys(listObjects?.assertions ?? {}).forEach(relation => usage.checked.add(key(listObjects.type, relation)));
+      }
+    }
+    for (const listUsers of asList(test?.list_users) as Record<string, any>[]) {
+      const type = typeOf(listUsers?.object);
+      if (type) {
+        usage.types.add(type);
+        Object.keys(listUsers?.assertions ?? {}).forEach(relation => usage.checked.add(key(type, relation)));
+      }
+      for (const filter of asList(listUsers?.user_filter) as Record<string, any>[]) {
+        if (typeof filter?.type === 'string') {
+          usage.types.add(filter.type);
+          if (typeof filter.relation === 'string') {
+            usage.checked.add(key(filter.type, filter.relation));
+          }
+        }
+      }
+    }
+  }
+  return usage;
+}
+
+/**
+ * Walk from permissions and tested relations through everything their
+ * rewrites follow.
+ */
+function computeReachability(
+  index: ModelIndex,
+  references: Map<string, Set<string>>,
+  tests?: TestUsage
+): { relations: Set<string> | null; types: Set<string> } {
+  const roots = [...index.types].flatMap(([type, relations]) =>
+    [...relations.values()].filter(relation => isPermission(references, type, relation)).map(relation => key(type, relation.name))
+  );
+  if (tests) {
+    roots.push(...tests.checked, ...tests.assigned);
+  }
+  const types = new Set<string>(tests?.types ?? []);
+  if (roots.length === 0) {
+    return { relations: null, types };
+  }
+
+  const relations = new Set<string>();
+  const queue = [...roots];
+  while (queue.length > 0) {
+    const current = queue.pop()!;
+    const [typeName, name] = current.split('#');
+    const definitions = index.types.get(typeName);
+    const relation = definitions?.get(name);
+    if (relations.has(current) || !relation) {
+      continue;
+    }
+    relations.add(current);
+    types.add(typeName);
+
+    walkRewrite(relation.rewrite, node => {
+      if (node.kind === 'computed') {
+        queue.push(key(typeName, node.relation));
+      } else if (node.kind === 'tupleToUserset') {
+        queue.push(key(typeName, node.tupleset));
+        const tupleset = definitions!.get(node.tupleset);
+        for (const restriction of tupleset ? collectDirectRestrictions(tupleset.rewrite) : []) {
+          queue.push(key(restriction.type, node.relation));
+        }
+      } else if (node.kind === 'direct') {
+        for (const restriction of node.types) {
+          types.add(restriction.type);
+          if (restriction.relation) {
+            queue.push(key(restriction.type, restriction.relation));
+          }
+        }
+      }
+    });
+  }
+  return { relations, types };
+}
+
+/**
+ * Apply line edits (which must not overlap) to source text.
+ */
+export function applyLineEdits(source: string, edits: LineEdit[]): string {
+  const lines = source.split('\n');
+  for (const edit of [...edits].sort((a, b) => b.startLine - a.startLine)) {
+    lines.splice(edit.startLine - 1, edit.endLine - edit.startLine + 1, ...edit.lines);
+  }
+  return lines.join('\n');
+}
+
+function unifiedPatch(lines: string[], edits: LineEdit[], file: string): string {
+  const hunks = [...edits].sort((a, b) => a.startLine - b.startLine).map(edit => {
+    const removed = lines.slice(edit.startLine - 1, edit.endLine);
+    const oldStart = edit.lines.length === 0 && removed.length === 0 ? edit.startLine - 1 : edit.startLine;
+    return [
+      `@@ -${oldStart},${removed.length} +${edit.lines.length === 0 ? edit.startLine - 1 : edit.startLine},${edit.lines.length} @@`,
+      ...removed.map(line => `-${line}`),
+      ...edit.lines.map(line => `+${line}`)
+    ].join('\n');
+  });
+  return [`--- a/${file}`, `+++ b/${file}`, ...hunks].join('\n');
+}
+
+const MAX_FIX_PASSES = 10;
+
+export class ModelLinter {
+  constructor(private readonly validator: ModelValidator = new ModelValidator()) {}
+
+  public static rules(): LintRuleInfo[] {
+    return RULES.map(({ id, description, defaultSeverity }) => ({ id, description, defaultSeverity }));
+  }
+
+  public lint(source: string, options: LintOptions = {}): LintResult {
+    const settings = this.resolveSettings(options.rules ?? {});
+    const tests = options.tests ? collectTestUsage(options.tests) : undefined;
+
+    const validation = this.validator.validate(source, { file: options.file });
+    const summary = { errors: 0, warnings: 0, infos: 0, fixable: 0 };
+    if (!validation.valid) {
+      return { linted: false, findings: [], diagnostics: validation.diagnostics, summary };
+    }
+
+    const findings = this.run(source, settings, options.file, tests);
+    for (const finding of findings) {
+      summary[finding.severity === 'error' ? 'errors' : finding.severity === 'warning' ? 'warnings' : 'infos']++;
+      if (finding.fix) {
+        summary.fixable++;
+      }
+    }
+
+    const result: LintResult = { linted: true, findings, diagnostics: validation.diagnostics, summary };
+    if (summary.fixable > 0) {
+      result.fixed = this.fixAll(source, settings, options.file, tests);
+    }
+    return result;
+  }
+
+  private resolveSettings(overrides: Record<string, RuleSetting>): Map<string, RuleSetting> {
+    const settings = new Map<string, RuleSetting>(RULES.map(rule => [rule.id, rule.defaultSeverity]));
+    for (const [id, setting] of Object.entries(overrides)) {
+      if (!settings.has(id)) {
+        throw new LintConfigError(`Unknown lint rule '${id}', expected one of ${RULES.map(rule => rule.id).join(', ')}`);
+      }
+      if (!['error', 'warning', 'info', 'off'].includes(setting)) {
+        throw new LintConfigError(`Invalid setting '${setting}' for rule '${id}', expected error, warning, info or off`);
+      }
+      settings.set(id, setting);
+    }
+    return settings;
+  }
+
+  private run(source: string, settings: Map<string, RuleSetting>, file?: string, tests?: TestUsage): LintFinding[] {
+    const { model } = parseDsl(source, { file });
+    const index = indexModel(model);
+    const lines = source.split('\n');
+    const references = relationReferences(index);
+    const reachability = computeReachability(index, references, tests);
+    const context: LintContext = {
+      model,
+      index,
+      lines,
+      references,
+      tests,
+      reachable: reachability.relations,
+      reachableTypes: reachability.types
+    };
+
+    const findings: LintFinding[] = [];
+    for (const rule of RULES) {
+      const severity = settings.get(rule.id)!;
+      if (severity === 'off') {
+        continue;
+      }
+      rule.check(context, (message, range, fix) => {
+        const finding: LintFinding = { severity, code: rule.id, rule: rule.id, message, ...range };
+        if (file) {
+          finding.file = file;
+        }
+        if (fix) {
+          finding.fix = { ...fix, patch: unifiedPatch(lines, fix.edits, file ?? 'model.fga') };
+        }
+        findings.push(finding);
+      });
+    }
+
+    return findings.sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+
+  /**
+   * Apply non-overlapping fixes and re-lint until nothing is left to fix.
+   */
+  private fixAll(source: string, settings: Map<string, RuleSetting>, file?: string, tests?: TestUsage): string {
+    let current = source;
+    for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+      const edits: LineEdit[] = [];
+      for (const finding of this.run(current, settings, file, tests)) {
+        for (const edit of finding.fix?.edits ?? []) {
+          if (!edits.some(other => edit.startLine <= other.endLine && other.startLine <= edit.endLine)) {
+            edits.push(edit);
+          }
+        }
+      }
+      if (edits.length === 0) {
+        break;
+      }
+      const next = applyLineEdits(current, edits);
+      if (!this.validator.validate(next, { file }).valid) {
+        break;
+      }
+      current = next;
+    }
+    return current;
+  }
+}
@@ -0,0 +1,510 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parse as parseYaml } from 'yaml';
+import {
+  AuthorizationModelAst,
+  Diagnostic,
+  RewriteNode,
+  TypeRestriction,
+  parseDsl
+} from './dsl-parser.js';
+import { formatDsl, formatModuleFiles } from './dsl-formatter.js';
+import { FGA_MOD_FILE, MODULAR_SCHEMA_VERSION } from './modular-model.js';
+import { ModelValidator } from './model-validator.js';
+import { ModelTestGenerator, formatTestDocument } from './model-test-generator.js';
+import { ModelTestRunner, TestRunResult } from './model-test-runner.js';
+
+/**
+ * A library of starter models for common domains. Each template is a YAML
+ * file with a base model, the relations its optional features apply to, and
+ * scenario tests in `.fga.yaml` format.
+ */
+
+export type TemplateFeature = 'customRoles' | 'temporaryAccess' | 'modular';
+
+export interface ModelTemplate {
+  name: string;
+  title: string;
+  description: string;
+  tags: string[];
+  model: string;
+  /**
+   * Permissions (`type#relation`) that user-defined roles can be granted.
+   */
+  customRoles?: { relations: string[] };
+  /**
+   * Directly assignable relations (`type#relation`) that accept time-limited
+   * grants.
+   */
+  temporaryAccess?: { relations: string[] };
+  /**
+   * Types per module when the model is split into modules.
+   */
+  modules?: Record<string, string[]>;
+  /**
+   * Tests in `.fga.yaml` format; they must pass with every feature enabled.
+   */
+  tests: unknown[];
+  file: string;
+}
+
+export interface TemplateSummary {
+  name: string;
+  title: string;
+  description: string;
+  tags: string[];
+  features: TemplateFeature[];
+}
+
+export interface TemplateIssue {
+  file: string;
+  message: string;
+}
+
+export interface TemplateFilter {
+  /**
+   * Only templates with all of these tags.
+   */
+  tags?: string[];
+}
+
+export interface ScaffoldOptions {
+  customRoles?: boolean;
+  temporaryAccess?: boolean;
+  modular?: boolean;
+}
+
+export interface ScaffoldResult {
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  template: TemplateSummary;
+  options: Required<ScaffoldOptions>;
+  /**
+   * The model as a single DSL file; with `modular` the module files compose
+   * into it.
+   */
+  dsl: string;
+  /**
+   * The model files (one `.fga` file, or module files plus `fga.mod`) and the
+   * `.fga.yaml` test file, keyed by path.
+   */
+  files: Record<string, string>;
+  testFile: string;
+  /**
+   * Whether every test in the test file passes against the model.
+   */
+  verified: boolean;
+  testSummary: TestRunResult['summary'];
+  notes: string[];
+}
+
+export class TemplateError extends Error {}
+
+export const ROLE_TYPE = 'role';
+export const TEMPORARY_ACCESS_CONDITION = 'non_expired_grant';
+
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const TEMPLATE_EXTENSIONS = ['.yaml', '.yml'];
+
+// Types and conditions the features add, parsed once and copied into models.
+const FEATURE_DEFINITIONS = parseDsl(`model
+  schema 1.1
+
+type ${ROLE_TYPE}
+  relations
+    define assignee: [user]
+
+condition ${TEMPORARY_ACCESS_CONDITION}(current_time: timestamp, grant_time: timestamp, grant_duration: duration) {
+  current_time < grant_time + grant_duration
+}
+`).model;
+
+/**
+ * Default templates directory: `TEMPLATES_DIR` or the `templates` directory
+ * shipped next to `prompts`.
+ */
+export function defaultTemplatesDirectory(): string {
+  return process.env.TEMPLATES_DIR
+    ? path.resolve(process.env.TEMPLATES_DIR)
+    : path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'templates');
+}
+
+export function summarizeTemplate(template: ModelTemplate): TemplateSummary {
+  const features: TemplateFeature[] = [];
+  if (template.customRoles) {
+    features.push('customRoles');
+  }
+  if (template.temporaryAccess) {
+    features.push('temporaryAccess');
+  }
+  if (template.modules) {
+    features.push('modular');
+  }
+  return { name: template.name, title: template.title, description: template.description, tags: template.tags, features };
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function relationList(value: unknown, field: string): { relations: string[] } | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const relations = (value as { relations?: unknown } | null)?.relations;
+  if (!isStringList(relations) || relations.length === 0 || relations.some(relation => !relation.includes('#'))) {
+    throw new TemplateError(`'${field}.relations' must be a non-empty list of 'type#relation'`);
+  }
+  return { relations };
+}
+
+/**
+ * Validate the shape of a parsed template file.
+ */
+function toTemplate(data: unknown, file: string): ModelTemplate {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new TemplateError('The template must be a YAML mapping');
+  }
+  const raw = data as Record<string, unknown>;
+  for (const field of ['name', 'title', 'description', 'model']) {
+    if (typeof raw[field] !== 'string' || (raw[field] as string).trim().length === 0) {
+      throw new TemplateError(`'${field}' must be a non-empty string`);
+    }
+  }
+  if (!TEMPLATE_NAME_PATTERN.test(raw.name as string)) {
+    throw new TemplateError(`'name' must be lowercase letters, digits and dashes (got '${raw.name}')`);
+  }
+  if (raw.tags !== undefined && !isStringList(raw.tags)) {
+    throw new TemplateError(`'tags' must be a list of strings`);
+  }
+  if (raw.tests !== undefined && !Array.isArray(raw.tests)) {
+    throw new TemplateError(`'tests' must be a list`);
+  }
+
+  let modules: Record<string, string[]> | undefined;
+  if (raw.modules !== undefined) {
+    const entries = raw.modules && typeof raw.modules === 'object' && !Array.isArray(raw.modules)
+      ? Object.entries(raw.modules)
+      : [];
+    if (entries.length === 0 || entries.some(([, types]) => !isStringList(types))) {
+      throw new TemplateError(`'modules' must map each module name to a list of types`);
+    }
+    modules = Object.fromEntries(entries) as Record<string, string[]>;
+  }
+
+  return {
+    name: raw.name as string,
+    title: raw.title as string,
+    description: raw.description as string,
+    tags: ((raw.tags as string[] | undefined) ?? []).map(tag => tag.toLowerCase()),
+    model: raw.model as string,
+    customRoles: relationList(raw.customRoles, 'customRoles'),
+    temporaryAccess: relationList(raw.temporaryAccess, 'temporaryAccess'),
+    modules,
+    tests: (raw.tests as unknown[] | undefined) ?? [],
+    file
+  };
+}
+
+/**
+ * Loads the template files of a directory once, on first use.
+ */
+export class TemplateLibrary {
+  private templates = new Map<string, ModelTemplate>();
+  private issues: TemplateIssue[] = [];
+  private loading: Promise<void> | null = null;
+
+  constructor(private readonly directory: string = defaultTemplatesDirectory()) {}
+
+  public getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Files that were skipped while loading, and why.
+   */
+  public async getIssues(): Promise<TemplateIssue[]> {
+    await this.ensureLoaded();
+    return [...this.issues];
+  }
+
+  public async list(filter: TemplateFilter = {}): Promise<TemplateSummary[]> {
+    await this.ensureLoaded();
+    const wanted = (filter.tags ?? []).map(tag => tag.trim().toLowerCase()).filter(Boolean);
+    return [...this.templates.values()]
+      .filter(template => wanted.every(tag => template.tags.includes(tag)))
+      .map(summarizeTemplate);
+  }
+
+  /**
+   * Throws TemplateError for an unknown template.
+   */
+  public async get(name: string): Promise<ModelTemplate> {
+    await this.ensureLoaded();
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new TemplateError(`Unknown template: ${name} (available: ${[...this.templates.keys()].join(', ') || 'none'})`);
+    }
+    return template;
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      this.issues.push({ file: this.directory, message: `Cannot read the templates directory: ${error instanceof Error ? error.message : String(error)}` });
+      return;
+    }
+
+    const files = entries.filter(file => TEMPLATE_EXTENSIONS.includes(path.extname(file).toLowerCase())).sort();
+    for (const file of files) {
+      try {
+        const content = await fs.readFile(path.join(this.directory, file), 'utf-8');
+        const template = toTemplate(parseYaml(content), file);
+        const existing = this.templates.get(template.name);
+        if (existing) {
+          throw new TemplateError(`Template '${template.name}' is already defined in ${existing.file}`);
+        }
+        this.templates.set(template.name, template);
+      } catch (error) {
+        this.issues.push({ file, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+}
+
+/**
+ * Builds a starter model and its test file from a template, with the
+ * requested features applied.
+ */
+export class ModelScaffolder {
+  constructor(
+    private readonly library: TemplateLibrary = new TemplateLibrary(),
+    private readonly validator: ModelValidator = new ModelValidator(),
+    private readonly testGenerator: ModelTestGenerator = new ModelTestGenerator(validator),
+    private readonly testRunner: ModelTestRunner = new ModelTestRunner(validator)
+  ) {}
+
+  /**
+   * Throws TemplateError for an unknown template, a feature the template does
+   * not support, or a template whose feature relations do not fit its model.
+   */
+  public async scaffold(name: string, options: ScaffoldOptions = {}): Promise<ScaffoldResult> {
+    const template = await this.library.get(name);
+    const resolved: Required<ScaffoldOptions> = {
+      customRoles: options.customRoles ?? false,
+      temporaryAccess: options.temporaryAccess ?? false,
+      modular: options.modular ?? false
+    };
+    const summary = summarizeTemplate(template);
+    const unsupported = (Object.keys(resolved) as TemplateFeature[])
+      .filter(feature => resolved[feature] && !summary.features.includes(feature));
+    if (unsupported.length > 0) {
+      throw new TemplateError(`Template ${name} does not support: ${unsupported.join(', ')}`);
+    }
+
+    const result: ScaffoldResult = {
+      valid: false,
+      diagnostics: this.validator.validate(template.model).diagnostics,
+      template: summary,
+      options: resolved,
+      dsl: '',
+      files: {},
+      testFile: `${template.name}.fga.yaml`,
+      verified: false,
+      testSummary: { tests: 0, assertions: 0, passed: 0, failed: 0 },
+      notes: []
+    };
+    if (result.diagnostics.some(d => d.severity === 'error')) {
+      return result;
+    }
+
+    const model = parseDsl(template.model).model;
+    const changed: string[] = [];
+    if (resolved.customRoles) {
+      changed.push(...this.addCustomRoles(model, template, result.notes));
+    }
+    if (resolved.temporaryAccess) {
+      changed.push(...this.addTemporaryAccess(model, template, result.notes));
+    }
+
+    result.dsl = formatDsl(model);
+    result.diagnostics = this.validator.validate(result.dsl).diagnostics;
+    if (result.diagnostics.some(d => d.severity === 'error')) {
+      return result;
+    }
+
+    let modelFile = `${template.name}.fga`;
+    if (resolved.modular) {
+      result.files = this.splitModules(model, template.modules!, result.notes);
+      modelFile = FGA_MOD_FILE;
+    } else {
+      result.files[modelFile] = result.dsl;
+    }
+
+    const tests = [...template.tests];
+    if (changed.length > 0) {
+      const generated = this.testGenerator.generate(result.dsl, { relations: [...new Set(changed)] });
+      tests.push(...((parseYaml(generated.yaml) as { tests?: unknown[] }).tests ?? []));
+      result.notes.push(`Generated tests for the relations the features changed: ${[...new Set(changed)].join(', ')}.`);
+    }
+    result.files[result.testFile] = formatTestDocument({ name: template.title, model_file: modelFile, tests });
+
+    const run = this.testRunner.run(result.files[result.testFile], { files: result.files });
+    result.verified = run.passed;
+    result.testSummary = run.summary;
+    if (!run.passed) {
+      result.notes.push(...run.errors, ...run.tests.flatMap(test =>
+        test.assertions.filter(assertion => !assertion.passed).map(assertion => `Failing test '${test.name}': ${assertion.description}`)));
+    }
+
+    result.valid = true;
+    return result;
+  }
+
+  /**
+   * Simple user-defined roles: a `role` type whose assignees can be granted
+   * each listed permission with `role:<id>#assignee` tuples.
+   */
+  private addCustomRoles(model: AuthorizationModelAst, template: ModelTemplate, notes: string[]): string[] {
+    if (model.types.some(type => type.name === ROLE_TYPE)) {
+      throw new TemplateError(`Template ${template.name} already defines a '${ROLE_TYPE}' type`);
+    }
+    const roleType = structuredClone(FEATURE_DEFINITIONS.types.find(type => type.name === ROLE_TYPE)!);
+    const userIndex = model.types.findIndex(type => type.name === 'user');
+    model.types.splice(userIndex + 1, 0, roleType);
+
+    const assignee: TypeRestriction = { type: ROLE_TYPE, relation: 'assignee', wildcard: false, range: roleType.nameRange };
+    for (const name of template.customRoles!.relations) {
+      const relation = this.findRelation(model, template, name, 'customRoles');
+      relation.rewrite = withRestriction(relation.rewrite, assignee);
+    }
+
+    const [firstType, firstRelation] = template.customRoles!.relations[0].split('#');
+    notes.push(
+      `Custom roles: a '${ROLE_TYPE}' type whose assignees can be granted ${template.customRoles!.relations.join(', ')}. ` +
+      `Grant a permission to a role with '${ROLE_TYPE}:<id>#assignee ${firstRelation} ${firstType}:<id>' and assign users with ` +
+      `'user:<id> assignee ${ROLE_TYPE}:<id>'.`
+    );
+    return [...template.customRoles!.relations, `${ROLE_TYPE}#assignee`];
+  }
+
+  /**
+   * Time-limited grants: every plain type that can be assigned to a listed
+   * relation can also be assigned `with non_expired_grant`.
+   */
+  private addTemporaryAccess(model: AuthorizationModelAst, template: ModelTemplate, notes: string[]): string[] {
+    if (!model.conditions.some(condition => condition.name === TEMPORARY_ACCESS_CONDITION)) {
+      model.conditions.push(structuredClone(FEATURE_DEFINITIONS.conditions[0]));
+    }
+
+    for (const name of template.temporaryAccess!.relations) {
+      const relation = this.findRelation(model, template, name, 'temporaryAccess');
+      if (!addConditionalRestrictions(relation.rewrite, TEMPORARY_ACCESS_CONDITION)) {
+        throw new TemplateError(`Template ${template.name}: ${name} in 'temporaryAccess' has no directly assignable user type`);
+      }
+    }
+
+    notes.push(
+      `Temporary access: ${template.temporaryAccess!.relations.join(', ')} accept grants 'with ${TEMPORARY_ACCESS_CONDITION}'. ` +
+      `Write the tuple with condition context {grant_time, grant_duration} (e.g. "1h") and pass current_time in the check context.`
+    );
+    return template.temporaryAccess!.relations;
+  }
+
+  private splitModules(model: AuthorizationModelAst, modules: Record<string, string[]>, notes: string[]): Record<string, string> {
+    const moduleOf = new Map(Object.entries(modules).flatMap(([module, types]) => types.map(type => [type, module] as const)));
+    const [firstModule] = Object.keys(modules);
+
+    model.schemaVersion = MODULAR_SCHEMA_VERSION;
+    for (const type of model.types) {
+      type.module = moduleOf.get(type.name) ?? firstModule;
+    }
+    // A condition lives in the module of the first type that uses it.
+    for (const condition of model.conditions) {
+      const user = model.types.find(type => type.relations.some(relation => usesCondition(relation.rewrite, condition.name)));
+      condition.module = user?.module ?? firstModule;
+    }
+
+    const files = formatModuleFiles(model);
+    notes.push(`Modules: ${Object.keys(files).filter(file => file !== FGA_MOD_FILE).join(', ')}, listed in ${FGA_MOD_FILE}.`);
+    return files;
+  }
+
+  private findRelation(model: AuthorizationModelAst, template: ModelTemplate, name: string, field: string) {
+    const [typeName, relationName] = name.split('#');
+    const relation = model.types.find(type => type.name === typeName)?.relations.find(candidate => candidate.name === relationName);
+    if (!relation) {
+      throw new TemplateError(`Template ${template.name}: ${name} in '${field}' is not defined in the model`);
+    }
+    return relation;
+  }
+}
+
+/**
+ * Add a type restriction to the direct assignment of a rewrite, or make the
+ * relation directly assignable to it: `admin` becomes `[role#assignee] or admin`.
+ */
+function withRestriction(rewrite: RewriteNode, restriction: TypeRestriction): RewriteNode {
+  if (rewrite.kind === 'direct') {
+    rewrite.types.push(restriction);
+    return rewrite;
+  }
+  const direct = rewrite.kind === 'union' ? rewrite.children.find(child => child.kind === 'direct') : undefined;
+  if (direct && direct.kind === 'direct') {
+    direct.types.push(restriction);
+    return rewrite;
+  }
+  const assignable: RewriteNode = { kind: 'direct', types: [restriction], range: rewrite.range };
+  return rewrite.kind === 'union'
+    ? { ...rewrite, children: [assignable, ...rewrite.children] }
+    : { kind: 'union', children: [assignable, rewrite], range: rewrite.range };
+}
+
+/**
+ * Follow each plain type restriction (`user`, not `user:*`, `group#member` or
+ * an already conditional one) with the same type `with condition`. Returns
+ * whether any restriction was added.
+ */
+function addConditionalRestrictions(node: RewriteNode, condition: string): boolean {
+  switch (node.kind) {
+    case 'direct': {
+      const plain = node.types.filter(type => !type.wildcard && !type.relation && !type.condition);
+      for (const type of plain) {
+        node.types.splice(node.types.indexOf(type) + 1, 0, { ...type, condition });
+      }
+      return plain.length > 0;
+    }
+    case 'union':
+    case 'intersection':
+      return node.children.map(child => addConditionalRestrictions(child, condition)).some(Boolean);
+    case 'exclusion':
+      // Only the base grants access; a time-limited exclusion would expire into access.
+      return addConditionalRestrictions(node.base, condition);
+    default:
+      return false;
+  }
+}
+
+function usesCondition(node: RewriteNode, condition: string): boolean {
+  switch (node.kind) {
+    case 'direct':
+      return node.types.some(type => type.condition === condition);
+    case 'union':
+    case 'intersection':
+      return node.children.some(child => usesCondition(child, condition));
+    case 'exclusion':
+      return usesCondition(node.base, condition) || usesCondition(node.subtract, condition);
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,727 @@
+import { Document, Scalar, visit } from 'yaml';
+import {
+  AuthorizationModelAst,
+  ConditionDefinition,
+  ConditionParameterType,
+  Diagnostic,
+  RewriteNode,
+  TypeRestriction,
+  parseDsl
+} from './dsl-parser.js';
+import { formatRewrite } from './dsl-formatter.js';
+import { ModelIndex, collectDirectRestrictions, formatRestriction, indexModel } from './model-index.js';
+import { ModelValidator } from './model-validator.js';
+import { CelExpr, parseCel } from './cel-expression.js';
+import { CelConditionEvaluator } from './condition-evaluator.js';
+import { ConditionEvaluator, EvaluationContext, RelationshipGraph, UserFilter } from './relationship-graph.js';
+import { RelationshipTuple } from './tuple-formats.js';
+
+export type GeneratedPathKind = 'grant' | 'blocked';
+
+/**
+ * One permission path exercised by the generated tests.
+ */
+export interface GeneratedPath {
+  relation: string;
+  kind: GeneratedPathKind;
+  description: string;
+  user: string;
+  object: string;
+  /**
+   * Result of the check with every condition satisfied; `false` for a
+   * `grant` path (or `true` for a `blocked` one) points at a modeling issue.
+   */
+  expected?: boolean;
+  conditions: string[];
+}
+
+export interface TestGenerationOptions {
+  /**
+   * Name of the generated test document.
+   */
+  name?: string;
+  /**
+   * Only generate tests for these relations (`type#relation`).
+   */
+  relations?: string[];
+}
+
+export interface TestGenerationResult {
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  yaml: string;
+  summary: { tests: number; tuples: number; assertions: number; paths: number; blocked: number };
+  paths: GeneratedPath[];
+  notes: string[];
+}
+
+interface GrantPath {
+  description: string;
+  slug: string;
+  subjectType: string;
+  tuples: RelationshipTuple[];
+  conditions: string[];
+}
+
+interface BlockedPath extends GrantPath {
+  /**
+   * User name prefix: `blocked` for `but not`, `partial` for a missing
+   * intersection branch.
+   */
+  prefix: string;
+}
+
+interface CheckEntry {
+  user: string;
+  object?: string;
+  objects?: string[];
+  context?: EvaluationContext;
+  assertions: Record<string, boolean>;
+}
+
+interface GeneratedTest {
+  name: string;
+  description: string;
+  tuples: RelationshipTuple[];
+  check: CheckEntry[];
+  list_objects: { user: string; type: string; context?: EvaluationContext; assertions: Record<string, string[]> }[];
+  list_users: { object: string; user_filter: UserFilter[]; context?: EvaluationContext; assertions: Record<string, { users: string[] }> }[];
+}
+
+interface ConditionContexts {
+  pass?: EvaluationContext;
+  fail?: EvaluationContext;
+}
+
+// Placeholder ids, replaced by readable names once a path is chosen.
+const SUBJECT = '\u0000subject';
+const TARGET = '\u0000target';
+
+const MAX_DEPTH = 4;
+const MAX_CASES = 24;
+const MAX_CONTEXT_ATTEMPTS = 4096;
+
+const NAMES = [
+  'anne', 'beth', 'carl', 'dana', 'emma', 'fred', 'gina', 'hank', 'iris', 'jack', 'kate', 'liam', 'mona',
+  'nick', 'olga', 'paul', 'quinn', 'rosa', 'sam', 'tina', 'umar', 'vera', 'walt', 'xena', 'yuri', 'zoe'
+];
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'path';
+}
+
+function tupleKey(tuple: RelationshipTuple): string {
+  return `${tuple.user} ${tuple.relation} ${tuple.object}`;
+}
+
+function shortestPerSubject(paths: GrantPath[]): GrantPath[] {
+  const shortest = new Map<string, GrantPath>();
+  for (const path of paths) {
+    const current = shortest.get(path.subjectType);
+    if (!current || path.tuples.length < current.tuples.length) {
+      shortest.set(path.subjectType, path);
+    }
+  }
+  return [...shortest.values()];
+}
+
+function collectLiterals(expression: CelExpr, literals: { strings: string[]; numbers: number[] }) {
+  switch (expression.kind) {
+    case 'literal':
+      if (expression.value.type === 'string') {
+        literals.strings.push(expression.value.value);
+      } else if (expression.value.type === 'int' || expression.value.type === 'uint') {
+        literals.numbers.push(Number(expression.value.value));
+      } else if (expression.value.type === 'double') {
+        literals.numbers.push(expression.value.value);
+      }
+      return;
+    case 'ident':
+      return;
+    case 'select':
+    case 'unary':
+      collectLiterals(expression.operand, literals);
+      return;
+    case 'index':
+      collectLiterals(expression.operand, literals);
+      collectLiterals(expression.index, literals);
+      return;
+    case 'call':
+      if (expression.target) {
+        collectLiterals(expression.target, literals);
+      }
+      expression.args.forEach(arg => collectLiterals(arg, literals));
+      return;
+    case 'list':
+      expression.elements.forEach(element => collectLiterals(element, literals));
+      return;
+    case 'map':
+      expression.entries.forEach(entry => {
+        collectLiterals(entry.key, literals);
+        collectLiterals(entry.value, literals);
+      });
+      return;
+    case 'binary':
+      collectLiterals(expression.left, literals);
+      collectLiterals(expression.right, literals);
+      return;
+    case 'conditional':
+      collectLiterals(expression.test, literals);
+      collectLiterals(expression.then, literals);
+      collectLiterals(expression.otherwise, literals);
+      return;
+  }
+}
+
+function unique<T>(values: T[]): T[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = JSON.stringify(value);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Candidate context values for a parameter, seeded with the literals used in
+ * the condition so that both sides of comparisons are reachable.
+ */
+function candidateValues(type: ConditionParameterType, literals: { strings: string[]; numbers: number[] }): unknown[] {
+  const timestamps = literals.strings.filter(text => /^\d{4}-\d{2}-\d{2}T/.test(text) && !Number.isNaN(Date.parse(text)));
+  switch (type.name) {
+    case 'string':
+      return unique([...literals.strings, 'other', '']);
+    case 'int':
+      return unique([...literals.numbers.flatMap(n => [Math.trunc(n), Math.trunc(n) + 1, Math.trunc(n) - 1]), 0, 1, 100]);
+    case 'uint':
+      return unique([...literals.numbers.flatMap(n => [Math.trunc(n), Math.trunc(n) + 1, Math.trunc(n) - 1]), 0, 1, 100].filter(n => n >= 0));
+    case 'double':
+      return unique([...literals.numbers.flatMap(n => [n, n + 1, n - 1]), 0, 1.5]);
+    case 'bool':
+      return [true, false];
+    case 'duration':
+      return unique([...literals.strings.filter(text => /^-?(\d+(\.\d+)?(ns|us|µs|ms|s|m|h))+$/.test(text)), '1h', '10m', '0s']);
+    case 'timestamp': {
+      const shifted = timestamps.flatMap(text => [-1, 1].map(hours => new Date(Date.parse(text) + hours * 3600000).toISOString().replace('.000Z', 'Z')));
+      return unique([...timestamps, ...shifted, '2024-01-01T00:00:00Z', '2024-01-01T00:30:00Z', '2024-01-01T02:00:00Z']);
+    }
+    case 'ipaddress': {
+      const networks = literals.strings.filter(text => /^[0-9a-fA-F.:]+\/\d+$/.test(text)).map(text => text.split('/')[0]);
+      return unique([...networks, ...literals.strings.filter(text => /^\d+\.\d+\.\d+\.\d+$/.test(text)), '192.168.0.1', '203.0.113.7']);
+    }
+    case 'list': {
+      const items = candidateValues(type.genericTypes[0] ?? { name: 'any', genericTypes: [] }, literals).slice(0, 3);
+      return [items.slice(0, 1), [], items];
+    }
+    case 'map': {
+      const values = candidateValues(type.genericTypes[0] ?? { name: 'any', genericTypes: [] }, literals).slice(0, 2);
+      const keys = literals.strings.length > 0 ? literals.strings.slice(0, 2) : ['key'];
+      return [Object.fromEntries(keys.map(key => [key, values[0]])), {}, Object.fromEntries(keys.map(key => [key, values[1] ?? values[0]]))];
+    }
+    default:
+      return unique([...literals.strings, ...literals.numbers, true, 'other']);
+  }
+}
+
+/**
+ * Serialize a `.fga.yaml` test document. Timestamps are quoted so that YAML
+ * 1.1 readers keep them as strings.
+ */
+export function formatTestDocument(document: object): string {
+  const yaml = new Document(document, { aliasDuplicateObjects: false });
+  visit(yaml, {
+    Scalar(_, node) {
+      if (typeof node.value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(node.value)) {
+        node.type = Scalar.QUOTE_DOUBLE;
+      }
+    }
+  });
+  return yaml.toString({ lineWidth: 0 });
+}
+
+/**
+ * Generates `.fga.yaml` test suites that exercise every way a model can
+ * grant (or deny) each relation: direct assignment, wildcards, usersets,
+ * `X from Y`, computed relations, intersections and exclusions.
+ */
+export class ModelTestGenerator {
+  private tokens = 0;
+  private readonly contexts = new Map<string, ConditionContexts>();
+
+  constructor(
+    private readonly validator: ModelValidator = new ModelValidator(),
+    private readonly conditionEvaluator: ConditionEvaluator = new CelConditionEvaluator()
+  ) {}
+
+  public generate(source: string, options: TestGenerationOptions = {}): TestGenerationResult {
+    const result: TestGenerationResult = {
+      valid: false,
+      diagnostics: this.validator.validate(source).diagnostics,
+      yaml: '',
+      summary: { tests: 0, tuples: 0, assertions: 0, paths: 0, blocked: 0 },
+      paths: [],
+      notes: []
+    };
+    if (result.diagnostics.some(d => d.severity === 'error')) {
+      return result;
+    }
+
+    const model = parseDsl(source).model;
+    const index = indexModel(model);
+    this.contexts.clear();
+
+    const wanted = new Set(options.relations ?? []);
+    for (const name of wanted) {
+      const [type, relation] = name.split('#');
+      if (!index.types.get(type)?.has(relation)) {
+        result.notes.push(`${name} is not defined in the model`);
+      }
+    }
+
+    const tests: GeneratedTest[] = [];
+    for (const [type, relations] of index.types) {
+      for (const relation of relations.keys()) {
+        if (wanted.size > 0 && !wanted.has(`${type}#${relation}`)) {
+          continue;
+        }
+        const test = this.generateTest(model, index, type, relation, result);
+        if (test) {
+          tests.push(test);
+        }
+      }
+    }
+
+    const document = {
+      name: options.name ?? 'Generated model tests',
+      model: source.endsWith('\n') ? source : `${source}\n`,
+      tests
+    };
+    result.yaml = formatTestDocument(document);
+    result.summary = {
+      tests: tests.length,
+      tuples: tests.reduce((total, test) => total + test.tuples.length, 0),
+      assertions: tests.reduce((total, test) =>
+        total +
+        test.check.reduce((sum, entry) => sum + (entry.objects?.length ?? 1), 0) +
+        test.list_objects.length +
+        test.list_users.length, 0),
+      paths: result.paths.filter(path => path.kind === 'grant').length,
+      blocked: result.paths.filter(path => path.kind === 'blocked').length
+    };
+    result.valid = true;
+    return result;
+  }
+
+  private generateTest(
+    model: AuthorizationModelAst,
+    index: ModelIndex,
+    type: string,
+    relation: string,
+    result: TestGenerationResult
+  ): GeneratedTest | undefined {
+    const name = `${type}#${relation}`;
+    const rewrite = index.types.get(type)!.get(relation)!.rewrite;
+    const cases = [
+      ...this.grantPaths(index, type, TARGET, relation, rewrite, 0).map(path => ({ ...path, kind: 'grant' as const, prefix: relation })),
+      ...this.blockedPaths(index, type, TARGET, relation, rewrite).map(path => ({ ...path, kind: 'blocked' as const }))
+    ].slice(0, MAX_CASES);
+    if (cases.length === 0) {
+      result.notes.push(`${name}: no combination of tuples can grant this relation, so no tests were generated`);
+      return undefined;
+    }
+
+    // Readable names: users are prefixed with how they get access (section 10).
+    const names = [...NAMES];
+    let nameCount = 0;
+    const nextName = (prefix: string) => {
+      const base = names[nameCount % names.length];
+      const suffix = nameCount >= names.length ? `_${Math.floor(nameCount / names.length) + 1}` : '';
+      nameCount++;
+      return `${prefix}_${base}${suffix}`;
+    };
+    const objectCounts = new Map<string, number>();
+    const usedSlugs = new Set<string>();
+
+    const materialized = cases.map(path => {
+      let slug = path.slug;
+      for (let n = 2; usedSlugs.has(slug); n++) {
+        slug = `${path.slug}_${n}`;
+      }
+      usedSlugs.add(slug);
+
+      const ids = new Map<string, string>([[TARGET, slug], [SUBJECT, nextName(path.prefix)]]);
+      const rename = (ref: string) => {
+        const colon = ref.indexOf(':');
+        const hash = ref.indexOf('#', colon);
+        const refType = ref.slice(0, colon);
+        const id = ref.slice(colon + 1, hash < 0 ? undefined : hash);
+        if (!id.startsWith('\u0000')) {
+          return ref;
+        }
+        if (!ids.has(id)) {
+          const count = (objectCounts.get(refType) ?? 0) + 1;
+          objectCounts.set(refType, count);
+          ids.set(id, `${refType}_${count}`);
+        }
+        return `${refType}:${ids.get(id)}${hash < 0 ? '' : ref.slice(hash)}`;
+      };
+
+      return {
+        ...path,
+        user: `${path.subjectType}:${ids.get(SUBJECT)}`,
+        object: `${type}:${slug}`,
+        tuples: path.tuples.map(tuple => ({ ...tuple, user: rename(tuple.user), object: rename(tuple.object) })),
+        conditions: [...new Set(path.conditions)]
+      };
+    });
+
+    const tuples: RelationshipTuple[] = [];
+    const seen = new Set<string>();
+    for (const tuple of materialized.flatMap(path => path.tuples)) {
+      if (!seen.has(tupleKey(tuple))) {
+        seen.add(tupleKey(tuple));
+        tuples.push(tuple);
+      }
+    }
+
+    // Every condition in the test is satisfied unless a check says otherwise,
+    // so unrelated conditional tuples never fail for missing context.
+    const conditionNames = [...new Set(materialized.flatMap(path => path.conditions))];
+    let baseContext: EvaluationContext | undefined;
+    for (const conditionName of conditionNames) {
+      const contexts = this.conditionContexts(index.conditions.get(conditionName)!);
+      if (!contexts.pass) {
+        result.notes.push(`${name}: could not find a context that satisfies condition '${conditionName}'`);
+      }
+      if (!contexts.fail) {
+        result.notes.push(`${name}: could not find a context that fails condition '${conditionName}'`);
+      }
+      baseContext = { ...baseContext, ...contexts.pass };
+    }
+    const withContext = (context: EvaluationContext | undefined) => (context && Object.keys(context).length > 0 ? { context } : {});
+
+    const graph = new RelationshipGraph(model, tuples, this.conditionEvaluator);
+    const evaluate = <T>(description: string, compute: () => T): T | undefined => {
+      try {
+        return compute();
+      } catch (error) {
+        result.notes.push(`${name}: skipped ${description}: ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
+      }
+    };
+
+    const test: GeneratedTest = {
+      name,
+      description: `Paths: ${materialized.map(path => `${path.kind === 'blocked' ? 'denied by ' : ''}${path.description}`).join('; ')}`,
+      tuples,
+      check: [],
+      list_objects: [],
+      list_users: []
+    };
+
+    for (const path of materialized) {
+      const expected = evaluate(`check ${path.user} ${relation} ${path.object}`, () => graph.check(path.user, relation, path.object, baseContext ?? {}));
+      if (expected !== undefined) {
+        test.check.push({ user: path.user, object: path.object, ...withContext(baseContext), assertions: { [relation]: expected } });
+      }
+      result.paths.push({
+        relation: name,
+        kind: path.kind,
+        description: path.description,
+        user: path.user,
+        object: path.object,
+        ...(expected !== undefined ? { expected } : {}),
+        conditions: path.conditions
+      });
+      if (expected !== undefined && expected !== (path.kind === 'grant')) {
+        result.notes.push(`${name}: '${path.description}' ${path.kind === 'grant' ? 'does not grant access' : 'still grants access'}`);
+      }
+
+      // The other side of each condition boundary.
+      for (const conditionName of path.conditions) {
+        const failing = this.conditionContexts(index.conditions.get(conditionName)!).fail;
+        if (!failing) {
+          continue;
+        }
+        const context = { ...baseContext, ...failing };
+        const denied = evaluate(`check ${path.user} ${relation} ${path.object} with '${conditionName}' false`, () => graph.check(path.user, relation, path.object, context));
+        if (denied !== undefined) {
+          test.check.push({ user: path.user, object: path.object, context, assertions: { [relation]: denied } });
+        }
+      }
+    }
+
+    // Users with no tuples at all, grouped by the result they get.
+    const subjectTypes = [...new Set(materialized.map(path => path.subjectType))];
+    const objects = materialized.map(path => path.object);
+    for (const subjectType of subjectTypes) {
+      const guest = `${subjectType}:${nextName('guest')}`;
+      const results = new Map<boolean, string[]>();
+      for (const object of objects) {
+        const allowed = evaluate(`check ${guest} ${relation} ${object}`, () => graph.check(guest, relation, object, baseContext ?? {}));
+        if (allowed !== undefined) {
+          results.set(allowed, [...(results.get(allowed) ?? []), object]);
+        }
+      }
+      for (const [allowed, granted] of [...results].sort(([a], [b]) => Number(a) - Number(b))) {
+        test.check.push({
+          user: guest,
+          ...(granted.length === 1 ? { object: granted[0] } : { objects: granted }),
+          ...withContext(baseContext),
+          assertions: { [relation]: allowed }
+        });
+      }
+    }
+
+    for (const user of [...new Set(materialized.filter(path => path.kind === 'grant').map(path => path.user))]) {
+      const listed = evaluate(`list_objects for ${user}`, () => graph.listObjects(user, relation, type, baseContext ?? {}));
+      if (listed !== undefined) {
+        test.list_objects.push({ user, type, ...withContext(baseContext), assertions: { [relation]: listed } });
+      }
+    }
+
+    // As with `fga model test`, a public object lists `user:*` rather than
+    // every user the suite mentions; other users only appear through a tuple.
+    const filters = subjectTypes.map(subjectType => ({ type: subjectType }));
+    for (const object of objects) {
+      const listed = evaluate(`list_users for ${object}`, () => graph.listUsers(object, relation, filters, baseContext ?? {}));
+      if (listed !== undefined) {
+        test.list_users.push({ object, user_filter: filters, ...withContext(baseContext), assertions: { [relation]: { users: listed } } });
+      }
+    }
+
+    return test;
+  }
+
+  private token(): string {
+    return `\u0000${++this.tokens}`;
+  }
+
+  /**
+   * Shortest way to grant `relation` on `object`, one per subject type.
+   */
+  private relationPaths(index: ModelIndex, type: string, object: string, relation: string, depth: number): GrantPath[] {
+    const definition = index.types.get(type)?.get(relation);
+    if (!definition || depth >= MAX_DEPTH) {
+      return [];
+    }
+    return shortestPerSubject(this.grantPaths(index, type, object, relation, definition.rewrite, depth + 1));
+  }
+
+  /**
+   * Every way the rewrite can grant access, each as a minimal set of tuples
+   * around a placeholder subject.
+   */
+  private grantPaths(index: ModelIndex, type: string, object: string, relation: string, node: RewriteNode, depth: number): GrantPath[] {
+    switch (node.kind) {
+      case 'direct':
+        return node.types.flatMap(restriction => this.directPaths(index, type, object, relation, restriction, depth));
+
+      case 'computed':
+        return this.relationPaths(index, type, object, node.relation, depth).map(path => ({
+          ...path,
+          description: `via ${node.relation}`,
+          slug: `via_${node.relation}`
+        }));
+
+      case 'tupleToUserset': {
+        const tupleset = index.types.get(type)?.get(node.tupleset);
+        const parents = (tupleset ? collectDirectRestrictions(tupleset.rewrite) : [])
+          .filter(restriction => !restriction.wildcard && !restriction.relation && index.types.get(restriction.type)?.has(node.relation))
+          .filter((restriction, i, all) => all.findIndex(other => other.type === restriction.type) === i);
+        return parents.flatMap(parent => {
+          const parentId = this.token();
+          const link: RelationshipTuple = { user: `${parent.type}:${parentId}`, relation: node.tupleset, object: `${type}:${object}` };
+          if (parent.condition) {
+            link.condition = { name: parent.condition };
+          }
+          const suffix = parents.length > 1 ? ` (${parent.type})` : '';
+          return this.relationPaths(index, parent.type, parentId, node.relation, depth).map(path => ({
+            description: `${node.relation} from ${node.tupleset}${suffix}`,
+            slug: slugify(`${node.relation} from ${node.tupleset}${suffix}`),
+            subjectType: path.subjectType,
+            tuples: [link, ...path.tuples],
+            conditions: [...(parent.condition ? [parent.condition] : []), ...path.conditions]
+          }));
+        });
+      }
+
+      case 'union':
+        return node.children.flatMap(child => this.grantPaths(index, type, object, relation, child, depth));
+
+      case 'intersection':
+        return this.intersectionPicks(index, type, object, relation, node.children, depth).map(picks => ({
+          description: picks.map(pick => pick.description).join(' and '),
+          slug: slugify(picks.map(pick => pick.slug).join('_and_')),
+          subjectType: picks[0].subjectType,
+          tuples: picks.flatMap(pick => pick.tuples),
+          conditions: picks.flatMap(pick => pick.conditions)
+        }));
+
+      case 'exclusion':
+        return this.grantPaths(index, type, object, relation, node.base, depth);
+    }
+  }
+
+  private directPaths(
+    index: ModelIndex,
+    type: string,
+    object: string,
+    relation: string,
+    restriction: TypeRestriction,
+    depth: number
+  ): GrantPath[] {
+    const withCondition = (tuple: RelationshipTuple): RelationshipTuple =>
+      restriction.condition ? { ...tuple, condition: { name: restriction.condition } } : tuple;
+    const conditions = restriction.condition ? [restriction.condition] : [];
+    const description = `[${formatRestriction(restriction)}]`;
+    const conditionSlug = restriction.condition ? `_with_${restriction.condition}` : '';
+
+    if (restriction.wildcard) {
+      return [{
+        description,
+        slug: `public_${restriction.type}${conditionSlug}`,
+        subjectType: restriction.type,
+        tuples: [withCondition({ user: `${restriction.type}:*`, relation, object: `${type}:${object}` })],
+        conditions
+      }];
+    }
+
+    if (restriction.relation) {
+      const setId = this.token();
+      const userset = withCondition({ user: `${restriction.type}:${setId}#${restriction.relation}`, relation, object: `${type}:${object}` });
+      return this.relationPaths(index, restriction.type, setId, restriction.relation, depth).map(path => ({
+        description,
+        slug: `via_${restriction.type}_${restriction.relation}${conditionSlug}`,
+        subjectType: path.subjectType,
+        tuples: [userset, ...path.tuples],
+        conditions: [...conditions, ...path.conditions]
+      }));
+    }
+
+    return [{
+      description,
+      slug: `direct_${restriction.type}${conditionSlug}`,
+      subjectType: restriction.type,
+      tuples: [withCondition({ user: `${restriction.type}:${SUBJECT}`, relation, object: `${type}:${object}` })],
+      conditions
+    }];
+  }
+
+  /**
+   * For each subject type every branch can grant, the shortest path of each
+   * branch.
+   */
+  private intersectionPicks(
+    index: ModelIndex,
+    type: string,
+    object: string,
+    relation: string,
+    children: RewriteNode[],
+    depth: number
+  ): GrantPath[][] {
+    const options = children.map(child => shortestPerSubject(this.grantPaths(index, type, object, relation, child, depth)));
+    return (options[0] ?? [])
+      .map(first => options.map(paths => paths.find(path => path.subjectType === first.subjectType)))
+      .filter((picks): picks is GrantPath[] => picks.every(pick => pick !== undefined));
+  }
+
+  /**
+   * Tuple sets that get close to access but are cut off by `but not` or by a
+   * missing intersection branch.
+   */
+  private blockedPaths(index: ModelIndex, type: string, object: string, relation: string, node: RewriteNode): BlockedPath[] {
+    switch (node.kind) {
+      case 'union':
+        return node.children.flatMap(child => this.blockedPaths(index, type, object, relation, child));
+
+      case 'exclusion': {
+        const subtracted = shortestPerSubject(this.grantPaths(index, type, object, relation, node.subtract, 0));
+        const subtract = formatRewrite(node.subtract);
+        const blocked = shortestPerSubject(this.grantPaths(index, type, object, relation, node.base, 0)).flatMap(base => {
+          const cut = subtracted.find(path => path.subjectType === base.subjectType);
+          return cut
+            ? [{
+              description: `${base.description} but not ${subtract}`,
+              slug: slugify(`${base.slug}_but_not_${subtract}`),
+              subjectType: base.subjectType,
+              tuples: [...base.tuples, ...cut.tuples],
+              conditions: [...base.conditions, ...cut.conditions],
+              prefix: 'blocked'
+            }]
+            : [];
+        });
+        return [...blocked, ...this.blockedPaths(index, type, object, relation, node.base)];
+      }
+
+      case 'intersection':
+        return this.intersectionPicks(index, type, object, relation, node.children, 0).flatMap(picks =>
+          picks.map((_, missing) => {
+            const kept = picks.filter((__, i) => i !== missing);
+            const without = formatRewrite(node.children[missing]);
+            return {
+              description: `${kept.map(pick => pick.description).join(' and ')} without ${without}`,
+              slug: slugify(`without_${without}`),
+              subjectType: picks[0].subjectType,
+              tuples: kept.flatMap(pick => pick.tuples),
+              conditions: kept.flatMap(pick => pick.conditions),
+              prefix: 'partial'
+            };
+          })
+        );
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Find request contexts on both sides of a condition by trying values
+   * derived from the expression's literals.
+   */
+  private conditionContexts(condition: ConditionDefinition): ConditionContexts {
+    const cached = this.contexts.get(condition.name);
+    if (cached) {
+      return cached;
+    }
+
+    const literals = { strings: [] as string[], numbers: [] as number[] };
+    try {
+      collectLiterals(parseCel(condition.expression), literals);
+    } catch {
+      // Invalid expressions are reported by the validator.
+    }
+    const candidates = condition.parameters.map(parameter => candidateValues(parameter.type, literals));
+
+    const contexts: ConditionContexts = {};
+    const positions = candidates.map(() => 0);
+    for (let attempt = 0; attempt < MAX_CONTEXT_ATTEMPTS && (!contexts.pass || !contexts.fail); attempt++) {
+      const context = Object.fromEntries(condition.parameters.map((parameter, i) => [parameter.name, candidates[i][positions[i]]]));
+      try {
+        const outcome = this.conditionEvaluator.evaluate(condition, context);
+        if (outcome && !contexts.pass) {
+          contexts.pass = context;
+        } else if (!outcome && !contexts.fail) {
+          contexts.fail = context;
+        }
+      } catch {
+        // Runtime errors (e.g. overflow) are neither side of the boundary.
+      }
+
+      // Advance the mixed-radix counter over all candidate combinations.
+      let digit = 0;
+      while (digit < positions.length && ++positions[digit] === candidates[digit].length) {
+        positions[digit++] = 0;
+      }
+      if (digit === positions.length) {
+        break;
+      }
+    }
+
+    this.contexts.set(condition.name, contexts);
+    return contexts;
+  }
+}
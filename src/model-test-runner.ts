@@ -0,0 +1,357 @@
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { AuthorizationModelAst, Diagnostic, parseDsl } from './dsl-parser.js';
+import { ModelValidator, formatDiagnostics } from './model-validator.js';
+import { parseModelJson } from './model-json.js';
+import { ModularModelComposer } from './modular-model.js';
+import { ConditionEvaluator, EvaluationContext, RelationshipGraph, UserFilter } from './relationship-graph.js';
+import { CelConditionEvaluator } from './condition-evaluator.js';
+import { RelationshipTuple, normalizeTuple, parseTupleFile } from './tuple-formats.js';
+
+export type AssertionKind = 'check' | 'list_objects' | 'list_users';
+
+export interface AssertionResult {
+  kind: AssertionKind;
+  description: string;
+  relation: string;
+  expected: boolean | string[];
+  actual?: boolean | string[];
+  passed: boolean;
+  error?: string;
+}
+
+export interface TestCaseResult {
+  name: string;
+  passed: boolean;
+  assertions: AssertionResult[];
+}
+
+export interface TestRunResult {
+  name?: string;
+  passed: boolean;
+  summary: {
+    tests: number;
+    assertions: number;
+    passed: number;
+    failed: number;
+  };
+  tests: TestCaseResult[];
+  diagnostics: Diagnostic[];
+  errors: string[];
+}
+
+export interface TestRunOptions {
+  /**
+   * Contents of files referenced by `model_file`, `tuple_file` and
+   * `tuple_files`, keyed by the path used in the test document.
+   */
+  files?: Record<string, string>;
+}
+
+interface CheckTest {
+  user?: string;
+  users?: string[];
+  object?: string;
+  objects?: string[];
+  context?: EvaluationContext;
+  assertions?: Record<string, boolean>;
+}
+
+interface ListObjectsTest {
+  user: string;
+  type: string;
+  context?: EvaluationContext;
+  assertions?: Record<string, string[] | null>;
+}
+
+interface ListUsersTest {
+  object: string;
+  user_filter?: UserFilter[];
+  context?: EvaluationContext;
+  assertions?: Record<string, { users?: string[] | null } | null>;
+}
+
+interface TupleSource {
+  tuples?: unknown[];
+  tuple_file?: string;
+  tuple_files?: string[];
+}
+
+interface FgaTest extends TupleSource {
+  name?: string;
+  description?: string;
+  check?: CheckTest[];
+  list_objects?: ListObjectsTest[];
+  list_users?: ListUsersTest[];
+}
+
+interface FgaTestDocument extends TupleSource {
+  name?: string;
+  model?: string;
+  model_file?: string;
+  tests?: FgaTest[];
+}
+
+class TestDocumentError extends Error {}
+
+/**
+ * Runs `.fga.yaml` test documents in-process against a RelationshipGraph.
+ */
+export class ModelTestRunner {
+  constructor(
+    private readonly validator: ModelValidator = new ModelValidator(),
+    private readonly conditionEvaluator: ConditionEvaluator = new CelConditionEvaluator()
+  ) {}
+
+  public run(source: string, options: TestRunOptions = {}): TestRunResult {
+    const result: TestRunResult = {
+      passed: false,
+      summary: { tests: 0, assertions: 0, passed: 0, failed: 0 },
+      tests: [],
+      diagnostics: [],
+      errors: []
+    };
+
+    let document: FgaTestDocument;
+    let model: AuthorizationModelAst;
+    let tuples: RelationshipTuple[];
+    try {
+      document = this.parseDocument(source);
+      if (document.name) {
+        result.name = document.name;
+      }
+      const loaded = this.loadModel(document, options);
+      result.diagnostics = loaded.diagnostics;
+      if (loaded.diagnostics.some(d => d.severity === 'error')) {
+        result.errors.push('The model has errors; fix them before running tests');
+        return result;
+      }
+      model = loaded.model;
+      tuples = this.loadTuples(document, options, 'document');
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error));
+      return result;
+    }
+
+    (document.tests ?? []).forEach((test, i) => {
+      const name = test.name ?? `test ${i + 1}`;
+      try {
+        const graph = new RelationshipGraph(
+          model,
+          [...tuples, ...this.loadTuples(test, options, `test '${name}'`)],
+          this.conditionEvaluator
+        );
+        const assertions = this.runTest(test, graph);
+        result.tests.push({ name, passed: assertions.every(a => a.passed), assertions });
+      } catch (error) {
+        result.errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+        result.tests.push({ name, passed: false, assertions: [] });
+      }
+    });
+
+    const assertions = result.tests.flatMap(test => test.assertions);
+    result.summary = {
+      tests: result.tests.length,
+      assertions: assertions.length,
+      passed: assertions.filter(a => a.passed).length,
+      failed: assertions.filter(a => !a.passed).length
+    };
+    result.passed = result.errors.length === 0 && result.tests.every(test => test.passed);
+    return result;
+  }
+
+  private parseDocument(source: string): FgaTestDocument {
+    let data: unknown;
+    try {
+      data = parseYaml(source);
+    } catch (error) {
+      throw new TestDocumentError(`Invalid YAML: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new TestDocumentError('The test document must be a YAML mapping');
+    }
+    const document = data as FgaTestDocument;
+    if (document.tests !== undefined && !Array.isArray(document.tests)) {
+      throw new TestDocumentError(`'tests' must be a list`);
+    }
+    return document;
+  }
+
+  private loadModel(document: FgaTestDocument, options: TestRunOptions): { model: AuthorizationModelAst; diagnostics: Diagnostic[] } {
+    if (document.model && document.model_file) {
+      throw new TestDocumentError(`Use either 'model' or 'model_file', not both`);
+    }
+
+    if (typeof document.model === 'string') {
+      return this.analyze(parseDsl(document.model));
+    }
+    if (typeof document.model_file !== 'string') {
+      throw new TestDocumentError(`The test document needs a 'model' or 'model_file'`);
+    }
+
+    const file = document.model_file;
+    const extension = path.extname(file).toLowerCase();
+    if (extension === '.fga') {
+      return this.analyze(parseDsl(this.readFile(file, options, 'model_file'), { file }));
+    }
+    if (extension === '.json') {
+      return this.analyze(parseModelJson(this.readFile(file, options, 'model_file'), { file }));
+    }
+    if (extension === '.mod') {
+      const { model, diagnostics } = new ModularModelComposer(this.validator).load(
+        this.readFile(file, options, 'model_file'),
+        options.files ?? {},
+        { modFile: file }
+      );
+      return { model, diagnostics };
+    }
+    throw new TestDocumentError(`model_file '${file}' is not supported, expected a .fga, .json or fga.mod file`);
+  }
+
+  private analyze(parsed: { model: AuthorizationModelAst; diagnostics: Diagnostic[] }) {
+    const diagnostics = [...parsed.diagnostics, ...this.validator.analyze(parsed.model)];
+    return { model: parsed.model, diagnostics };
+  }
+
+  private loadTuples(source: TupleSource, options: TestRunOptions, label: string): RelationshipTuple[] {
+    const tuples: RelationshipTuple[] = [];
+
+    if (source.tuples !== undefined && source.tuples !== null) {
+      if (!Array.isArray(source.tuples)) {
+        throw new TestDocumentError(`${label}: 'tuples' must be a list`);
+      }
+      source.tuples.forEach((raw, i) => tuples.push(normalizeTuple(raw, `${label} tuple ${i + 1}`)));
+    }
+
+    const files = [...(source.tuple_file ? [source.tuple_file] : []), ...(source.tuple_files ?? [])];
+    for (const file of files) {
+      tuples.push(...parseTupleFile(file, this.readFile(file, options, 'tuple_file')));
+    }
+
+    return tuples;
+  }
+
+  private readFile(name: string, options: TestRunOptions, field: string): string {
+    const files = options.files ?? {};
+    const normalize = (value: string) => path.posix.normalize(value.replace(/\\/g, '/')).replace(/^(\.\/)+/, '');
+    const wanted = normalize(name);
+
+    const key = Object.keys(files).find(candidate => normalize(candidate) === wanted) ??
+      Object.keys(files).find(candidate => path.posix.basename(normalize(candidate)) === path.posix.basename(wanted));
+    if (key === undefined) {
+      throw new TestDocumentError(`File '${name}' referenced by ${field} was not provided in 'files'`);
+    }
+    return files[key];
+  }
+
+  private runTest(test: FgaTest, graph: RelationshipGraph): AssertionResult[] {
+    const results: AssertionResult[] = [];
+
+    for (const check of test.check ?? []) {
+      const users = check.users ?? (check.user ? [check.user] : []);
+      const objects = check.objects ?? (check.object ? [check.object] : []);
+      if (users.length === 0 || objects.length === 0) {
+        throw new TestDocumentError(`check entries need a 'user' (or 'users') and an 'object' (or 'objects')`);
+      }
+      for (const user of users) {
+        for (const object of objects) {
+          for (const [relation, expected] of Object.entries(check.assertions ?? {})) {
+            results.push(this.assert(
+              'check',
+              `${user} ${relation} ${object}`,
+              relation,
+              Boolean(expected),
+              () => graph.check(user, relation, object, check.context ?? {})
+            ));
+          }
+        }
+      }
+    }
+
+    for (const listObjects of test.list_objects ?? []) {
+      for (const [relation, expected] of Object.entries(listObjects.assertions ?? {})) {
+        results.push(this.assert(
+          'list_objects',
+          `${listObjects.user} ${relation} ${listObjects.type}:?`,
+          relation,
+          [...(expected ?? [])].sort(),
+          () => graph.listObjects(listObjects.user, relation, listObjects.type, listObjects.context ?? {})
+        ));
+      }
+    }
+
+    for (const listUsers of test.list_users ?? []) {
+      const filters = listUsers.user_filter ?? [];
+      if (filters.length === 0) {
+        throw new TestDocumentError(`list_users entries need a 'user_filter'`);
+      }
+      for (const [relation, expected] of Object.entries(listUsers.assertions ?? {})) {
+        results.push(this.assert(
+          'list_users',
+          `? ${relation} ${listUsers.object} (${filters.map(f => f.relation ? `${f.type}#${f.relation}` : f.type).join(', ')})`,
+          relation,
+          [...(expected?.users ?? [])].sort(),
+          () => graph.listUsers(listUsers.object, relation, filters, listUsers.context ?? {})
+        ));
+      }
+    }
+
+    return results;
+  }
+
+  private assert(
+    kind: AssertionKind,
+    description: string,
+    relation: string,
+    expected: boolean | string[],
+    evaluate: () => boolean | string[]
+  ): AssertionResult {
+    try {
+      const actual = evaluate();
+      const passed = JSON.stringify(actual) === JSON.stringify(expected);
+      return { kind, description, relation, expected, actual, passed };
+    } catch (error) {
+      return {
+        kind,
+        description,
+        relation,
+        expected,
+        passed: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+}
+
+/**
+ * Render a test run as a human-readable report.
+ */
+export function formatTestRun(result: TestRunResult): string {
+  const lines: string[] = [];
+  const { summary } = result;
+  lines.push(
+    `${result.name ? `${result.name}: ` : ''}${result.passed ? 'PASSED' : 'FAILED'} - ` +
+    `${summary.passed}/${summary.assertions} assertions passed in ${summary.tests} test(s)`
+  );
+
+  for (const error of result.errors) {
+    lines.push(`ERROR ${error}`);
+  }
+  if (result.diagnostics.length > 0) {
+    lines.push(formatDiagnostics(result.diagnostics));
+  }
+
+  for (const test of result.tests) {
+    lines.push('', `${test.passed ? 'PASS' : 'FAIL'} ${test.name}`);
+    for (const assertion of test.assertions) {
+      const format = (value: boolean | string[] | undefined) =>
+        Array.isArray(value) ? `[${value.join(', ')}]` : String(value);
+      const outcome = assertion.error
+        ? `error: ${assertion.error}`
+        : `expected ${format(assertion.expected)}, got ${format(assertion.actual)}`;
+      lines.push(`  ${assertion.passed ? 'ok  ' : 'FAIL'} ${assertion.kind} ${assertion.description}: ${outcome}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,487 @@
+import {
+  AuthorizationModelAst,
+  CONDITION_PARAMETER_TYPES,
+  ConditionDefinition,
+  ConditionParameterType,
+  Diagnostic,
+  RelationDefinition,
+  RewriteNode,
+  Severity,
+  SourceRange,
+  TypeDefinition,
+  parseDsl
+} from './dsl-parser.js';
+import { ModelIndex, collectDirectRestrictions, formatRestriction, indexModel, walkRewrite } from './model-index.js';
+import { CelConditionEvaluator } from './condition-evaluator.js';
+
+export interface ValidationSummary {
+  types: number;
+  relations: number;
+  conditions: number;
+  errors: number;
+  warnings: number;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  kind: 'model' | 'module';
+  schemaVersion?: string;
+  module?: string;
+  diagnostics: Diagnostic[];
+  summary: ValidationSummary;
+}
+
+export interface AnalyzeOptions {
+  /**
+   * Treat references to types that are not defined in the model as possibly
+   * external (defined in another module) and report them as warnings.
+   */
+  allowExternalTypes?: boolean;
+}
+
+const GENERIC_PARAMETER_TYPES = ['map', 'list'];
+
+/**
+ * Semantic validation of OpenFGA models on top of the DSL parser.
+ */
+export class ModelValidator {
+  private readonly conditionEvaluator = new CelConditionEvaluator();
+
+  /**
+   * Parse and validate DSL source.
+   */
+  public validate(source: string, options: { file?: string } = {}): ValidationResult {
+    const { model, diagnostics } = parseDsl(source, options);
+    const isModule = Boolean(model.module);
+
+    if (!isModule && !model.schemaVersion && !diagnostics.some(d => d.code === 'missing-schema')) {
+      diagnostics.push(this.diagnostic(
+        'error',
+        'missing-schema',
+        `Models must start with 'model' and 'schema 1.1' (or 'module <name>' for module files)`,
+        { line: 1, column: 1, endLine: 1, endColumn: 2 },
+        options.file
+      ));
+    }
+
+    diagnostics.push(...this.analyze(model, { allowExternalTypes: isModule }));
+    return this.result(model, diagnostics);
+  }
+
+  /**
+   * Run semantic checks over an already parsed (or composed) model.
+   */
+  public analyze(model: AuthorizationModelAst, options: AnalyzeOptions = {}): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const index = indexModel(model);
+    const report = (severity: Severity, code: string, message: string, range: SourceRange, file?: string) => {
+      diagnostics.push(this.diagnostic(severity, code, message, range, file ?? model.file));
+    };
+
+    this.checkDuplicates(model, report);
+    this.checkConditions(model, report);
+
+    const usedConditions = new Set<string>();
+    for (const type of model.types) {
+      if (type.extension && !index.definitions.get(type.name)?.some(definition => !definition.extension)) {
+        report(
+          options.allowExternalTypes ? 'warning' : 'error',
+          'undefined-extended-type',
+          `Type '${type.name}' is extended but never defined${options.allowExternalTypes ? ' in this file' : ''}`,
+          type.nameRange,
+          type.file
+        );
+      }
+
+      for (const relation of type.relations) {
+        const context: RelationContext = { typeName: type.name, relation, index, options, report, file: type.file };
+        walkRewrite(relation.rewrite, node => this.checkNode(node, context, usedConditions));
+      }
+    }
+
+    for (const condition of model.conditions) {
+      if (!usedConditions.has(condition.name)) {
+        report('warning', 'unused-condition', `Condition '${condition.name}' is not used by any relation`, condition.nameRange, condition.file);
+      }
+    }
+
+    this.checkEntrypoints(model, index, options, diagnostics, report);
+    return diagnostics;
+  }
+
+  private result(model: AuthorizationModelAst, diagnostics: Diagnostic[]): ValidationResult {
+    diagnostics.sort((a, b) => (a.file ?? '').localeCompare(b.file ?? '') || a.line - b.line || a.column - b.column);
+    const errors = diagnostics.filter(d => d.severity === 'error').length;
+    const result: ValidationResult = {
+      valid: errors === 0,
+      kind: model.module ? 'module' : 'model',
+      diagnostics,
+      summary: {
+        types: new Set(model.types.map(type => type.name)).size,
+        relations: model.types.reduce((count, type) => count + type.relations.length, 0),
+        conditions: model.conditions.length,
+        errors,
+        warnings: diagnostics.filter(d => d.severity === 'warning').length
+      }
+    };
+    if (model.schemaVersion) {
+      result.schemaVersion = model.schemaVersion;
+    }
+    if (model.module) {
+      result.module = model.module;
+    }
+    return result;
+  }
+
+  private diagnostic(severity: Severity, code: string, message: string, range: SourceRange, file?: string): Diagnostic {
+    const diagnostic: Diagnostic = {
+      severity,
+      code,
+      message,
+      line: range.line,
+      column: range.column,
+      endLine: range.endLine,
+      endColumn: range.endColumn
+    };
+    if (file) {
+      diagnostic.file = file;
+    }
+    return diagnostic;
+  }
+
+  private checkDuplicates(model: AuthorizationModelAst, report: Reporter) {
+    const types = new Map<string, TypeDefinition>();
+    const relations = new Map<string, Map<string, { relation: RelationDefinition; file?: string }>>();
+
+    // In composed models the first definition may live in another module file.
+    const elsewhere = (first: { range: SourceRange; file?: string }, file?: string) =>
+      first.file && first.file !== file ? ` (first defined in ${first.file}:${first.range.line})` : '';
+
+    for (const type of model.types) {
+      if (!type.extension) {
+        const first = types.get(type.name);
+        if (first) {
+          report(
+            'error',
+            'duplicate-type',
+            `Type '${type.name}' is defined more than once${elsewhere({ range: first.nameRange, file: first.file }, type.file)}`,
+            type.nameRange,
+            type.file
+          );
+        } else {
+          types.set(type.name, type);
+        }
+      }
+
+      const seen = relations.get(type.name) ?? new Map<string, { relation: RelationDefinition; file?: string }>();
+      for (const relation of type.relations) {
+        const first = seen.get(relation.name);
+        if (first) {
+          report(
+            'error',
+            'duplicate-relation',
+            `Relation '${relation.name}' is defined more than once on type '${type.name}'${elsewhere({ range: first.relation.nameRange, file: first.file }, type.file)}`,
+            relation.nameRange,
+            type.file
+          );
+        } else {
+          seen.set(relation.name, { relation, file: type.file });
+        }
+      }
+      relations.set(type.name, seen);
+    }
+
+    const conditions = new Set<string>();
+    for (const condition of model.conditions) {
+      if (conditions.has(condition.name)) {
+        report('error', 'duplicate-condition', `Condition '${condition.name}' is defined more than once`, condition.nameRange, condition.file);
+      }
+      conditions.add(condition.name);
+    }
+  }
+
+  private checkConditions(model: AuthorizationModelAst, report: Reporter) {
+    for (const condition of model.conditions) {
+      const names = new Set<string>();
+      let parametersValid = true;
+      for (const parameter of condition.parameters) {
+        if (names.has(parameter.name)) {
+          report(
+            'error',
+            'invalid-condition-parameter',
+            `Parameter '${parameter.name}' is declared more than once in condition '${condition.name}'`,
+            parameter.range,
+            condition.file
+          );
+        }
+        names.add(parameter.name);
+
+        const problem = this.checkParameterType(parameter.type);
+        if (problem) {
+          parametersValid = false;
+          report('error', 'invalid-condition-parameter', `Parameter '${parameter.name}': ${problem}`, parameter.range, condition.file);
+        }
+      }
+
+      // Type-check the expression once the parameter types are known.
+      if (parametersValid && condition.expression.length > 0) {
+        for (const issue of this.conditionEvaluator.check(condition).issues) {
+          report(
+            'error',
+            'invalid-condition-expression',
+            `Condition '${condition.name}': ${issue.message}`,
+            this.expressionRange(condition, issue.start, issue.end),
+            condition.file
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Map offsets within a condition expression to a source range.
+   */
+  private expressionRange(condition: ConditionDefinition, start: number, end: number): SourceRange {
+    const position = (offset: number) => {
+      const before = condition.expression.slice(0, offset).split('\n');
+      return before.length === 1
+        ? { line: condition.expressionRange.line, column: condition.expressionRange.column + offset }
+        : { line: condition.expressionRange.line + before.length - 1, column: before[before.length - 1].length + 1 };
+    };
+    const from = position(start);
+    const to = position(Math.max(end, start + 1));
+    return { line: from.line, column: from.column, endLine: to.line, endColumn: to.column };
+  }
+
+  private checkParameterType(type: ConditionParameterType): string | null {
+    if (!CONDITION_PARAMETER_TYPES.includes(type.name)) {
+      return `unknown type '${type.name}', expected one of ${CONDITION_PARAMETER_TYPES.join(', ')}`;
+    }
+    if (GENERIC_PARAMETER_TYPES.includes(type.name)) {
+      if (type.genericTypes.length !== 1) {
+        return `'${type.name}' requires exactly one generic type, e.g. ${type.name}<string>`;
+      }
+      return this.checkParameterType(type.genericTypes[0]);
+    }
+    if (type.genericTypes.length > 0) {
+      return `'${type.name}' does not take generic types`;
+    }
+    return null;
+  }
+
+  private checkNode(node: RewriteNode, context: RelationContext, usedConditions: Set<string>) {
+    const { typeName, index, report, file } = context;
+
+    if (node.kind === 'direct') {
+      const seen = new Set<string>();
+      for (const restriction of node.types) {
+        const label = formatRestriction(restriction);
+        if (seen.has(label)) {
+          report('warning', 'duplicate-type-restriction', `'${label}' is listed more than once`, restriction.range, file);
+        }
+        seen.add(label);
+
+        const relations = index.types.get(restriction.type);
+        if (!relations) {
+          this.reportUndefinedType(restriction.type, restriction.range, context);
+        } else if (restriction.relation && !relations.has(restriction.relation) && !this.isExternal(restriction.type, context)) {
+          report(
+            'error',
+            'undefined-relation',
+            `Relation '${restriction.relation}' is not defined on type '${restriction.type}'`,
+            restriction.range,
+            file
+          );
+        }
+
+        if (restriction.condition) {
+          usedConditions.add(restriction.condition);
+          if (!index.conditions.has(restriction.condition)) {
+            report('error', 'unknown-condition', `Condition '${restriction.condition}' is not defined`, restriction.range, file);
+          }
+        }
+      }
+      return;
+    }
+
+    if (node.kind === 'computed') {
+      if (!index.types.get(typeName)?.has(node.relation)) {
+        if (this.isExternal(typeName, context)) {
+          report('info', 'unresolved-relation', `Relation '${node.relation}' is not defined in this file; it must be defined on '${typeName}' in another module`, node.range, file);
+        } else {
+          report('error', 'undefined-relation', `Relation '${node.relation}' is not defined on type '${typeName}'`, node.range, file);
+        }
+      }
+      return;
+    }
+
+    if (node.kind !== 'tupleToUserset') {
+      return;
+    }
+
+    const tupleset = index.types.get(typeName)?.get(node.tupleset);
+    if (!tupleset) {
+      report(
+        'error',
+        'invalid-tupleset',
+        `'${node.relation} from ${node.tupleset}': relation '${node.tupleset}' is not defined on type '${typeName}'`,
+        node.tuplesetRange,
+        file
+      );
+      return;
+    }
+
+    if (tupleset.rewrite.kind !== 'direct') {
+      report(
+        'error',
+        'invalid-tupleset',
+        `'${node.relation} from ${node.tupleset}': '${node.tupleset}' must only list directly related types, e.g. 'define ${node.tupleset}: [type]'`,
+        node.tuplesetRange,
+        file
+      );
+      return;
+    }
+
+    const invalid = tupleset.rewrite.types.filter(restriction => restriction.relation || restriction.wildcard);
+    if (invalid.length > 0) {
+      report(
+        'error',
+        'invalid-tupleset',
+        `'${node.relation} from ${node.tupleset}': '${node.tupleset}' cannot allow usersets or wildcards (${invalid.map(formatRestriction).join(', ')})`,
+        node.tuplesetRange,
+        file
+      );
+      return;
+    }
+
+    const targets = tupleset.rewrite.types.map(restriction => restriction.type);
+    const known = targets.filter(target => index.types.has(target));
+    if (targets.some(target => this.isExternal(target, context))) {
+      return;
+    }
+    if (!known.some(target => index.types.get(target)!.has(node.relation))) {
+      report(
+        'error',
+        'invalid-tupleset',
+        `'${node.relation} from ${node.tupleset}': relation '${node.relation}' is not defined on ${targets.map(t => `'${t}'`).join(' or ')}`,
+        node.range,
+        file
+      );
+    }
+  }
+
+  /**
+   * In module files, a type that is only extended (or not declared at all) is
+   * defined elsewhere, so its relations cannot be checked here.
+   */
+  private isExternal(typeName: string, context: RelationContext): boolean {
+    return Boolean(context.options.allowExternalTypes) &&
+      !context.index.definitions.get(typeName)?.some(definition => !definition.extension);
+  }
+
+  private reportUndefinedType(name: string, range: SourceRange, context: RelationContext) {
+    if (context.options.allowExternalTypes) {
+      context.report('warning', 'unresolved-type', `Type '${name}' is not defined in this file; it must be defined in another module`, range, context.file);
+    } else {
+      context.report('error', 'undefined-type', `Type '${name}' is not defined`, range, context.file);
+    }
+  }
+
+  /**
+   * Report relations that can never be satisfied by any tuple, such as
+   * `define a: b` / `define b: a`. Relations that already have errors are
+   * skipped to avoid cascading diagnostics.
+   */
+  private checkEntrypoints(
+    model: AuthorizationModelAst,
+    index: ModelIndex,
+    options: AnalyzeOptions,
+    diagnostics: Diagnostic[],
+    report: Reporter
+  ) {
+    const key = (type: string, relation: string) => `${type}#${relation}`;
+    const reachable = new Set<string>();
+
+    const satisfiable = (typeName: string, node: RewriteNode): boolean => {
+      switch (node.kind) {
+        case 'direct':
+          return node.types.some(restriction =>
+            !restriction.relation ||
+            !index.types.get(restriction.type)?.has(restriction.relation) ||
+            reachable.has(key(restriction.type, restriction.relation))
+          );
+        case 'computed':
+          return !index.types.get(typeName)?.has(node.relation) || reachable.has(key(typeName, node.relation));
+        case 'tupleToUserset': {
+          const tupleset = index.types.get(typeName)?.get(node.tupleset);
+          if (!tupleset) {
+            return true;
+          }
+          return collectDirectRestrictions(tupleset.rewrite).some(restriction =>
+            !index.types.has(restriction.type) ||
+            reachable.has(key(restriction.type, node.relation)) ||
+            (options.allowExternalTypes && !index.types.get(restriction.type)!.has(node.relation))
+          );
+        }
+        case 'union':
+          return node.children.some(child => satisfiable(typeName, child));
+        case 'intersection':
+          return node.children.every(child => satisfiable(typeName, child));
+        case 'exclusion':
+          return satisfiable(typeName, node.base);
+      }
+    };
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const [typeName, relations] of index.types) {
+        for (const [name, relation] of relations) {
+          if (!reachable.has(key(typeName, name)) && satisfiable(typeName, relation.rewrite)) {
+            reachable.add(key(typeName, name));
+            changed = true;
+          }
+        }
+      }
+    }
+
+    const hasError = (relation: RelationDefinition, file?: string) => diagnostics.some(d =>
+      d.severity === 'error' && d.line === relation.range.line && d.file === file
+    );
+
+    for (const type of model.types) {
+      for (const relation of type.relations) {
+        const file = type.file ?? model.file;
+        if (!reachable.has(key(type.name, relation.name)) && !hasError(relation, file)) {
+          report(
+            'error',
+            'no-entrypoint',
+            `Relation '${type.name}#${relation.name}' can never be granted: every path leads back to itself without a directly assignable relation`,
+            relation.nameRange,
+            type.file
+          );
+        }
+      }
+    }
+  }
+}
+
+type Reporter = (severity: Severity, code: string, message: string, range: SourceRange, file?: string) => void;
+
+interface RelationContext {
+  typeName: string;
+  relation: RelationDefinition;
+  index: ModelIndex;
+  options: AnalyzeOptions;
+  report: Reporter;
+  file?: string;
+}
+
+/**
+ * Render diagnostics as `file:line:column severity [code] message` lines.
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+  return diagnostics
+    .map(d => `${d.file ? `${d.file}:` : ''}${d.line}:${d.column} ${d.severity} [${d.code}] ${d.message}`)
+    .join('\n');
+}
@@ -0,0 +1,311 @@
+import { Diagnostic, RewriteNode, parseDsl } from './dsl-parser.js';
+import { ModelIndex, collectDirectRestrictions, formatRestriction, indexModel } from './model-index.js';
+import { ModelValidator } from './model-validator.js';
+
+/**
+ * Relationship diagrams (Mermaid and Graphviz DOT) of a model. Edges point
+ * from whatever grants access to the relation it is granted on.
+ */
+
+export type DiagramNodeKind = 'type' | 'relation' | 'operator';
+
+export type DiagramEdgeKind = 'direct' | 'computed' | 'tupleToUserset' | 'operator';
+
+export interface DiagramNode {
+  /**
+   * `document`, `document#viewer` or `document#viewer/and1` for operators.
+   */
+  id: string;
+  kind: DiagramNodeKind;
+  type: string;
+  label: string;
+}
+
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  kind: DiagramEdgeKind;
+  label?: string;
+  /**
+   * The subtracted side of a `but not`.
+   */
+  negated?: boolean;
+}
+
+export interface VisualizeOptions {
+  /**
+   * Only show what can grant this `type#relation`.
+   */
+  focus?: string;
+}
+
+export interface VisualizeResult {
+  valid: boolean;
+  diagnostics: Diagnostic[];
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+  mermaid: string;
+  dot: string;
+}
+
+export class VisualizeError extends Error {}
+
+const OPERATOR_LABELS: Record<'union' | 'intersection' | 'exclusion', string> = {
+  union: 'or',
+  intersection: 'and',
+  exclusion: 'but not'
+};
+
+function relationId(type: string, relation: string): string {
+  return `${type}#${relation}`;
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Mermaid labels are HTML-ish: escape `#`, quotes and angle brackets as entities.
+ */
+function mermaidLabel(text: string): string {
+  return `"${text.replace(/#/g, '#35;').replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;')}"`;
+}
+
+class DiagramBuilder {
+  public readonly nodes = new Map<string, DiagramNode>();
+  public readonly edges: DiagramEdge[] = [];
+  private operators = 0;
+
+  constructor(private readonly index: ModelIndex) {}
+
+  public build(): void {
+    for (const [type, relations] of this.index.types) {
+      this.addNode({ id: type, kind: 'type', type, label: type });
+      for (const relation of relations.keys()) {
+        this.addNode({ id: relationId(type, relation), kind: 'relation', type, label: relation });
+      }
+    }
+    for (const [type, relations] of this.index.types) {
+      for (const relation of relations.values()) {
+        this.operators = 0;
+        this.addRewrite(type, relation.name, relation.rewrite, relationId(type, relation.name), true, false);
+      }
+    }
+  }
+
+  private addNode(node: DiagramNode) {
+    if (!this.nodes.has(node.id)) {
+      this.nodes.set(node.id, node);
+    }
+  }
+
+  /**
+   * Add the edges for `node` into `target`. A top-level union is drawn as
+   * several edges into the relation; other set operators get their own node.
+   */
+  private addRewrite(type: string, relation: string, node: RewriteNode, target: string, top: boolean, negated: boolean): void {
+    const edge = (from: string, kind: DiagramEdgeKind, label?: string) =>
+      this.edges.push({ from, to: target, kind, ...(label ? { label } : {}), ...(negated ? { negated } : {}) });
+
+    switch (node.kind) {
+      case 'direct':
+        for (const restriction of node.types) {
+          edge(restriction.relation ? relationId(restriction.type, restriction.relation) : restriction.type, 'direct', `[${formatRestriction(restriction)}]`);
+        }
+        return;
+
+      case 'computed':
+        edge(relationId(type, node.relation), 'computed');
+        return;
+
+      case 'tupleToUserset': {
+        const tupleset = this.index.types.get(type)?.get(node.tupleset);
+        const parents = new Set((tupleset ? collectDirectRestrictions(tupleset.rewrite) : [])
+          .filter(restriction => !restriction.relation && !restriction.wildcard && this.index.types.get(restriction.type)?.has(node.relation))
+          .map(restriction => restriction.type));
+        for (const parent of parents) {
+          edge(relationId(parent, node.relation), 'tupleToUserset', `from ${node.tupleset}`);
+        }
+        return;
+      }
+
+      case 'union':
+        if (top) {
+          node.children.forEach(child => this.addRewrite(type, relation, child, target, true, negated));
+          return;
+        }
+      // falls through
+      case 'intersection':
+      case 'exclusion': {
+        const id = `${relationId(type, relation)}/${OPERATOR_LABELS[node.kind].replace(' ', '_')}${++this.operators}`;
+        this.addNode({ id, kind: 'operator', type, label: OPERATOR_LABELS[node.kind] });
+        edge(id, 'operator');
+        if (node.kind === 'exclusion') {
+          this.addRewrite(type, relation, node.base, id, false, false);
+          this.addRewrite(type, relation, node.subtract, id, false, true);
+        } else {
+          node.children.forEach(child => this.addRewrite(type, relation, child, id, false, false));
+        }
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Keep only the nodes and edges from which `focus` can be reached.
+ */
+function focusGraph(nodes: DiagramNode[], edges: DiagramEdge[], focus: string): { nodes: DiagramNode[]; edges: DiagramEdge[] } {
+  const keep = new Set([focus]);
+  const pending = [focus];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    for (const edge of edges) {
+      if (edge.to === current && !keep.has(edge.from)) {
+        keep.add(edge.from);
+        pending.push(edge.from);
+      }
+    }
+  }
+  return {
+    nodes: nodes.filter(node => keep.has(node.id)),
+    edges: edges.filter(edge => keep.has(edge.from) && keep.has(edge.to))
+  };
+}
+
+function groupByType(nodes: DiagramNode[]): Map<string, DiagramNode[]> {
+  const groups = new Map<string, DiagramNode[]>();
+  for (const node of nodes) {
+    groups.set(node.type, [...(groups.get(node.type) ?? []), node]);
+  }
+  return groups;
+}
+
+export function formatMermaid(nodes: DiagramNode[], edges: DiagramEdge[], focus?: string): string {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+  for (const node of nodes) {
+    const base = node.id.replace(/#/g, '__').replace(/[^A-Za-z0-9_]/g, '_');
+    let id = node.kind === 'type' ? `type_${base}` : base;
+    for (let n = 2; used.has(id); n++) {
+      id = `${base}_${n}`;
+    }
+    used.add(id);
+    ids.set(node.id, id);
+  }
+  const shape = (node: DiagramNode) => {
+    const label = mermaidLabel(node.label);
+    switch (node.kind) {
+      case 'type':
+        return `${ids.get(node.id)}[${label}]`;
+      case 'relation':
+        return `${ids.get(node.id)}(${label})`;
+      case 'operator':
+        return `${ids.get(node.id)}{{${label}}}`;
+    }
+  };
+
+  const lines = ['flowchart LR'];
+  if (focus) {
+    lines.push(`  %% What can grant ${focus}`);
+  }
+  for (const [type, group] of groupByType(nodes)) {
+    if (group.length === 1 && group[0].kind === 'type') {
+      lines.push(`  ${shape(group[0])}`);
+      continue;
+    }
+    lines.push(`  subgraph cluster_${type.replace(/[^A-Za-z0-9_]/g, '_')}[${mermaidLabel(type)}]`);
+    group.forEach(node => lines.push(`    ${shape(node)}`));
+    lines.push('  end');
+  }
+  for (const edge of edges) {
+    const arrow = edge.negated ? '--x' : edge.kind === 'tupleToUserset' ? '-.->' : '-->';
+    const label = edge.negated ? `but not${edge.label ? ` ${edge.label}` : ''}` : edge.label;
+    lines.push(`  ${ids.get(edge.from)} ${arrow}${label ? `|${mermaidLabel(label)}|` : ''} ${ids.get(edge.to)}`);
+  }
+  const focused = focus ? ids.get(focus) : undefined;
+  if (focused) {
+    lines.push(`  style ${focused} stroke-width:3px`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export function formatDot(nodes: DiagramNode[], edges: DiagramEdge[], focus?: string): string {
+  const shapes: Record<DiagramNodeKind, string> = { type: 'box', relation: 'ellipse', operator: 'diamond' };
+  const node = (current: DiagramNode) => {
+    const attributes = [`label=${quote(current.label)}`, `shape=${shapes[current.kind]}`];
+    if (current.id === focus) {
+      attributes.push('penwidth=3');
+    }
+    return `${quote(current.id)} [${attributes.join(', ')}];`;
+  };
+
+  const lines = ['digraph model {', '  rankdir=LR;', '  node [fontname="Helvetica"];', '  edge [fontname="Helvetica", fontsize=10];'];
+  for (const [type, group] of groupByType(nodes)) {
+    if (group.length === 1 && group[0].kind === 'type') {
+      lines.push(`  ${node(group[0])}`);
+      continue;
+    }
+    lines.push(`  subgraph ${quote(`cluster_${type}`)} {`, `    label=${quote(type)};`);
+    group.forEach(current => lines.push(`    ${node(current)}`));
+    lines.push('  }');
+  }
+  for (const edge of edges) {
+    const attributes: string[] = [];
+    const label = edge.negated ? `but not${edge.label ? ` ${edge.label}` : ''}` : edge.label;
+    if (label) {
+      attributes.push(`label=${quote(label)}`);
+    }
+    if (edge.kind === 'tupleToUserset') {
+      attributes.push('style=dashed');
+    }
+    if (edge.negated) {
+      attributes.push('arrowhead=tee', 'color=red');
+    }
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+  }
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+export class ModelVisualizer {
+  constructor(private readonly validator: ModelValidator = new ModelValidator()) {}
+
+  /**
+   * Throws VisualizeError when `focus` does not name a relation of the model.
+   */
+  public visualize(source: string, options: VisualizeOptions = {}): VisualizeResult {
+    const result: VisualizeResult = {
+      valid: false,
+      diagnostics: this.validator.validate(source).diagnostics,
+      nodes: [],
+      edges: [],
+      mermaid: '',
+      dot: ''
+    };
+    if (result.diagnostics.some(d => d.severity === 'error')) {
+      return result;
+    }
+
+    const index = indexModel(parseDsl(source).model);
+    if (options.focus) {
+      const [type, relation] = options.focus.split('#');
+      if (!relation || !index.types.get(type)?.has(relation)) {
+        throw new VisualizeError(`'${options.focus}' is not a relation of the model, expected 'type#relation'`);
+      }
+    }
+
+    const builder = new DiagramBuilder(index);
+    builder.build();
+    const graph = options.focus
+      ? focusGraph([...builder.nodes.values()], builder.edges, options.focus)
+      : { nodes: [...builder.nodes.values()], edges: builder.edges };
+
+    result.nodes = graph.nodes;
+    result.edges = graph.edges;
+    result.mermaid = formatMermaid(graph.nodes, graph.edges, options.focus);
+    result.dot = formatDot(graph.nodes, graph.edges, options.focus);
+    result.valid = true;
+    return result;
+  }
+}
@@ -0,0 +1,532 @@
+import path from 'path';
+import { LineCounter, isScalar, isSeq, parseDocument } from 'yaml';
+import {
+  AuthorizationModelAst,
+  Diagnostic,
+  Severity,
+  SourceRange,
+  TypeDefinition,
+  lineRange,
+  parseDsl
+} from './dsl-parser.js';
+import { formatDsl, formatModuleFiles } from './dsl-formatter.js';
+import { collectDirectRestrictions, indexModel, relationReferences } from './model-index.js';
+import { AuthorizationModelJson, modelToJson } from './model-json.js';
+import { ModelValidator } from './model-validator.js';
+import { combineModels } from './model-converter.js';
+
+export const FGA_MOD_FILE = 'fga.mod';
+
+/**
+ * Schema version required by `fga.mod`; modular models need 1.2.
+ */
+export const MODULAR_SCHEMA_VERSION = '1.2';
+
+export interface ModuleSummary {
+  file: string;
+  module?: string;
+  types: string[];
+  extends: string[];
+  conditions: string[];
+}
+
+export interface ComposedModel {
+  model: AuthorizationModelAst;
+  modules: ModuleSummary[];
+  diagnostics: Diagnostic[];
+}
+
+export interface ComposeResult {
+  valid: boolean;
+  schemaVersion?: string;
+  modules: ModuleSummary[];
+  /**
+   * The combined model as a single DSL file, with extensions folded in.
+   */
+  dsl?: string;
+  json?: AuthorizationModelJson;
+  diagnostics: Diagnostic[];
+}
+
+export interface SuggestedModule {
+  module: string;
+  file: string;
+  types: string[];
+  extends: { type: string; relations: string[] }[];
+  conditions: string[];
+  reason: string;
+}
+
+export interface SplitOptions {
+  /**
+   * Types that must stay in the `core` module.
+   */
+  coreTypes?: string[];
+}
+
+export interface SplitResult {
+  valid: boolean;
+  modules: SuggestedModule[];
+  /**
+   * Module file contents plus `fga.mod`, keyed by path.
+   */
+  files?: Record<string, string>;
+  diagnostics: Diagnostic[];
+  /**
+   * Whether composing the suggested files reproduces the original model.
+   */
+  verified: boolean;
+}
+
+interface ModEntry {
+  file: string;
+  range: SourceRange;
+}
+
+const CORE_MODULE = 'core';
+
+function normalizePath(value: string): string {
+  return path.posix.normalize(value.replace(/\\/g, '/')).replace(/^(\.\/)+/, '');
+}
+
+/**
+ * Composes modular models (`fga.mod` plus module files) into a single model,
+ * and suggests how to split a single-file model into modules.
+ */
+export class ModularModelComposer {
+  constructor(private readonly validator: ModelValidator = new ModelValidator()) {}
+
+  /**
+   * Parse `fga.mod` and every module it lists, and validate the combined
+   * model. Paths in `fga.mod` are resolved relative to `modFile`.
+   */
+  public load(fgaMod: string, files: Record<string, string>, options: { modFile?: string } = {}): ComposedModel {
+    const modFile = options.modFile ?? FGA_MOD_FILE;
+    const diagnostics: Diagnostic[] = [];
+    const report = (severity: Severity, code: string, message: string, range: SourceRange, file: string) =>
+      diagnostics.push({ severity, code, message, ...range, file });
+
+    const entries = this.parseFgaMod(fgaMod, modFile, report);
+    const available = new Map(Object.keys(files).map(key => [normalizePath(key), key]));
+    const directory = path.posix.dirname(normalizePath(modFile));
+
+    const models: AuthorizationModelAst[] = [];
+    const modules: ModuleSummary[] = [];
+    const listed = new Set<string>();
+
+    for (const entry of entries) {
+      const wanted = normalizePath(path.posix.join(directory, entry.file));
+      const key = available.get(wanted) ?? available.get(normalizePath(entry.file));
+      if (key === undefined) {
+        report('error', 'missing-file', `Module file '${entry.file}' listed in ${modFile} was not provided`, entry.range, modFile);
+        continue;
+      }
+      if (listed.has(key)) {
+        report('error', 'duplicate-module-file', `Module file '${entry.file}' is listed more than once`, entry.range, modFile);
+        continue;
+      }
+      listed.add(key);
+
+      const parsed = parseDsl(files[key], { file: key });
+      diagnostics.push(...parsed.diagnostics);
+      if (!parsed.model.module) {
+        report(
+          'error',
+          'missing-module',
+          `Module files must start with 'module <name>'${parsed.model.schemaVersion ? ` instead of 'model'; the schema is declared in ${modFile}` : ''}`,
+          lineRange(1, 1, 2),
+          key
+        );
+      }
+
+      models.push(parsed.model);
+      modules.push({
+        file: key,
+        module: parsed.model.module,
+        types: parsed.model.types.filter(type => !type.extension).map(type => type.name),
+        extends: parsed.model.types.filter(type => type.extension).map(type => type.name),
+        conditions: parsed.model.conditions.map(condition => condition.name)
+      });
+    }
+
+    for (const key of Object.keys(files)) {
+      if (!listed.has(key) && key.endsWith('.fga') && normalizePath(key) !== normalizePath(modFile)) {
+        report('warning', 'unlisted-file', `File '${key}' is not listed in ${modFile} and was ignored`, lineRange(1, 1, 2), key);
+      }
+    }
+
+    const model = combineModels(models, MODULAR_SCHEMA_VERSION);
+    diagnostics.push(...this.validator.analyze(model));
+    diagnostics.sort((a, b) => (a.file ?? '').localeCompare(b.file ?? '') || a.line - b.line || a.column - b.column);
+    return { model, modules, diagnostics };
+  }
+
+  public compose(fgaMod: string, files: Record<string, string>, options: { modFile?: string } = {}): ComposeResult {
+    const { model, modules, diagnostics } = this.load(fgaMod, files, options);
+    const valid = !diagnostics.some(d => d.severity === 'error');
+    const result: ComposeResult = { valid, modules, diagnostics };
+    if (valid) {
+      result.schemaVersion = model.schemaVersion;
+      result.dsl = formatDsl(model);
+      result.json = modelToJson(model);
+    }
+    return result;
+  }
+
+  /**
+   * Suggest modules for a single-file model. Types without relations and
+   * hub types referenced from several clusters go to `core`; the remaining
+   * types are grouped by the connected components of their references.
+   * Relations on core types whose name points at one module's type (such as
+   * `organization#can_create_project`) move there as `extend type`.
+   */
+  public split(source: string, options: SplitOptions = {}): SplitResult {
+    const validation = this.validator.validate(source);
+    const { model } = parseDsl(source);
+    const diagnostics = [...validation.diagnostics];
+    if (model.module) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'already-modular',
+        message: `This is already a module file; pass a single-file model ('model' / 'schema') to split`,
+        ...lineRange(1, 1, 2)
+      });
+    }
+    for (const name of options.coreTypes ?? []) {
+      if (!model.types.some(type => type.name === name)) {
+        diagnostics.push({ severity: 'error', code: 'undefined-type', message: `Core type '${name}' is not defined in the model`, ...lineRange(1, 1, 2) });
+      }
+    }
+    if (diagnostics.some(d => d.severity === 'error')) {
+      return { valid: false, modules: [], diagnostics, verified: false };
+    }
+
+    const assignment = this.clusterTypes(model, new Set(options.coreTypes ?? []));
+    const moved = this.findMovableRelations(model, assignment);
+    const modules = this.describeModules(model, assignment, moved);
+    const files = formatModuleFiles(this.buildModularModel(model, moved, modules));
+
+    const composed = this.load(files[FGA_MOD_FILE], files);
+    const verified = !composed.diagnostics.some(d => d.severity === 'error') &&
+      this.semanticJson(modelToJson(composed.model)) === this.semanticJson(modelToJson(model));
+
+    return { valid: true, modules, files, diagnostics, verified };
+  }
+
+  private parseFgaMod(
+    source: string,
+    modFile: string,
+    report: (severity: Severity, code: string, message: string, range: SourceRange, file: string) => void
+  ): ModEntry[] {
+    const lineCounter = new LineCounter();
+    const document = parseDocument(source, { lineCounter });
+    const rangeOf = (offsets?: [number, number, number] | null) => {
+      if (!offsets) {
+        return lineRange(1, 1, 2);
+      }
+      const start = lineCounter.linePos(offsets[0]);
+      const end = lineCounter.linePos(offsets[1]);
+      return { line: start.line, column: start.col, endLine: end.line, endColumn: end.col };
+    };
+
+    if (document.errors.length > 0) {
+      for (const error of document.errors) {
+        const [start] = error.linePos ?? [{ line: 1, col: 1 }];
+        report('error', 'invalid-fga-mod', error.message.split('\n')[0], lineRange(start.line, start.col, start.col + 1), modFile);
+      }
+      return [];
+    }
+
+    const schema = document.get('schema', true);
+    if (!isScalar(schema)) {
+      report('error', 'missing-schema', `${modFile} must declare schema: '${MODULAR_SCHEMA_VERSION}'`, lineRange(1, 1, 2), modFile);
+    } else if (String(schema.value) !== MODULAR_SCHEMA_VERSION) {
+      report(
+        'error',
+        'unsupported-schema',
+        `Modular models require schema '${MODULAR_SCHEMA_VERSION}' but found '${String(schema.value)}'`,
+        rangeOf(schema.range),
+        modFile
+      );
+    }
+
+    const contents = document.get('contents', true);
+    if (!isSeq(contents) || contents.items.length === 0) {
+      report('error', 'invalid-fga-mod', `${modFile} must list the module files under 'contents'`, rangeOf(isScalar(contents) ? contents.range : null), modFile);
+      return [];
+    }
+
+    const entries: ModEntry[] = [];
+    for (const item of contents.items) {
+      if (!isScalar(item) || typeof item.value !== 'string' || item.value.trim().length === 0) {
+        report('error', 'invalid-fga-mod', `Entries in 'contents' must be file paths`, rangeOf((item as { range?: [number, number, number] })?.range), modFile);
+        continue;
+      }
+      if (!item.value.endsWith('.fga')) {
+        report('error', 'invalid-fga-mod', `Module file '${item.value}' must have the .fga extension`, rangeOf(item.range), modFile);
+        continue;
+      }
+      entries.push({ file: item.value, range: rangeOf(item.range) });
+    }
+    return entries;
+  }
+
+  /**
+   * Assign every type to a module name.
+   */
+  private clusterTypes(model: AuthorizationModelAst, core: Set<string>): Map<string, string> {
+    const index = indexModel(model);
+    const names = [...index.types.keys()];
+    const neighbours = new Map(names.map(name => [name, new Set<string>()]));
+    const referencedBy = new Map(names.map(name => [name, new Set<string>()]));
+
+    for (const [name, relations] of index.types) {
+      for (const relation of relations.values()) {
+        for (const restriction of collectDirectRestrictions(relation.rewrite)) {
+          if (restriction.type !== name && index.types.has(restriction.type)) {
+            neighbours.get(name)!.add(restriction.type);
+            neighbours.get(restriction.type)!.add(name);
+            referencedBy.get(restriction.type)!.add(name);
+          }
+        }
+      }
+      if (relations.size === 0) {
+        core.add(name);
+      }
+    }
+
+    const components = () => {
+      const seen = new Set<string>();
+      const result: string[][] = [];
+      for (const name of names) {
+        if (core.has(name) || seen.has(name)) {
+          continue;
+        }
+        const component: string[] = [];
+        const stack = [name];
+        seen.add(name);
+        while (stack.length > 0) {
+          const current = stack.pop()!;
+          component.push(current);
+          for (const next of neighbours.get(current)!) {
+            if (!core.has(next) && !seen.has(next)) {
+              seen.add(next);
+              stack.push(next);
+            }
+          }
+        }
+        result.push(component.sort((a, b) => names.indexOf(a) - names.indexOf(b)));
+      }
+      return result;
+    };
+
+    // Move hub types (referenced by at least two types) to core while doing
+    // so splits their cluster apart.
+    for (;;) {
+      const before = components();
+      let best: { name: string; pieces: number } | null = null;
+      for (const component of before) {
+        for (const name of component.filter(candidate => referencedBy.get(candidate)!.size >= 2)) {
+          core.add(name);
+          const pieces = components().length - before.length + 1;
+          core.delete(name);
+          if (pieces >= 2 && (!best || pieces > best.pieces ||
+            (pieces === best.pieces && referencedBy.get(name)!.size > referencedBy.get(best.name)!.size))) {
+            best = { name, pieces };
+          }
+        }
+      }
+      if (!best) {
+        break;
+      }
+      core.add(best.name);
+    }
+
+    // Single types that only talk to core types belong in core too.
+    for (const component of components()) {
+      if (component.length === 1 && [...neighbours.get(component[0])!].every(name => core.has(name))) {
+        core.add(component[0]);
+      }
+    }
+
+    const assignment = new Map<string, string>();
+    for (const name of names) {
+      if (core.has(name)) {
+        assignment.set(name, CORE_MODULE);
+      }
+    }
+    // Name each module after its anchor: the type most referenced from its
+    // cluster and most connected to core.
+    const weight = (name: string) =>
+      referencedBy.get(name)!.size + [...neighbours.get(name)!].filter(other => core.has(other) && !referencedBy.get(name)!.has(other)).length;
+    const used = new Set([CORE_MODULE]);
+    for (const component of components()) {
+      const root = [...component].sort((a, b) => weight(b) - weight(a) || names.indexOf(a) - names.indexOf(b))[0];
+      let module = root.replace(/[^A-Za-z0-9_-]/g, '-');
+      for (let i = 2; used.has(module); i++) {
+        module = `${root}-${i}`;
+      }
+      used.add(module);
+      component.forEach(name => assignment.set(name, module));
+    }
+    return assignment;
+  }
+
+  /**
+   * Relations on core types that name exactly one module's type and are
+   * only used from that module. Keyed by `type#relation`, valued by module.
+   */
+  private findMovableRelations(model: AuthorizationModelAst, assignment: Map<string, string>): Map<string, string> {
+    const index = indexModel(model);
+    const moved = new Map<string, string>();
+
+    const users = relationReferences(index);
+
+    const moduleTypes = new Map<string, string>();
+    for (const [typeName, module] of assignment) {
+      if (module !== CORE_MODULE) {
+        moduleTypes.set(typeName, module);
+      }
+    }
+
+    for (const [typeName, relations] of index.types) {
+      if (assignment.get(typeName) !== CORE_MODULE) {
+        continue;
+      }
+      for (const relation of relations.keys()) {
+        const words = relation.split(/[_-]/);
+        const modules = new Set(
+          [...moduleTypes].filter(([name]) => words.some(word => word === name || word === `${name}s`)).map(([, module]) => module)
+        );
+        if (modules.size !== 1) {
+          continue;
+        }
+        const [module] = modules;
+        const usedBy = [...(users.get(`${typeName}#${relation}`) ?? [])];
+        if (usedBy.every(user => assignment.get(user.split('#')[0]) === module)) {
+          moved.set(`${typeName}#${relation}`, module);
+        }
+      }
+    }
+    return moved;
+  }
+
+  private describeModules(
+    model: AuthorizationModelAst,
+    assignment: Map<string, string>,
+    moved: Map<string, string>
+  ): SuggestedModule[] {
+    const order = [CORE_MODULE, ...new Set([...assignment.values()].filter(module => module !== CORE_MODULE))];
+    const modules = new Map<string, SuggestedModule>(order.map(module => [module, {
+      module,
+      file: `${module}.fga`,
+      types: [],
+      extends: [],
+      conditions: [],
+      reason: ''
+    }]));
+
+    const seen = new Set<string>();
+    for (const type of model.types) {
+      if (!seen.has(type.name)) {
+        seen.add(type.name);
+        modules.get(assignment.get(type.name)!)!.types.push(type.name);
+      }
+    }
+    for (const [key, module] of moved) {
+      const [typeName, relation] = key.split('#');
+      const suggestion = modules.get(module)!;
+      const existing = suggestion.extends.find(extension => extension.type === typeName);
+      if (existing) {
+        existing.relations.push(relation);
+      } else {
+        suggestion.extends.push({ type: typeName, relations: [relation] });
+      }
+    }
+
+    for (const condition of model.conditions) {
+      modules.get(this.conditionModule(model, condition.name, assignment, moved))!.conditions.push(condition.name);
+    }
+
+    for (const suggestion of modules.values()) {
+      suggestion.reason = suggestion.module === CORE_MODULE
+        ? 'Shared types: types without relations and types referenced from several modules'
+        : `Types connected to '${suggestion.module}' through their relations`;
+    }
+    return [...modules.values()].filter(module => module.types.length > 0 || module.extends.length > 0 || module.conditions.length > 0);
+  }
+
+  /**
+   * The module whose relations use a condition, or core when several do.
+   */
+  private conditionModule(
+    model: AuthorizationModelAst,
+    condition: string,
+    assignment: Map<string, string>,
+    moved: Map<string, string>
+  ): string {
+    const modules = new Set<string>();
+    for (const type of model.types) {
+      for (const relation of type.relations) {
+        if (collectDirectRestrictions(relation.rewrite).some(restriction => restriction.condition === condition)) {
+          modules.add(moved.get(`${type.name}#${relation.name}`) ?? assignment.get(type.name)!);
+        }
+      }
+    }
+    return modules.size === 1 ? [...modules][0] : CORE_MODULE;
+  }
+
+  private buildModularModel(
+    model: AuthorizationModelAst,
+    moved: Map<string, string>,
+    modules: SuggestedModule[]
+  ): AuthorizationModelAst {
+    const index = indexModel(model);
+    const types: TypeDefinition[] = [];
+    const conditions = model.conditions.map(condition => {
+      const module = modules.find(candidate => candidate.conditions.includes(condition.name))!;
+      return { ...condition, module: module.module, file: module.file };
+    });
+
+    for (const suggestion of modules) {
+      for (const name of suggestion.types) {
+        const definition = model.types.find(type => type.name === name && !type.extension)!;
+        const relations = model.types
+          .filter(type => type.name === name)
+          .flatMap(type => type.relations)
+          .filter(relation => !moved.has(`${name}#${relation.name}`));
+        types.push({ ...definition, relations, module: suggestion.module, file: suggestion.file });
+      }
+      for (const extension of suggestion.extends) {
+        const relations = extension.relations.map(relation => index.types.get(extension.type)!.get(relation)!);
+        const definition = model.types.find(type => type.name === extension.type)!;
+        types.push({ ...definition, extension: true, relations, module: suggestion.module, file: suggestion.file });
+      }
+    }
+
+    return { schemaVersion: MODULAR_SCHEMA_VERSION, types, conditions };
+  }
+
+  /**
+   * JSON rendering that ignores module metadata and ordering, for comparing
+   * a composed model with the original.
+   */
+  private semanticJson(json: AuthorizationModelJson): string {
+    const sortKeys = <T>(record: Record<string, T>) =>
+      Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+    return JSON.stringify({
+      types: json.type_definitions
+        .map(definition => ({
+          type: definition.type,
+          relations: sortKeys(definition.relations),
+          metadata: sortKeys(Object.fromEntries(
+            Object.entries(definition.metadata?.relations ?? {}).map(([name, metadata]) => [name, metadata.directly_related_user_types])
+          ))
+        }))
+        .sort((a, b) => a.type.localeCompare(b.type)),
+      conditions: sortKeys(Object.fromEntries(
+        Object.entries(json.conditions ?? {}).map(([name, condition]) => [name, { ...condition, metadata: undefined }])
+      ))
+    });
+  }
+}
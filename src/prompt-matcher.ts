@@ -1,73 +1,207 @@
-import { promises as fs } from 'fs';
+import { FSWatcher, promises as fs, watch } from 'fs';
 import path from 'path';
+import { fileURLToPath } from 'url';
+import { Logger } from './logger.js';
+import { GuideSection, ensureUniqueSlugs, splitGuideSections } from './guide-sections.js';
+import { RankedSection, SectionRanker, TermScore, matchesPattern } from './section-ranker.js';
+import { PromptRegistry, PromptRule, RegistryIssue, RegistryLoadResult, splitFrontMatter } from './prompt-registry.js';
 
-export interface PromptRule {
-  patterns: string[];
-  promptFile: string;
-  description: string;
+export type { PromptRule } from './prompt-registry.js';
+
+export interface RuleMatch {
+  rule: PromptRule;
+  matchedPatterns: string[];
+}
+
+export interface ContextOptions {
+  maxSections?: number;
+  maxChars?: number;
+}
+
+export interface SelectedSection {
+  slug: string;
+  title: string;
+  file: string;
+  score: number;
+  chars: number;
+  matchedTerms: TermScore[];
+  reason: string;
+  truncated: boolean;
+  content: string;
+}
+
+export interface ContextResult {
+  rule: PromptRule | null;
+  content: string | null;
+  matchFound: boolean;
+  matchedPatterns: string[];
+  sections: SelectedSection[];
+  totalChars: number;
+}
+
+export const DEFAULT_MAX_SECTIONS = 3;
+export const DEFAULT_MAX_CHARS = 12000;
+
+// Minimum BM25 score for a section to count as a match when no rule pattern matched.
+const MIN_SECTION_SCORE = 4;
+
+export interface PromptMatcherOptions {
+  /**
+   * Directory containing the prompt files. Defaults to `PROMPTS_DIR` or the
+   * `prompts` directory shipped next to the server.
+   */
+  promptsDir?: string;
+  /**
+   * Logger for load and match diagnostics (default: an INFO-level logger).
+   */
+  logger?: Logger;
+}
+
+/**
+ * Default prompts directory, resolved relative to this module rather than the
+ * working directory so the server can be started from anywhere.
+ */
+export function defaultPromptsDirectory(): string {
+  return process.env.PROMPTS_DIR
+    ? path.resolve(process.env.PROMPTS_DIR)
+    : path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'prompts');
 }
 
 export class PromptMatcher {
-  private rules: PromptRule[] = [
-    {
-      patterns: [
-        'authorization model',
-        'auth model',
-        'access control',
-        'rbac',
-        'abac',
-        'permission',
-        'role based',
-        'attribute based',
-        'authentication',
-        'auth',
-        'security model',
-        'openfga',
-        'openfga model',
-        'openfga authorization',
-        'openfga auth',
-        'openfga dsl',
-        'openfga schema',
-        'openfga relations',
-        'openfga types',
-        'zanzibar',
-        'relationship based access control',
-        'rebac',
-        'fine grained access control',
-        'fga',
-        'tuple',
-        'relationship tuple',
-        'authorization tuple',
-        'user relation object',
-        'permission check',
-        'can user',
-        'access check'
-      ],
-      promptFile: 'authorization-model.md',
-      description: 'Author authorization models with OpenFGA'
-    }
-   
-  ];
+  private readonly registry: PromptRegistry;
+  private readonly logger: Logger;
+  private rules: PromptRule[] = [];
+  private issues: RegistryIssue[] = [];
+  private loading: Promise<RegistryLoadResult> | null = null;
+  private loaded = false;
+  private listeners = new Set<() => void>();
+  private watcher: FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  private ranker: SectionRanker | null = null;
+  private indexing: Promise<SectionRanker> | null = null;
+
+  constructor(options: PromptMatcherOptions = {}) {
+    this.registry = new PromptRegistry(options.promptsDir ? path.resolve(options.promptsDir) : defaultPromptsDirectory());
+    this.logger = options.logger ?? new Logger();
+  }
 
   /**
-   * Find the best matching prompt based on the query
+   * Discover prompt files and (re)build the rules from their metadata
    */
-  public findBestMatch(query: string): PromptRule | null {
-    const lowercaseQuery = query.toLowerCase();
-    console.error(`[DEBUG] Matching query: "${query}"`);
-    
-    // Look for exact matches first
-    for (const rule of this.rules) {
-      for (const pattern of rule.patterns) {
-        if (lowercaseQuery.includes(pattern.toLowerCase())) {
-          console.error(`[DEBUG] Pattern match found: "${pattern}" -> ${rule.promptFile}`);
-          return rule;
-        }
+  public async load(): Promise<RegistryLoadResult> {
+    const result = await this.registry.load();
+    this.rules = result.rules;
+    this.issues = result.issues;
+    this.loaded = true;
+    this.ranker = null;
+    this.logger.debug(`Loaded ${result.rules.length} prompt rules (${result.issues.length} issues)`, { directory: this.registry.getDirectory() });
+    return result;
+  }
+
+  /**
+   * Load the registry once; later calls reuse the loaded rules
+   */
+  public async ensureLoaded(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null;
+      });
+    }
+    await this.loading;
+  }
+
+  /**
+   * Metadata problems found by the last load
+   */
+  public getIssues(): RegistryIssue[] {
+    return [...this.issues];
+  }
+
+  /**
+   * Register a listener for prompt file changes. Returns an unsubscribe function.
+   */
+  public onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Watch the prompts directory and hot-reload rules and the section index
+   */
+  public watch(onError: (error: unknown) => void = () => {}): void {
+    if (this.watcher) {
+      return;
+    }
+
+    try {
+      // The watcher must not keep the process alive once the transport closes.
+      this.watcher = watch(this.registry.getDirectory(), () => this.scheduleReload(onError));
+      this.watcher.unref();
+      this.watcher.on('error', onError);
+    } catch (error) {
+      onError(error);
+    }
+  }
+
+  public close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+  }
+
+  private scheduleReload(onError: (error: unknown) => void) {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = setTimeout(async () => {
+      this.reloadTimer = null;
+      try {
+        await this.load();
+        await this.buildIndex();
+        this.listeners.forEach(listener => listener());
+      } catch (error) {
+        onError(error);
       }
+    }, 200);
+  }
+
+  /**
+   * Find the rules whose patterns match the query on word boundaries, best
+   * first (priority, then most matched patterns, then longest pattern).
+   */
+  public findMatches(query: string): RuleMatch[] {
+    this.logger.debug('Matching query', { query });
+
+    const matches = this.rules
+      .map(rule => ({ rule, matchedPatterns: rule.patterns.filter(pattern => matchesPattern(query, pattern)) }))
+      .filter(match => match.matchedPatterns.length > 0)
+      .sort((a, b) =>
+        b.rule.priority - a.rule.priority ||
+        b.matchedPatterns.length - a.matchedPatterns.length ||
+        Math.max(...b.matchedPatterns.map(p => p.length)) - Math.max(...a.matchedPatterns.map(p => p.length))
+      );
+
+    for (const match of matches) {
+      this.logger.debug('Pattern match found', { patterns: match.matchedPatterns, promptFile: match.rule.promptFile });
     }
-    
-    console.error(`[DEBUG] No pattern match found for query: "${query}"`);
-    return null;
+    if (matches.length === 0) {
+      this.logger.debug('No pattern match found', { query });
+    }
+    return matches;
+  }
+
+  /**
+   * Find the best matching prompt based on the query
+   */
+  public findBestMatch(query: string): PromptRule | null {
+    return this.findMatches(query)[0]?.rule ?? null;
   }
 
   /**
@@ -77,52 +211,137 @@ export class PromptMatcher {
     return [...this.rules];
   }
 
+  /**
+   * Directory that holds the prompt files
+   */
+  public getPromptsDirectory(): string {
+    return this.registry.getDirectory();
+  }
+
   /**
    * Load prompt content from file
    */
   public async loadPromptContent(promptFile: string): Promise<string> {
-    const promptsDir = path.join(process.cwd(), 'prompts');
-    const filePath = path.join(promptsDir, promptFile);
+    const filePath = path.join(this.getPromptsDirectory(), promptFile);
     
-    console.error(`[DEBUG] Loading prompt file: ${filePath}`);
+    this.logger.debug('Loading prompt file', { file: filePath });
     
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      console.error(`[DEBUG] Successfully loaded prompt file: ${promptFile} (${content.length} chars)`);
+      const { body: content } = splitFrontMatter(await fs.readFile(filePath, 'utf-8'));
+      this.logger.debug('Loaded prompt file', { promptFile, chars: content.length });
       return content;
     } catch (error) {
-      console.error(`[ERROR] Failed to load prompt file ${promptFile}:`, error);
+      this.logger.error(`Failed to load prompt file ${promptFile}`, error);
       throw new Error(`Failed to load prompt file ${promptFile}: ${error}`);
     }
   }
 
   /**
-   * Get context for a query
+   * Split every rule's prompt file into sections and build the ranking index
    */
-  public async getContextForQuery(query: string): Promise<{
-    rule: PromptRule | null;
-    content: string | null;
-    matchFound: boolean;
-  }> {
-    const rule = this.findBestMatch(query);
-    
-    if (!rule) {
-      return {
-        rule: null,
-        content: null,
-        matchFound: false
-      };
+  public async buildIndex(): Promise<SectionRanker> {
+    await this.ensureLoaded();
+    const sections: GuideSection[] = [];
+    for (const file of new Set(this.rules.map(rule => rule.promptFile))) {
+      sections.push(...splitGuideSections(await this.loadPromptContent(file), file));
     }
+    this.ranker = new SectionRanker(ensureUniqueSlugs(sections, ['toc']));
+    this.logger.debug(`Indexed ${this.ranker.size} prompt sections`);
+    return this.ranker;
+  }
+
+  private ensureIndex(): Promise<SectionRanker> {
+    if (this.ranker) {
+      return Promise.resolve(this.ranker);
+    }
+    if (!this.indexing) {
+      this.indexing = this.buildIndex().finally(() => {
+        this.indexing = null;
+      });
+    }
+    return this.indexing;
+  }
+
+  /**
+   * Get the best ranked sections for a query within a section and character budget
+   */
+  public async getContextForQuery(query: string, options: ContextOptions = {}): Promise<ContextResult> {
+    const maxSections = options.maxSections ?? DEFAULT_MAX_SECTIONS;
+    const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+    await this.ensureLoaded();
+    const matches = this.findMatches(query);
+    const rule = matches[0]?.rule ?? null;
 
+    let ranker: SectionRanker;
     try {
-      const content = await this.loadPromptContent(rule.promptFile);
-      return {
-        rule,
-        content,
-        matchFound: true
-      };
+      ranker = await this.ensureIndex();
     } catch (error) {
       throw new Error(`Error loading context: ${error}`);
     }
+
+    // Restrict ranking to the matched rules' files when the query matched a rule.
+    const files = new Set(matches.map(match => match.rule.promptFile));
+    let ranked = ranker.rank(query).filter(candidate => files.size === 0 || files.has(candidate.section.file));
+    const matchFound = rule !== null || (ranked[0]?.score ?? 0) >= MIN_SECTION_SCORE;
+
+    if (!matchFound) {
+      return { rule: null, content: null, matchFound: false, matchedPatterns: [], sections: [], totalChars: 0 };
+    }
+
+    let fallback = false;
+    if (ranked.length === 0) {
+      fallback = true;
+      ranked = ranker.sectionsIn(files).map(section => ({ section, score: 0, matchedTerms: [], titleMatch: false }));
+    }
+
+    const sections: SelectedSection[] = [];
+    let totalChars = 0;
+    for (const candidate of ranked) {
+      if (sections.length >= maxSections) {
+        break;
+      }
+
+      let content = candidate.section.content;
+      let truncated = false;
+      if (totalChars + content.length > maxChars) {
+        // Skip sections that do not fit, unless nothing fits at all.
+        if (sections.length > 0) {
+          continue;
+        }
+        // The marker counts towards the budget, so totalChars never exceeds maxChars.
+        const marker = `\n\n[... truncated to ${maxChars} characters ...]`;
+        content = `${content.slice(0, Math.max(0, maxChars - marker.length))}${marker}`;
+        truncated = true;
+      }
+
+      sections.push({
+        slug: candidate.section.slug,
+        title: candidate.section.title,
+        file: candidate.section.file,
+        score: Number(candidate.score.toFixed(3)),
+        chars: content.length,
+        matchedTerms: candidate.matchedTerms.map(term => ({ term: term.term, score: Number(term.score.toFixed(3)) })),
+        reason: fallback ? 'No section matched the query terms; included in guide order' : this.explain(candidate),
+        truncated,
+        content
+      });
+      totalChars += content.length;
+    }
+
+    this.logger.debug(`Selected ${sections.length} sections (${totalChars} chars)`, { query, sections: sections.map(section => section.slug) });
+
+    return {
+      rule,
+      content: sections.map(section => section.content).join('\n\n---\n\n'),
+      matchFound: true,
+      matchedPatterns: matches.flatMap(match => match.matchedPatterns),
+      sections,
+      totalChars
+    };
+  }
+
+  private explain(candidate: RankedSection): string {
+    const terms = candidate.matchedTerms.map(term => `${term.term} (${term.score.toFixed(2)})`).join(', ');
+    return `BM25 score ${candidate.score.toFixed(2)} from ${terms}${candidate.titleMatch ? '; matches the section title' : ''}`;
   }
 }
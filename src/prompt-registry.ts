@@ -0,0 +1,264 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { SUPPORTED_SCHEMA_VERSIONS } from './dsl-parser.js';
+
+export interface PromptRule {
+  patterns: string[];
+  promptFile: string;
+  description: string;
+  tags: string[];
+  priority: number;
+  schemaVersion?: string;
+  source: 'front-matter' | 'index.json' | 'none';
+}
+
+export interface RegistryIssue {
+  severity: 'error' | 'warning';
+  file: string;
+  message: string;
+}
+
+export interface RegistryLoadResult {
+  rules: PromptRule[];
+  issues: RegistryIssue[];
+}
+
+export const PROMPT_INDEX_FILE = 'index.json';
+
+const METADATA_KEYS = ['patterns', 'description', 'tags', 'priority', 'schemaVersion'];
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Split a markdown file into its YAML front-matter (if any) and body.
+ */
+export function splitFrontMatter(content: string): { frontMatter: string | null; body: string } {
+  const match = FRONT_MATTER.exec(content);
+  if (!match) {
+    return { frontMatter: null, body: content };
+  }
+  return { frontMatter: match[1], body: content.slice(match[0].length) };
+}
+
+/**
+ * Discovers prompt files in a directory and builds matching rules from their
+ * YAML front-matter or from an `index.json` next to them.
+ */
+export class PromptRegistry {
+  constructor(private readonly directory: string) {}
+
+  public getDirectory(): string {
+    return this.directory;
+  }
+
+  public async load(): Promise<RegistryLoadResult> {
+    const issues: RegistryIssue[] = [];
+    const entries = await fs.readdir(this.directory);
+    const files = entries.filter(file => file.endsWith('.md')).sort();
+    const indexMetadata = await this.loadIndex(entries, issues);
+
+    for (const file of Object.keys(indexMetadata)) {
+      if (!files.includes(file)) {
+        issues.push({ severity: 'warning', file: PROMPT_INDEX_FILE, message: `Entry for '${file}' does not match any prompt file` });
+      }
+    }
+
+    const rules: PromptRule[] = [];
+    for (const file of files) {
+      const content = await fs.readFile(path.join(this.directory, file), 'utf-8');
+      const { frontMatter, body } = splitFrontMatter(content);
+
+      let raw: unknown = undefined;
+      let source: PromptRule['source'] = 'none';
+      if (frontMatter !== null) {
+        try {
+          raw = parseYaml(frontMatter);
+          source = 'front-matter';
+        } catch (error) {
+          issues.push({ severity: 'error', file, message: `Invalid front-matter: ${error instanceof Error ? error.message : String(error)}` });
+          continue;
+        }
+        if (file in indexMetadata) {
+          issues.push({ severity: 'warning', file, message: `Metadata in ${PROMPT_INDEX_FILE} is ignored because the file has front-matter` });
+        }
+      } else if (file in indexMetadata) {
+        raw = indexMetadata[file];
+        source = 'index.json';
+      }
+
+      const rule = this.validate(file, raw, source, body, issues);
+      if (rule) {
+        rules.push(rule);
+      }
+    }
+
+    this.checkPatterns(rules, issues);
+    rules.sort((a, b) => b.priority - a.priority || a.promptFile.localeCompare(b.promptFile));
+    return { rules, issues };
+  }
+
+  private async loadIndex(entries: string[], issues: RegistryIssue[]): Promise<Record<string, unknown>> {
+    if (!entries.includes(PROMPT_INDEX_FILE)) {
+      return {};
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await fs.readFile(path.join(this.directory, PROMPT_INDEX_FILE), 'utf-8'));
+    } catch (error) {
+      issues.push({ severity: 'error', file: PROMPT_INDEX_FILE, message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` });
+      return {};
+    }
+
+    const prompts = (data as { prompts?: unknown })?.prompts;
+    if (!Array.isArray(prompts)) {
+      issues.push({ severity: 'error', file: PROMPT_INDEX_FILE, message: `Expected { "prompts": [ { "file": "...", ... } ] }` });
+      return {};
+    }
+
+    const metadata: Record<string, unknown> = {};
+    prompts.forEach((entry, i) => {
+      const file = (entry as { file?: unknown })?.file;
+      if (typeof file !== 'string' || file.length === 0) {
+        issues.push({ severity: 'error', file: PROMPT_INDEX_FILE, message: `prompts[${i}] is missing a 'file'` });
+        return;
+      }
+      if (file in metadata) {
+        issues.push({ severity: 'error', file: PROMPT_INDEX_FILE, message: `'${file}' is listed more than once` });
+        return;
+      }
+      const rest = { ...(entry as Record<string, unknown>) };
+      delete rest.file;
+      metadata[file] = rest;
+    });
+    return metadata;
+  }
+
+  private validate(
+    file: string,
+    raw: unknown,
+    source: PromptRule['source'],
+    body: string,
+    issues: RegistryIssue[]
+  ): PromptRule | null {
+    const heading = /^#\s+(.+)$/m.exec(body)?.[1].replace(/[*_`]/g, '').trim();
+    const rule: PromptRule = {
+      patterns: [],
+      promptFile: file,
+      description: heading ?? file,
+      tags: [],
+      priority: 0,
+      source
+    };
+
+    if (raw === undefined || raw === null) {
+      issues.push({
+        severity: 'warning',
+        file,
+        message: `No metadata found (front-matter or ${PROMPT_INDEX_FILE}); the file is only reachable through section ranking`
+      });
+      return rule;
+    }
+
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+      issues.push({ severity: 'error', file, message: 'Metadata must be a mapping' });
+      return null;
+    }
+
+    const metadata = raw as Record<string, unknown>;
+    const errors: string[] = [];
+
+    for (const key of Object.keys(metadata)) {
+      if (!METADATA_KEYS.includes(key)) {
+        issues.push({ severity: 'warning', file, message: `Unknown metadata key '${key}', expected one of ${METADATA_KEYS.join(', ')}` });
+      }
+    }
+
+    const isStringList = (value: unknown) =>
+      Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim().length > 0);
+
+    if (metadata.patterns !== undefined) {
+      if (!isStringList(metadata.patterns)) {
+        errors.push(`'patterns' must be a list of non-empty strings`);
+      } else {
+        rule.patterns = (metadata.patterns as string[]).map(pattern => pattern.trim().toLowerCase());
+      }
+    }
+    if (rule.patterns.length === 0 && errors.length === 0) {
+      issues.push({ severity: 'warning', file, message: `No 'patterns' defined; the file is only reachable through section ranking` });
+    }
+
+    if (metadata.description !== undefined) {
+      if (typeof metadata.description !== 'string' || metadata.description.trim().length === 0) {
+        errors.push(`'description' must be a non-empty string`);
+      } else {
+        rule.description = metadata.description.trim();
+      }
+    }
+
+    if (metadata.tags !== undefined) {
+      if (!isStringList(metadata.tags)) {
+        errors.push(`'tags' must be a list of non-empty strings`);
+      } else {
+        rule.tags = metadata.tags as string[];
+      }
+    }
+
+    if (metadata.priority !== undefined) {
+      if (!Number.isInteger(metadata.priority)) {
+        errors.push(`'priority' must be an integer`);
+      } else {
+        rule.priority = metadata.priority as number;
+      }
+    }
+
+    if (metadata.schemaVersion !== undefined) {
+      const version = String(metadata.schemaVersion);
+      if (!SUPPORTED_SCHEMA_VERSIONS.includes(version)) {
+        errors.push(`'schemaVersion' must be one of ${SUPPORTED_SCHEMA_VERSIONS.join(', ')}`);
+      } else {
+        rule.schemaVersion = version;
+      }
+    }
+
+    if (errors.length > 0) {
+      errors.forEach(message => issues.push({ severity: 'error', file, message }));
+      return null;
+    }
+    return rule;
+  }
+
+  /**
+   * Report patterns repeated within a file or claimed by several files. When
+   * files conflict, the higher priority (then file name order) wins.
+   */
+  private checkPatterns(rules: PromptRule[], issues: RegistryIssue[]) {
+    const owners = new Map<string, PromptRule[]>();
+
+    for (const rule of rules) {
+      const seen = new Set<string>();
+      for (const pattern of rule.patterns) {
+        if (seen.has(pattern)) {
+          issues.push({ severity: 'warning', file: rule.promptFile, message: `Duplicate pattern '${pattern}'` });
+          continue;
+        }
+        seen.add(pattern);
+        owners.set(pattern, [...(owners.get(pattern) ?? []), rule]);
+      }
+      rule.patterns = [...seen];
+    }
+
+    for (const [pattern, claimants] of owners) {
+      if (claimants.length < 2) {
+        continue;
+      }
+      const files = claimants.map(rule => `${rule.promptFile} (priority ${rule.priority})`).join(', ');
+      const tied = claimants.filter(rule => rule.priority === Math.max(...claimants.map(c => c.priority))).length > 1;
+      issues.push({
+        severity: 'warning',
+        file: claimants[0].promptFile,
+        message: `Pattern '${pattern}' is claimed by ${files}${tied ? '; equal priority, so file name order decides' : ''}`
+      });
+    }
+  }
+}
@@ -0,0 +1,75 @@
+export interface RateLimitOptions {
+  /**
+   * Tokens added to each client's bucket per second.
+   */
+  ratePerSecond: number;
+  /**
+   * Bucket size: how many requests a client can make in a burst.
+   */
+  burst: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  /**
+   * Seconds until the next request would be allowed (0 when allowed).
+   */
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const PRUNE_INTERVAL = 1000;
+
+/**
+ * Per-client token buckets. Buckets that have refilled completely are
+ * dropped periodically, so memory stays proportional to active clients.
+ */
+export class TokenBucketRateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private calls = 0;
+
+  constructor(private readonly options: RateLimitOptions, private readonly now: () => number = Date.now) {
+    if (!(options.ratePerSecond > 0) || !(options.burst >= 1)) {
+      throw new Error('Rate limits need a positive rate and a burst of at least 1');
+    }
+  }
+
+  public take(client: string): RateLimitDecision {
+    const now = this.now();
+    if (++this.calls % PRUNE_INTERVAL === 0) {
+      this.prune(now);
+    }
+
+    const bucket = this.buckets.get(client) ?? { tokens: this.options.burst, updatedAt: now };
+    bucket.tokens = Math.min(this.options.burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * this.options.ratePerSecond);
+    bucket.updatedAt = now;
+    this.buckets.set(client, bucket);
+
+    if (bucket.tokens < 1) {
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((1 - bucket.tokens) / this.options.ratePerSecond))
+      };
+    }
+    bucket.tokens -= 1;
+    return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+  }
+
+  public get clients(): number {
+    return this.buckets.size;
+  }
+
+  private prune(now: number) {
+    for (const [client, bucket] of this.buckets) {
+      if (bucket.tokens + ((now - bucket.updatedAt) / 1000) * this.options.ratePerSecond >= this.options.burst) {
+        this.buckets.delete(client);
+      }
+    }
+  }
+}
@@ -0,0 +1,652 @@
+import { AuthorizationModelAst, ConditionDefinition, RewriteNode, TypeRestriction } from './dsl-parser.js';
+import { formatRewrite } from './dsl-formatter.js';
+import { ModelIndex, formatRestriction, indexModel } from './model-index.js';
+import { RelationshipTuple } from './tuple-formats.js';
+
+export type EvaluationContext = Record<string, unknown>;
+
+/**
+ * Evaluates a condition expression against the merged tuple and request
+ * context. Implementations throw ConditionEvaluationError when the condition
+ * cannot be evaluated (e.g. missing parameters).
+ */
+export interface ConditionEvaluator {
+  evaluate(condition: ConditionDefinition, context: EvaluationContext): boolean;
+}
+
+export class EvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvaluationError';
+  }
+}
+
+export class ConditionEvaluationError extends EvaluationError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConditionEvaluationError';
+  }
+}
+
+export interface ObjectRef {
+  type: string;
+  id: string;
+}
+
+/**
+ * A user reference: an object (`user:anne`), a wildcard (`user:*`, id `*`) or
+ * a userset (`team:product#member`).
+ */
+export interface UserRef extends ObjectRef {
+  relation?: string;
+}
+
+export interface UserFilter {
+  type: string;
+  relation?: string;
+}
+
+export function parseObjectRef(value: string): ObjectRef | null {
+  const match = /^([^:#\s]+):([^#\s]+)$/.exec(value);
+  return match ? { type: match[1], id: match[2] } : null;
+}
+
+export function parseUserRef(value: string): UserRef | null {
+  const match = /^([^:#\s]+):([^#\s]+)(?:#([^:#\s]+))?$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const user: UserRef = { type: match[1], id: match[2] };
+  if (match[3]) {
+    user.relation = match[3];
+  }
+  return user;
+}
+
+export type ExplanationOutcome = 'allowed' | 'denied' | 'error';
+
+export type ExplanationNodeKind =
+  'relation' | 'direct' | 'computed' | 'tupleToUserset' | 'union' | 'intersection' | 'exclusion' | 'tuple' | 'condition';
+
+/**
+ * One step of a check: a relation, a rewrite operator, a tuple that was
+ * followed or a condition on it. `error` outcomes come from conditions that
+ * could not be evaluated.
+ */
+export interface ExplanationNode {
+  kind: ExplanationNodeKind;
+  outcome: ExplanationOutcome;
+  /**
+   * `document:1#viewer`, `editor from parent`, `[user, team#member]`,
+   * `document:1#parent@folder:x` or `condition non_expired_grant`.
+   */
+  label: string;
+  /**
+   * Why the node has its outcome when the children do not show it.
+   */
+  reason?: string;
+  error?: string;
+  /**
+   * The relation's definition, on `relation` nodes.
+   */
+  rewrite?: string;
+  tuple?: RelationshipTuple;
+  /**
+   * The merged request and tuple context, on `condition` nodes.
+   */
+  context?: EvaluationContext;
+  children: ExplanationNode[];
+}
+
+/**
+ * Explanations expand every branch, so they are capped; relations past the
+ * cap are still checked but not expanded.
+ */
+export const MAX_EXPLANATION_NODES = 2000;
+
+interface Frame {
+  user: string;
+  type: string;
+  id: string;
+  relation: string;
+  context: EvaluationContext;
+  path: Set<string>;
+}
+
+interface ExplainFrame extends Frame {
+  budget: { remaining: number };
+}
+
+function anyOutcome(children: ExplanationNode[]): ExplanationOutcome {
+  if (children.some(child => child.outcome === 'allowed')) {
+    return 'allowed';
+  }
+  return children.some(child => child.outcome === 'error') ? 'error' : 'denied';
+}
+
+function allOutcome(children: ExplanationNode[]): ExplanationOutcome {
+  if (children.some(child => child.outcome === 'denied')) {
+    return 'denied';
+  }
+  return children.some(child => child.outcome === 'error') ? 'error' : 'allowed';
+}
+
+function tupleLabel(tuple: RelationshipTuple): string {
+  return `${tuple.object}#${tuple.relation}@${tuple.user}`;
+}
+
+/**
+ * In-memory relationship graph that answers check, list_objects and
+ * list_users queries for a model and a set of tuples, following direct,
+ * computed, tuple-to-userset and userset relations.
+ */
+export class RelationshipGraph {
+  private readonly index: ModelIndex;
+  private readonly tuplesByKey = new Map<string, RelationshipTuple[]>();
+  private readonly objectsByType = new Map<string, Set<string>>();
+
+  constructor(
+    model: AuthorizationModelAst,
+    tuples: RelationshipTuple[],
+    private readonly conditionEvaluator?: ConditionEvaluator
+  ) {
+    this.index = indexModel(model);
+
+    for (const tuple of tuples) {
+      const key = `${tuple.object}#${tuple.relation}`;
+      this.tuplesByKey.set(key, [...(this.tuplesByKey.get(key) ?? []), tuple]);
+
+      const object = parseObjectRef(tuple.object);
+      if (object) {
+        this.addObject(object);
+      }
+      const user = parseUserRef(tuple.user);
+      if (user && user.id !== '*') {
+        this.addObject(user);
+      }
+    }
+  }
+
+  /**
+   * Does `user` have `relation` on `object`?
+   */
+  public check(user: string, relation: string, object: string, context: EvaluationContext = {}): boolean {
+    const target = this.requireObject(object);
+    this.requireUser(user);
+    return this.checkRelation(user, target.type, target.id, relation, context, new Set());
+  }
+
+  /**
+   * The evaluation tree behind check(): every rewrite step, the tuples that
+   * were followed and the conditions on them. Unlike check(), all branches of
+   * a union are expanded, and a condition that cannot be evaluated becomes an
+   * `error` node instead of an exception.
+   */
+  public explain(user: string, relation: string, object: string, context: EvaluationContext = {}): ExplanationNode {
+    const target = this.requireObject(object);
+    this.requireUser(user);
+    this.requireRelation(target.type, relation);
+    return this.explainRelation(user, target.type, target.id, relation, context, new Set(), { remaining: MAX_EXPLANATION_NODES });
+  }
+
+  /**
+   * All objects of `type` on which `user` has `relation`.
+   */
+  public listObjects(user: string, relation: string, type: string, context: EvaluationContext = {}): string[] {
+    this.requireUser(user);
+    this.requireRelation(type, relation);
+    const ids = [...(this.objectsByType.get(type) ?? [])];
+    return ids
+      .filter(id => this.checkRelation(user, type, id, relation, context, new Set()))
+      .map(id => `${type}:${id}`)
+      .sort();
+  }
+
+  /**
+   * All users matching one of `filters` that have `relation` on `object`, as
+   * OpenFGA's ListUsers returns them: a wildcard (`user:*`) stands for every
+   * user of its type, so concrete users are only listed when a tuple on the
+   * way to the object names them.
+   */
+  public listUsers(object: string, relation: string, filters: UserFilter[], context: EvaluationContext = {}): string[] {
+    const target = this.requireObject(object);
+    this.requireRelation(target.type, relation);
+
+    const candidates = new Set<string>();
+    this.expandUsers(target.type, target.id, relation, filters, candidates, new Set());
+    return [...candidates]
+      .filter(user => this.checkRelation(user, target.type, target.id, relation, context, new Set()))
+      .sort();
+  }
+
+  /**
+   * Collects the users that could hold `relation` on `type:id` by following
+   * its rewrite outward: direct tuples, the usersets they name, computed
+   * relations and tuple-to-userset parents. Conditions, intersections and
+   * exclusions are left to check(), which filters the candidates.
+   */
+  private expandUsers(type: string, id: string, relation: string, filters: UserFilter[], found: Set<string>, visited: Set<string>) {
+    const userset = `${type}:${id}#${relation}`;
+    if (visited.has(userset) || !this.index.types.get(type)?.has(relation)) {
+      return;
+    }
+    visited.add(userset);
+    if (filters.some(filter => filter.type === type && filter.relation === relation)) {
+      found.add(userset);
+    }
+
+    const expand = (node: RewriteNode): void => {
+      switch (node.kind) {
+        case 'direct':
+          for (const tuple of this.tuplesFor(type, id, relation)) {
+            const user = parseUserRef(tuple.user);
+            if (!user) {
+              continue;
+            }
+            if (user.relation) {
+              this.expandUsers(user.type, user.id, user.relation, filters, found, visited);
+            } else if (filters.some(filter => filter.type === user.type && !filter.relation)) {
+              found.add(tuple.user);
+            }
+          }
+          return;
+        case 'computed':
+          this.expandUsers(type, id, node.relation, filters, found, visited);
+          return;
+        case 'tupleToUserset':
+          for (const tuple of this.tuplesFor(type, id, node.tupleset)) {
+            const parent = parseUserRef(tuple.user);
+            if (parent && !parent.relation && parent.id !== '*') {
+              this.expandUsers(parent.type, parent.id, node.relation, filters, found, visited);
+            }
+          }
+          return;
+        case 'union':
+        case 'intersection':
+          node.children.forEach(expand);
+          return;
+        case 'exclusion':
+          expand(node.base);
+          return;
+      }
+    };
+    expand(this.index.types.get(type)!.get(relation)!.rewrite);
+  }
+
+  private addObject(object: ObjectRef) {
+    const ids = this.objectsByType.get(object.type) ?? new Set<string>();
+    ids.add(object.id);
+    this.objectsByType.set(object.type, ids);
+  }
+
+  private requireObject(object: string): ObjectRef {
+    const parsed = parseObjectRef(object);
+    if (!parsed || parsed.id === '*') {
+      throw new EvaluationError(`Invalid object '${object}', expected '<type>:<id>'`);
+    }
+    if (!this.index.types.has(parsed.type)) {
+      throw new EvaluationError(`Type '${parsed.type}' is not defined in the model`);
+    }
+    return parsed;
+  }
+
+  private requireUser(user: string) {
+    const parsed = parseUserRef(user);
+    if (!parsed) {
+      throw new EvaluationError(`Invalid user '${user}', expected '<type>:<id>', '<type>:*' or '<type>:<id>#<relation>'`);
+    }
+    if (!this.index.types.has(parsed.type)) {
+      throw new EvaluationError(`Type '${parsed.type}' is not defined in the model`);
+    }
+  }
+
+  private requireRelation(type: string, relation: string) {
+    if (!this.index.types.has(type)) {
+      throw new EvaluationError(`Type '${type}' is not defined in the model`);
+    }
+    if (!this.index.types.get(type)!.has(relation)) {
+      throw new EvaluationError(`Relation '${relation}' is not defined on type '${type}'`);
+    }
+  }
+
+  private checkRelation(
+    user: string,
+    type: string,
+    id: string,
+    relation: string,
+    context: EvaluationContext,
+    path: Set<string>
+  ): boolean {
+    this.requireRelation(type, relation);
+
+    // A userset always contains itself: team:x#member is a member of team:x.
+    if (user === `${type}:${id}#${relation}`) {
+      return true;
+    }
+
+    // Break cycles such as `viewer from parent` on self-referencing objects.
+    const key = `${user}|${type}:${id}#${relation}`;
+    if (path.has(key)) {
+      return false;
+    }
+
+    path.add(key);
+    try {
+      const definition = this.index.types.get(type)!.get(relation)!;
+      return this.evaluate(definition.rewrite, { user, type, id, relation, context, path });
+    } finally {
+      path.delete(key);
+    }
+  }
+
+  private evaluate(node: RewriteNode, frame: Frame): boolean {
+    switch (node.kind) {
+      case 'direct':
+        return this.evaluateDirect(node.types, frame);
+
+      case 'computed':
+        return this.checkRelation(frame.user, frame.type, frame.id, node.relation, frame.context, frame.path);
+
+      case 'tupleToUserset':
+        return this.anyOf(this.tuplesFor(frame.type, frame.id, node.tupleset), tuple => {
+          const parent = parseUserRef(tuple.user);
+          if (!parent || parent.relation || parent.id === '*' || !this.index.types.get(parent.type)?.has(node.relation)) {
+            return false;
+          }
+          return this.conditionHolds(tuple, frame.context) &&
+            this.checkRelation(frame.user, parent.type, parent.id, node.relation, frame.context, frame.path);
+        });
+
+      case 'union':
+        return this.anyOf(node.children, child => this.evaluate(child, frame));
+
+      case 'intersection': {
+        let failure: unknown;
+        for (const child of node.children) {
+          try {
+            if (!this.evaluate(child, frame)) {
+              return false;
+            }
+          } catch (error) {
+            failure ??= error;
+          }
+        }
+        if (failure) {
+          throw failure;
+        }
+        return true;
+      }
+
+      case 'exclusion':
+        return this.evaluate(node.base, frame) && !this.evaluate(node.subtract, frame);
+    }
+  }
+
+  private explainRelation(
+    user: string,
+    type: string,
+    id: string,
+    relation: string,
+    context: EvaluationContext,
+    path: Set<string>,
+    budget: { remaining: number }
+  ): ExplanationNode {
+    const definition = this.index.types.get(type)!.get(relation)!;
+    const node: ExplanationNode = {
+      kind: 'relation',
+      outcome: 'denied',
+      label: `${type}:${id}#${relation}`,
+      rewrite: formatRewrite(definition.rewrite),
+      children: []
+    };
+
+    if (user === node.label) {
+      return { ...node, outcome: 'allowed', reason: 'the user is this userset' };
+    }
+    const key = `${user}|${type}:${id}#${relation}`;
+    if (path.has(key)) {
+      return { ...node, reason: 'cycle: already being evaluated on this path' };
+    }
+    if (--budget.remaining < 0) {
+      try {
+        node.outcome = this.checkRelation(user, type, id, relation, context, path) ? 'allowed' : 'denied';
+      } catch (error) {
+        node.outcome = 'error';
+        node.error = error instanceof Error ? error.message : String(error);
+      }
+      return { ...node, reason: `not expanded: the explanation is limited to ${MAX_EXPLANATION_NODES} relations` };
+    }
+
+    path.add(key);
+    try {
+      const child = this.explainRewrite(definition.rewrite, { user, type, id, relation, context, path, budget });
+      return { ...node, outcome: child.outcome, children: [child] };
+    } finally {
+      path.delete(key);
+    }
+  }
+
+  private explainRewrite(node: RewriteNode, frame: ExplainFrame): ExplanationNode {
+    switch (node.kind) {
+      case 'direct':
+        return this.explainDirect(node.types, frame);
+
+      case 'computed': {
+        const child = this.explainRelation(frame.user, frame.type, frame.id, node.relation, frame.context, frame.path, frame.budget);
+        return { kind: 'computed', outcome: child.outcome, label: node.relation, children: [child] };
+      }
+
+      case 'tupleToUserset': {
+        const tuples = this.tuplesFor(frame.type, frame.id, node.tupleset);
+        const children = tuples.map(tuple => {
+          const parent = parseUserRef(tuple.user);
+          const step: ExplanationNode = { kind: 'tuple', outcome: 'denied', label: tupleLabel(tuple), tuple, children: [] };
+          if (!parent || parent.relation || parent.id === '*') {
+            return { ...step, reason: `'${tuple.user}' is not an object, so it is not followed` };
+          }
+          if (!this.index.types.get(parent.type)?.has(node.relation)) {
+            return { ...step, reason: `type '${parent.type}' has no relation '${node.relation}'` };
+          }
+          return this.followTuple(step, tuple, frame, () =>
+            this.explainRelation(frame.user, parent.type, parent.id, node.relation, frame.context, frame.path, frame.budget));
+        });
+        return {
+          kind: 'tupleToUserset',
+          outcome: anyOutcome(children),
+          label: formatRewrite(node),
+          ...(children.length === 0 ? { reason: `no ${frame.type}:${frame.id}#${node.tupleset} tuples` } : {}),
+          children
+        };
+      }
+
+      case 'union':
+      case 'intersection': {
+        const children = node.children.map(child => this.explainRewrite(child, frame));
+        const outcome = node.kind === 'union' ? anyOutcome(children) : allOutcome(children);
+        return { kind: node.kind, outcome, label: formatRewrite(node), children };
+      }
+
+      case 'exclusion': {
+        const label = formatRewrite(node);
+        const base = this.explainRewrite(node.base, frame);
+        if (base.outcome !== 'allowed') {
+          return { kind: 'exclusion', outcome: base.outcome, label, children: [base] };
+        }
+        const subtract = this.explainRewrite(node.subtract, frame);
+        switch (subtract.outcome) {
+          case 'allowed':
+            return {
+              kind: 'exclusion',
+              outcome: 'denied',
+              label,
+              reason: `access removed by 'but not ${formatRewrite(node.subtract, true)}'`,
+              children: [base, subtract]
+            };
+          case 'error':
+            return { kind: 'exclusion', outcome: 'error', label, children: [base, subtract] };
+          default:
+            return { kind: 'exclusion', outcome: 'allowed', label, children: [base, subtract] };
+        }
+      }
+    }
+  }
+
+  /**
+   * Only the tuples that could grant `frame.user` are included: its own
+   * tuples, matching wildcards and usersets.
+   */
+  private explainDirect(restrictions: TypeRestriction[], frame: ExplainFrame): ExplanationNode {
+    const user = parseUserRef(frame.user)!;
+    const tuples = this.tuplesFor(frame.type, frame.id, frame.relation);
+    const children: ExplanationNode[] = [];
+
+    for (const tuple of tuples) {
+      const tupleUser = parseUserRef(tuple.user);
+      if (!tupleUser) {
+        continue;
+      }
+      const isUserset = tupleUser.relation !== undefined && tuple.user !== frame.user;
+      const matches = tuple.user === frame.user ||
+        (tupleUser.id === '*' && !user.relation && user.type === tupleUser.type);
+      if (!isUserset && !matches) {
+        continue;
+      }
+
+      const step: ExplanationNode = { kind: 'tuple', outcome: 'denied', label: tupleLabel(tuple), tuple, children: [] };
+      if (!this.isAllowed(tupleUser, tuple, restrictions)) {
+        children.push({ ...step, reason: `ignored: not allowed by the type restrictions [${restrictions.map(formatRestriction).join(', ')}]` });
+      } else if (isUserset) {
+        children.push(this.followTuple(step, tuple, frame, () =>
+          this.explainRelation(frame.user, tupleUser.type, tupleUser.id, tupleUser.relation!, frame.context, frame.path, frame.budget)));
+      } else {
+        children.push(this.followTuple(step, tuple, frame));
+      }
+    }
+
+    const unrelated = tuples.length - children.length;
+    return {
+      kind: 'direct',
+      outcome: anyOutcome(children),
+      label: `[${restrictions.map(formatRestriction).join(', ')}]`,
+      ...(children.length === 0
+        ? { reason: `no tuple assigns ${frame.user}${unrelated > 0 ? ` (${unrelated} tuple(s) for other users)` : ''}` }
+        : {}),
+      children
+    };
+  }
+
+  /**
+   * A tuple grants what `next` grants, once its condition (if any) holds.
+   */
+  private followTuple(step: ExplanationNode, tuple: RelationshipTuple, frame: ExplainFrame, next?: () => ExplanationNode): ExplanationNode {
+    const children: ExplanationNode[] = [];
+    if (tuple.condition) {
+      const condition = this.explainCondition(tuple, frame.context);
+      children.push(condition);
+      if (condition.outcome !== 'allowed') {
+        return { ...step, outcome: condition.outcome, children };
+      }
+    }
+    if (!next) {
+      return { ...step, outcome: 'allowed', children };
+    }
+    const child = next();
+    children.push(child);
+    return { ...step, outcome: child.outcome, children };
+  }
+
+  private explainCondition(tuple: RelationshipTuple, context: EvaluationContext): ExplanationNode {
+    const node: ExplanationNode = {
+      kind: 'condition',
+      outcome: 'denied',
+      label: `condition ${tuple.condition!.name}`,
+      context: { ...context, ...(tuple.condition!.context ?? {}) },
+      children: []
+    };
+    try {
+      return this.conditionHolds(tuple, context)
+        ? { ...node, outcome: 'allowed' }
+        : { ...node, reason: 'the condition evaluated to false' };
+    } catch (error) {
+      return { ...node, outcome: 'error', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private evaluateDirect(restrictions: TypeRestriction[], frame: Frame): boolean {
+    const user = parseUserRef(frame.user)!;
+
+    return this.anyOf(this.tuplesFor(frame.type, frame.id, frame.relation), tuple => {
+      const tupleUser = parseUserRef(tuple.user);
+      if (!tupleUser || !this.isAllowed(tupleUser, tuple, restrictions)) {
+        return false;
+      }
+
+      // Usersets (team:x#member) grant the relation to everyone in the set.
+      if (tupleUser.relation && tuple.user !== frame.user) {
+        return this.conditionHolds(tuple, frame.context) &&
+          this.checkRelation(frame.user, tupleUser.type, tupleUser.id, tupleUser.relation, frame.context, frame.path);
+      }
+
+      const matches = tuple.user === frame.user ||
+        (tupleUser.id === '*' && !user.relation && user.type === tupleUser.type);
+      return matches && this.conditionHolds(tuple, frame.context);
+    });
+  }
+
+  /**
+   * Tuples that do not satisfy the relation's type restrictions (for example
+   * left over from an older model) are ignored, as OpenFGA does.
+   */
+  private isAllowed(user: UserRef, tuple: RelationshipTuple, restrictions: TypeRestriction[]): boolean {
+    return restrictions.some(restriction =>
+      restriction.type === user.type &&
+      restriction.wildcard === (user.id === '*') &&
+      restriction.relation === user.relation &&
+      restriction.condition === tuple.condition?.name
+    );
+  }
+
+  private tuplesFor(type: string, id: string, relation: string): RelationshipTuple[] {
+    return this.tuplesByKey.get(`${type}:${id}#${relation}`) ?? [];
+  }
+
+  /**
+   * True if `predicate` holds for any item. Errors are only surfaced when no
+   * item succeeds, so one failing branch cannot mask another granting access.
+   */
+  private anyOf<T>(items: T[], predicate: (item: T) => boolean): boolean {
+    let failure: unknown;
+    for (const item of items) {
+      try {
+        if (predicate(item)) {
+          return true;
+        }
+      } catch (error) {
+        failure ??= error;
+      }
+    }
+    if (failure) {
+      throw failure;
+    }
+    return false;
+  }
+
+  private conditionHolds(tuple: RelationshipTuple, context: EvaluationContext): boolean {
+    if (!tuple.condition) {
+      return true;
+    }
+
+    const condition = this.index.conditions.get(tuple.condition.name);
+    if (!condition) {
+      throw new ConditionEvaluationError(`Condition '${tuple.condition.name}' is not defined in the model`);
+    }
+    if (!this.conditionEvaluator) {
+      throw new ConditionEvaluationError(
+        `Condition '${condition.name}' on tuple ${tuple.user} ${tuple.relation} ${tuple.object} cannot be evaluated: no condition evaluator is configured`
+      );
+    }
+
+    // Values stored on the tuple take precedence over the request context.
+    return this.conditionEvaluator.evaluate(condition, { ...context, ...(tuple.condition.context ?? {}) });
+  }
+}
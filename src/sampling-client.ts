@@ -0,0 +1,46 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CreateMessageRequest,
+  CreateMessageResult,
+  CreateMessageResultSchema,
+  ServerNotification,
+  ServerRequest
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Asks the client's model for a completion (MCP `sampling/createMessage`).
+ * Tools take this interface rather than a Server so they can be driven by a
+ * stub.
+ */
+export interface SamplingClient {
+  createMessage(params: CreateMessageRequest['params']): Promise<CreateMessageResult>;
+}
+
+/**
+ * Clients usually ask the user to approve each sampling request, so allow
+ * far longer than the SDK's default request timeout.
+ */
+export const SAMPLING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Sampling through the client that sent a request. Sampling requests are
+ * sent as part of that request, so over HTTP they reach the client on the
+ * request's own response stream, and are cancelled with it. Undefined when
+ * the client did not declare the `sampling` capability.
+ */
+export function requestSamplingClient(
+  server: Server,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): SamplingClient | undefined {
+  if (!server.getClientCapabilities()?.sampling) {
+    return undefined;
+  }
+  return {
+    createMessage: params => extra.sendRequest(
+      { method: 'sampling/createMessage', params },
+      CreateMessageResultSchema,
+      { signal: extra.signal, timeout: SAMPLING_TIMEOUT_MS }
+    )
+  };
+}
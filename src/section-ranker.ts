@@ -0,0 +1,159 @@
+import { GuideSection } from './guide-sections.js';
+
+/**
+ * BM25 ranking of guide sections for free-text queries.
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in',
+  'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'please', 'should', 'so', 'that', 'the', 'their',
+  'then', 'there', 'these', 'this', 'to', 'us', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will',
+  'with', 'you', 'your'
+]);
+
+const TITLE_WEIGHT = 3;
+const SUBHEADING_WEIGHT = 2;
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Reduce a word to a crude stem so that "roles"/"role" and
+ * "permissions"/"permission" match. Applied to queries and documents alike.
+ */
+export function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 5 && word.endsWith('ing')) {
+    return word.slice(0, -3);
+  }
+  if (word.length > 4 && word.endsWith('ed')) {
+    return word.slice(0, -2);
+  }
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Lowercase, split on non-word characters, drop stop words and stem.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Word-boundary match of a (possibly multi-word) pattern against a query, so
+ * that `auth` does not match "author" or "authentic". Plurals are accepted.
+ */
+export function matchesPattern(query: string, pattern: string): boolean {
+  const words = pattern.toLowerCase().trim().split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (words.length === 0 || words[0].length === 0) {
+    return false;
+  }
+  return new RegExp(`(^|[^a-z0-9])${words.join('[\\s_-]+')}(s|es)?($|[^a-z0-9])`, 'i').test(query);
+}
+
+export interface TermScore {
+  term: string;
+  score: number;
+}
+
+export interface RankedSection {
+  section: GuideSection;
+  score: number;
+  matchedTerms: TermScore[];
+  titleMatch: boolean;
+}
+
+interface IndexedSection {
+  section: GuideSection;
+  frequencies: Map<string, number>;
+  length: number;
+  titleTerms: Set<string>;
+}
+
+export class SectionRanker {
+  private readonly documents: IndexedSection[];
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(sections: GuideSection[]) {
+    this.documents = sections.map(section => {
+      const titleTerms = tokenize(section.title);
+      const terms = [
+        ...tokenize(section.content),
+        ...Array(TITLE_WEIGHT).fill(titleTerms).flat(),
+        ...Array(SUBHEADING_WEIGHT).fill(tokenize(section.subheadings.join(' '))).flat()
+      ];
+      const frequencies = new Map<string, number>();
+      terms.forEach(term => frequencies.set(term, (frequencies.get(term) ?? 0) + 1));
+      return { section, frequencies, length: terms.length, titleTerms: new Set(titleTerms) };
+    });
+
+    for (const document of this.documents) {
+      for (const term of document.frequencies.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+
+    const total = this.documents.reduce((sum, document) => sum + document.length, 0);
+    this.averageLength = this.documents.length > 0 ? total / this.documents.length : 0;
+  }
+
+  /**
+   * Sections from the given files (all sections if empty), in document order.
+   */
+  public sectionsIn(files: Set<string>): GuideSection[] {
+    return this.documents
+      .map(document => document.section)
+      .filter(section => files.size === 0 || files.has(section.file));
+  }
+
+  public get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * Score every section against the query, best first. Sections that match
+   * no query term are omitted.
+   */
+  public rank(query: string): RankedSection[] {
+    const terms = [...new Set(tokenize(query))];
+    const count = this.documents.length;
+    const ranked: RankedSection[] = [];
+
+    for (const document of this.documents) {
+      const matchedTerms: TermScore[] = [];
+      for (const term of terms) {
+        const frequency = document.frequencies.get(term);
+        if (!frequency) {
+          continue;
+        }
+        const df = this.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+        const norm = frequency + K1 * (1 - B + B * (document.length / this.averageLength));
+        matchedTerms.push({ term, score: idf * (frequency * (K1 + 1)) / norm });
+      }
+
+      if (matchedTerms.length === 0) {
+        continue;
+      }
+
+      matchedTerms.sort((a, b) => b.score - a.score);
+      ranked.push({
+        section: document.section,
+        score: matchedTerms.reduce((sum, term) => sum + term.score, 0),
+        matchedTerms,
+        titleMatch: matchedTerms.some(term => document.titleTerms.has(term.term))
+      });
+    }
+
+    return ranked.sort((a, b) => b.score - a.score || a.section.startLine - b.section.startLine);
+  }
+}
@@ -0,0 +1,331 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+/**
+ * Server configuration from command-line flags, the environment and an
+ * optional YAML or JSON config file, in that order of precedence.
+ */
+
+export type TransportMode = 'stdio' | 'http' | 'both';
+
+export const TRANSPORT_MODES: TransportMode[] = ['stdio', 'http', 'both'];
+
+export interface ServerConfig {
+  transport: TransportMode;
+  /**
+   * Address the HTTP server binds to.
+   */
+  host: string;
+  port: number;
+  /**
+   * Prefix of every HTTP endpoint (`/openfga` serves `/openfga/mcp`); empty
+   * for none, never with a trailing slash.
+   */
+  basePath: string;
+  /**
+   * URL clients reach the server at, without the `/mcp` endpoint; reported in
+   * `/health` and the startup log. Derived from host, port and base path when
+   * not configured.
+   */
+  publicUrl: string;
+  /**
+   * Prompt files directory; the bundled prompts (or `PROMPTS_DIR`) when unset.
+   */
+  promptsDir?: string;
+  /**
+   * Also serve the HTTP+SSE transport (`/sse` and `/messages`) of protocol
+   * version 2024-11-05 for clients without Streamable HTTP support.
+   */
+  legacySse: boolean;
+  /**
+   * Seconds without requests before an HTTP session is closed; 0 disables eviction.
+   */
+  sessionIdleTimeout: number;
+  maxSessions: number;
+  /**
+   * Requests per second per client; 0 disables rate limiting.
+   */
+  rateLimit: number;
+  rateLimitBurst: number;
+}
+
+export interface CommandLine {
+  help: boolean;
+  configFile?: string;
+  values: Partial<Record<ConfigKey, string | boolean>>;
+}
+
+export type ConfigKey =
+  | 'transport'
+  | 'host'
+  | 'port'
+  | 'basePath'
+  | 'publicUrl'
+  | 'promptsDir'
+  | 'legacySse'
+  | 'sessionIdleTimeout'
+  | 'maxSessions'
+  | 'rateLimit'
+  | 'rateLimitBurst';
+
+interface ConfigOption {
+  key: ConfigKey;
+  flag: string;
+  argument?: string;
+  description: string;
+}
+
+interface ConfigValue {
+  value: unknown;
+  /**
+   * Where the value came from, for error messages.
+   */
+  source: string;
+  /**
+   * Directory relative paths are resolved against.
+   */
+  baseDir: string;
+}
+
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `- ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+export const DEFAULT_HOST = '0.0.0.0';
+export const DEFAULT_PORT = 3000;
+export const DEFAULT_SESSION_IDLE_TIMEOUT = 1800;
+export const DEFAULT_MAX_SESSIONS = 100;
+
+const OPTIONS: ConfigOption[] = [
+  { key: 'transport', flag: '--transport', argument: '<stdio|http|both>', description: 'Transports to serve (default: MCP_TRANSPORT or stdio)' },
+  { key: 'host', flag: '--host', argument: '<address>', description: `Address the HTTP server binds to (default: ${DEFAULT_HOST})` },
+  { key: 'port', flag: '--port', argument: '<port>', description: `HTTP port (default: PORT or ${DEFAULT_PORT})` },
+  { key: 'basePath', flag: '--base-path', argument: '<path>', description: 'Prefix for the HTTP endpoints, e.g. /openfga (default: none)' },
+  { key: 'publicUrl', flag: '--public-url', argument: '<url>', description: 'URL clients reach the server at, reported in /health (default: PUBLIC_URL or derived)' },
+  { key: 'promptsDir', flag: '--prompts-dir', argument: '<dir>', description: 'Prompt files directory (default: PROMPTS_DIR or the bundled prompts)' },
+  { key: 'legacySse', flag: '--legacy-sse', description: 'Serve the HTTP+SSE transport on /sse and /messages (default; --no-legacy-sse to disable)' },
+  { key: 'sessionIdleTimeout', flag: '--session-idle-timeout', argument: '<seconds>', description: `Close idle HTTP sessions, 0 never (default: SESSION_IDLE_TIMEOUT or ${DEFAULT_SESSION_IDLE_TIMEOUT})` },
+  { key: 'maxSessions', flag: '--max-sessions', argument: '<count>', description: `Open HTTP sessions allowed (default: MAX_SESSIONS or ${DEFAULT_MAX_SESSIONS})` },
+  { key: 'rateLimit', flag: '--rate-limit', argument: '<rps>', description: 'Requests per second per client, 0 for no limit (default: RATE_LIMIT_RPS or 0)' },
+  { key: 'rateLimitBurst', flag: '--rate-limit-burst', argument: '<count>', description: 'Burst size of the rate limit (default: RATE_LIMIT_BURST or twice the rate)' }
+];
+
+const ENVIRONMENT: Partial<Record<ConfigKey, string>> = {
+  transport: 'MCP_TRANSPORT',
+  port: 'PORT',
+  publicUrl: 'PUBLIC_URL',
+  promptsDir: 'PROMPTS_DIR',
+  sessionIdleTimeout: 'SESSION_IDLE_TIMEOUT',
+  maxSessions: 'MAX_SESSIONS',
+  rateLimit: 'RATE_LIMIT_RPS',
+  rateLimitBurst: 'RATE_LIMIT_BURST'
+};
+
+export const USAGE = [
+  'Usage: openfga-modeling-mcp-server [options]',
+  '',
+  'Options:',
+  ...[
+    ['--config <file>', 'YAML or JSON config file with any of the options below, in camelCase'],
+    ...OPTIONS.map(option => [`${option.flag}${option.argument ? ` ${option.argument}` : ''}`, option.description]),
+    ['--help', 'Show this help']
+  ].map(([flag, description]) => `  ${flag.padEnd(36)}${description}`),
+  ''
+].join('\n');
+
+/**
+ * Parse `--flag value` and `--flag=value` arguments. Throws ConfigError for
+ * unknown flags and missing values.
+ */
+export function parseCommandLine(argv: string[]): CommandLine {
+  const commandLine: CommandLine = { help: false, values: {} };
+  const problems: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].startsWith('--') && argv[i].includes('=')
+      ? [argv[i].slice(0, argv[i].indexOf('=')), argv[i].slice(argv[i].indexOf('=') + 1)]
+      : [argv[i], undefined];
+    if (flag === '--help' || flag === '-h') {
+      commandLine.help = true;
+      continue;
+    }
+
+    const negated = flag.startsWith('--no-');
+    const option = OPTIONS.find(candidate => candidate.flag === (negated ? `--${flag.slice(5)}` : flag));
+    if (flag !== '--config' && !option) {
+      problems.push(`Unknown option ${flag} (see --help)`);
+      continue;
+    }
+    if (option && !option.argument) {
+      if (inline !== undefined) {
+        problems.push(`${flag} does not take a value`);
+      }
+      commandLine.values[option.key] = !negated;
+      continue;
+    }
+    if (negated) {
+      problems.push(`Unknown option ${flag} (see --help)`);
+      continue;
+    }
+
+    const value = inline ?? argv[++i];
+    if (value === undefined || (inline === undefined && value.startsWith('--'))) {
+      problems.push(`${flag} needs a value`);
+      continue;
+    }
+    if (option) {
+      commandLine.values[option.key] = value;
+    } else {
+      commandLine.configFile = value;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return commandLine;
+}
+
+async function readConfigFile(file: string): Promise<Record<string, unknown>> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    throw new ConfigError([`Cannot read config file ${file}: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  let data: unknown;
+  try {
+    data = parseYaml(content);
+  } catch (error) {
+    throw new ConfigError([`Config file ${file} is not valid YAML or JSON: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+  if (data === null || data === undefined) {
+    return {};
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new ConfigError([`Config file ${file} must contain a mapping of options`]);
+  }
+  return data as Record<string, unknown>;
+}
+
+function parseNumber(value: unknown, integer: boolean, min: number, max = Infinity): number | undefined {
+  const pattern = integer ? /^\d+$/ : /^\d+(\.\d+)?$/;
+  const number = typeof value === 'string' && pattern.test(value.trim()) ? Number(value) : value;
+  return typeof number === 'number' && (!integer || Number.isInteger(number)) && number >= min && number <= max ? number : undefined;
+}
+
+function parseBasePath(value: unknown): string | undefined {
+  if (typeof value !== 'string' || (value !== '' && !value.startsWith('/')) || /[\s?#]/.test(value)) {
+    return undefined;
+  }
+  return value.replace(/\/+$/, '');
+}
+
+function parsePublicUrl(value: unknown): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString().replace(/\/+$/, '') : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  return value === 'true' ? true : value === 'false' ? false : undefined;
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? `'${value}'` : JSON.stringify(value);
+}
+
+/**
+ * Merge the command line, the environment and the config file over the
+ * defaults, and validate the result. Throws ConfigError listing every
+ * problem.
+ */
+export async function resolveServerConfig(commandLine: CommandLine, env: NodeJS.ProcessEnv = process.env): Promise<ServerConfig> {
+  const problems: string[] = [];
+  const values = new Map<ConfigKey, ConfigValue>();
+
+  if (commandLine.configFile) {
+    const file = path.resolve(commandLine.configFile);
+    const data = await readConfigFile(file);
+    for (const [key, value] of Object.entries(data)) {
+      const option = OPTIONS.find(candidate => candidate.key === key);
+      if (!option) {
+        problems.push(`Unknown option '${key}' in config file ${file} (expected ${OPTIONS.map(candidate => candidate.key).join(', ')})`);
+        continue;
+      }
+      values.set(option.key, { value, source: `'${key}' in ${file}`, baseDir: path.dirname(file) });
+    }
+  }
+  for (const [key, variable] of Object.entries(ENVIRONMENT) as [ConfigKey, string][]) {
+    if (env[variable] !== undefined && env[variable] !== '') {
+      values.set(key, { value: env[variable], source: `${variable} environment variable`, baseDir: process.cwd() });
+    }
+  }
+  for (const [key, value] of Object.entries(commandLine.values) as [ConfigKey, string | boolean][]) {
+    const option = OPTIONS.find(candidate => candidate.key === key)!;
+    values.set(key, { value, source: option.flag, baseDir: process.cwd() });
+  }
+
+  const read = <T>(key: ConfigKey, parse: (value: unknown) => T | undefined, expected: string, fallback: T): T => {
+    const entry = values.get(key);
+    if (!entry) {
+      return fallback;
+    }
+    const parsed = parse(entry.value);
+    if (parsed === undefined) {
+      problems.push(`${entry.source}: expected ${expected} (got ${describe(entry.value)})`);
+      return fallback;
+    }
+    return parsed;
+  };
+
+  const transport = read<TransportMode>('transport',
+    value => TRANSPORT_MODES.find(mode => mode === value), TRANSPORT_MODES.join(', '), 'stdio');
+  const host = read('host',
+    value => typeof value === 'string' && /^\S+$/.test(value) ? value : undefined, 'a host name or IP address', DEFAULT_HOST);
+  const port = read('port', value => parseNumber(value, true, 1, 65535), 'a port number between 1 and 65535', DEFAULT_PORT);
+  const basePath = read('basePath', parseBasePath, `a path starting with '/', without query or fragment`, '');
+  const legacySse = read('legacySse', parseBoolean, 'true or false', true);
+  const sessionIdleTimeout = read('sessionIdleTimeout', value => parseNumber(value, true, 0),
+    'a whole number of seconds, 0 to never evict', DEFAULT_SESSION_IDLE_TIMEOUT);
+  const maxSessions = read('maxSessions', value => parseNumber(value, true, 1), 'a whole number of at least 1', DEFAULT_MAX_SESSIONS);
+  const rateLimit = read('rateLimit', value => parseNumber(value, false, 0), 'requests per second, 0 for no limit', 0);
+  const rateLimitBurst = read('rateLimitBurst', value => parseNumber(value, true, 1), 'a whole number of at least 1',
+    Math.max(1, Math.ceil(rateLimit * 2)));
+
+  const displayHost = host === '0.0.0.0' || host === '::' ? 'localhost' : host.includes(':') ? `[${host}]` : host;
+  const publicUrl = read('publicUrl', parsePublicUrl, 'an http or https URL', `http://${displayHost}:${port}${basePath}`);
+
+  let promptsDir: string | undefined;
+  const promptsEntry = values.get('promptsDir');
+  if (promptsEntry) {
+    if (typeof promptsEntry.value !== 'string' || promptsEntry.value.trim().length === 0) {
+      problems.push(`${promptsEntry.source}: expected a directory (got ${describe(promptsEntry.value)})`);
+    } else {
+      promptsDir = path.resolve(promptsEntry.baseDir, promptsEntry.value);
+      const stats = await fs.stat(promptsDir).catch(() => null);
+      if (!stats?.isDirectory()) {
+        problems.push(`${promptsEntry.source}: ${promptsDir} is not a directory`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return { transport, host, port, basePath, publicUrl, promptsDir, legacySse, sessionIdleTimeout, maxSessions, rateLimit, rateLimitBurst };
+}
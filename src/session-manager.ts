@@ -0,0 +1,334 @@
+import { randomUUID } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from './logger.js';
+
+export interface SessionManagerOptions {
+  /**
+   * Close sessions that have had no request for this long; 0 disables
+   * eviction. Sessions with an open request (e.g. an SSE stream) are never idle.
+   */
+  idleTimeoutMs: number;
+  /**
+   * Maximum number of concurrent sessions; further `initialize` requests get 503.
+   */
+  maxSessions: number;
+  /**
+   * How often to look for idle sessions (default: the idle timeout, at most a minute).
+   */
+  sweepIntervalMs?: number;
+}
+
+export interface SessionStats {
+  active: number;
+  maxSessions: number;
+  idleTimeoutSeconds: number;
+  created: number;
+  terminated: number;
+  evicted: number;
+  rejected: number;
+  unknown: number;
+}
+
+type CloseReason = 'terminated' | 'evicted' | 'shutdown';
+
+interface Session {
+  id?: string;
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  createdAt: number;
+  lastActivity: number;
+  inFlight: number;
+  closeReason?: CloseReason;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+class RequestBodyError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code: number) {
+    super(message);
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestBodyError('Request body too large', 413, -32000);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new RequestBodyError('Parse error: request body is not valid JSON', 400, -32700);
+  }
+}
+
+/**
+ * Owns the MCP server and Streamable HTTP transport of every HTTP session.
+ * Sessions are created by `initialize` only, closed by `DELETE /mcp`, and
+ * evicted when idle; unknown session IDs get 404 as the spec requires.
+ * Sessions on the legacy HTTP+SSE transport share the same limits and last
+ * as long as their event stream.
+ */
+export class SessionManager {
+  private readonly sessions = new Map<string, Session>();
+  private readonly counters = { created: 0, terminated: 0, evicted: 0, rejected: 0, unknown: 0 };
+  /**
+   * Admitted sessions that are still initializing and not in `sessions` yet.
+   */
+  private reserved = 0;
+  private sweeper?: NodeJS.Timeout;
+
+  constructor(
+    private readonly createServer: () => Server,
+    private readonly logger: Logger,
+    private readonly options: SessionManagerOptions
+  ) {}
+
+  /**
+   * Start the idle sweeper. The timer does not keep the process alive.
+   */
+  public start(): void {
+    if (this.sweeper || this.options.idleTimeoutMs <= 0) {
+      return;
+    }
+    const interval = this.options.sweepIntervalMs ?? Math.min(this.options.idleTimeoutMs, 60_000);
+    this.sweeper = setInterval(() => {
+      this.evictIdle().catch(error => this.logger.error('Session eviction failed', error));
+    }, interval);
+    this.sweeper.unref();
+  }
+
+  public async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const header = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        this.counters.unknown++;
+        this.logger.warn('Request for unknown session', { sessionId, method: req.method });
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await this.dispatch(session, session.transport, req, res);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      if (error instanceof RequestBodyError) {
+        sendJsonRpcError(res, error.status, error.code, error.message);
+        return;
+      }
+      throw error;
+    }
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided; start a session with an initialize request');
+      return;
+    }
+
+    await this.evictIdle();
+    if (!this.admitSession(req, res)) {
+      return;
+    }
+
+    let session: Session | undefined;
+    try {
+      session = await this.createSession();
+      await this.dispatch(session, session.transport as StreamableHTTPServerTransport, req, res, body);
+    } finally {
+      // Initialization failed (e.g. an unsupported protocol version): free the slot, nothing to keep.
+      if (!session?.id) {
+        this.reserved--;
+        await session?.server.close();
+      }
+    }
+  }
+
+  /**
+   * Open a session on the HTTP+SSE transport (protocol version 2024-11-05)
+   * with a `GET` request. The client posts its messages to `messagesEndpoint`
+   * with the session ID in the query; the session ends with the stream.
+   */
+  public async openSseStream(req: IncomingMessage, res: ServerResponse, messagesEndpoint: string): Promise<void> {
+    await this.evictIdle();
+    if (!this.admitSession(req, res)) {
+      return;
+    }
+
+    const now = Date.now();
+    const transport = new SSEServerTransport(messagesEndpoint, res);
+    // The open stream is an in-flight request for the session's lifetime, so it is never idle.
+    const session: Session = { id: transport.sessionId, server: this.createServer(), transport, createdAt: now, lastActivity: now, inFlight: 1 };
+
+    transport.onclose = () => this.forget(session);
+    session.server.onerror = error => {
+      this.logger.error(`Session server error [${session.id}]`, error);
+    };
+
+    this.reserved--;
+    this.sessions.set(transport.sessionId, session);
+    this.counters.created++;
+    this.logger.logServerEvent('Session created', { sessionId: transport.sessionId, transport: 'sse', activeSessions: this.sessions.size });
+    await session.server.connect(transport);
+  }
+
+  /**
+   * A message `POST`ed to an HTTP+SSE session; the response arrives on its stream.
+   */
+  public async handleSseMessage(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = new URL(req.url ?? '/', 'http://localhost').searchParams.get('sessionId');
+    if (!sessionId) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: sessionId query parameter is required');
+      return;
+    }
+    const session = this.sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      this.counters.unknown++;
+      this.logger.warn('Message for unknown SSE session', { sessionId });
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    session.lastActivity = Date.now();
+    await session.transport.handlePostMessage(req, res);
+  }
+
+  public stats(): SessionStats {
+    return {
+      active: this.sessions.size,
+      maxSessions: this.options.maxSessions,
+      idleTimeoutSeconds: Math.round(this.options.idleTimeoutMs / 1000),
+      ...this.counters
+    };
+  }
+
+  /**
+   * Close every session and stop the sweeper.
+   */
+  public async close(): Promise<void> {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = undefined;
+    }
+    await Promise.all([...this.sessions.values()].map(session => this.closeSession(session, 'shutdown')));
+  }
+
+  /**
+   * Whether there is room for another session; answers 503 when there is not.
+   * An admitted session holds a reserved slot until it is registered, so
+   * concurrent `initialize` requests cannot exceed the limit.
+   */
+  private admitSession(req: IncomingMessage, res: ServerResponse): boolean {
+    if (this.sessions.size + this.reserved < this.options.maxSessions) {
+      this.reserved++;
+      return true;
+    }
+    this.counters.rejected++;
+    this.logger.warn('Rejected new session: too many active sessions', {
+      active: this.sessions.size,
+      maxSessions: this.options.maxSessions,
+      remoteAddress: req.socket.remoteAddress
+    });
+    sendJsonRpcError(res, 503, -32000, 'Too many active sessions, try again later', { 'Retry-After': '30' });
+    return false;
+  }
+
+  private async createSession(): Promise<Session> {
+    const now = Date.now();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        session.id = id;
+        this.reserved--;
+        this.sessions.set(id, session);
+        this.counters.created++;
+        this.logger.logServerEvent('Session created', { sessionId: id, activeSessions: this.sessions.size });
+      }
+    });
+    const session: Session = { server: this.createServer(), transport, createdAt: now, lastActivity: now, inFlight: 0 };
+
+    transport.onclose = () => this.forget(session);
+    session.server.onerror = error => {
+      this.logger.error(`Session server error [${session.id ?? 'initializing'}]`, error);
+    };
+
+    await session.server.connect(transport);
+    return session;
+  }
+
+  private async dispatch(
+    session: Session,
+    transport: StreamableHTTPServerTransport,
+    req: IncomingMessage,
+    res: ServerResponse,
+    body?: unknown
+  ): Promise<void> {
+    session.inFlight++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.inFlight--;
+      session.lastActivity = Date.now();
+    });
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async evictIdle(): Promise<void> {
+    if (this.options.idleTimeoutMs <= 0) {
+      return;
+    }
+    const cutoff = Date.now() - this.options.idleTimeoutMs;
+    const idle = [...this.sessions.values()].filter(session => session.inFlight === 0 && session.lastActivity <= cutoff);
+    await Promise.all(idle.map(session => this.closeSession(session, 'evicted')));
+  }
+
+  private async closeSession(session: Session, reason: CloseReason): Promise<void> {
+    session.closeReason ??= reason;
+    try {
+      await session.server.close();
+    } catch (error) {
+      this.logger.error(`Failed to close session [${session.id}]`, error);
+      this.forget(session);
+    }
+  }
+
+  /**
+   * Called once the transport has closed, whoever closed it.
+   */
+  private forget(session: Session): void {
+    if (!session.id || this.sessions.get(session.id) !== session) {
+      return;
+    }
+    this.sessions.delete(session.id);
+    const reason = session.closeReason ?? 'terminated';
+    if (reason === 'evicted') {
+      this.counters.evicted++;
+    } else {
+      this.counters.terminated++;
+    }
+    this.logger.logServerEvent(`Session ${reason}`, {
+      sessionId: session.id,
+      ageSeconds: Math.round((Date.now() - session.createdAt) / 1000),
+      activeSessions: this.sessions.size
+    });
+  }
+}
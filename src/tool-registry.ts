@@ -0,0 +1,139 @@
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { JsonSchema, formatSchemaViolations, validateJsonSchema } from './json-schema.js';
+import { SamplingClient } from './sampling-client.js';
+
+/**
+ * Tools declared once, with their schemas and handler, and served by every
+ * MCP server instance.
+ */
+
+export interface ObjectSchema extends JsonSchema {
+  type: 'object';
+}
+
+export interface ToolOutput<Output extends object> {
+  /**
+   * Human-readable result, returned as the text content.
+   */
+  text: string;
+  /**
+   * Machine-readable result, returned as `structuredContent`; must match the
+   * tool's output schema.
+   */
+  structuredContent: Output;
+}
+
+/**
+ * What a handler can use of the client that called the tool.
+ */
+export interface ToolCallContext {
+  /**
+   * Undefined when the client does not support sampling.
+   */
+  sampling?: SamplingClient;
+}
+
+export interface ToolDefinition<Args, Output extends object = object> {
+  name: string;
+  description: string;
+  /**
+   * Arguments are validated against this schema before the handler runs.
+   * Unless it says otherwise, unknown arguments are rejected.
+   */
+  inputSchema: ObjectSchema;
+  outputSchema: ObjectSchema;
+  handler: (args: Args, requestId: string, context: ToolCallContext) => Promise<ToolOutput<Output>>;
+}
+
+/**
+ * A failure the handler reports to the caller: returned as an `Error: ...`
+ * text result with `isError` set, rather than as a protocol error.
+ */
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+export class UnknownToolError extends Error {
+  constructor(public readonly tool: string) {
+    super(`Unknown tool: ${tool}`);
+    this.name = 'UnknownToolError';
+  }
+}
+
+function errorResult(message: string): CallToolResult {
+  return { content: [{ type: 'text', text: `Error: ${message}` }], isError: true };
+}
+
+export class ToolRegistry {
+  private readonly tools = new Map<string, ToolDefinition<any, object>>();
+
+  public register<Args, Output extends object = object>(tool: ToolDefinition<Args, Output>): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool '${tool.name}' is already registered`);
+    }
+    this.tools.set(tool.name, {
+      ...tool,
+      inputSchema: { additionalProperties: false, ...tool.inputSchema }
+    });
+    return this;
+  }
+
+  public get names(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  public has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * The `tools/list` entries.
+   */
+  public list(): Tool[] {
+    return [...this.tools.values()].map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema as Tool['inputSchema'],
+      outputSchema: tool.outputSchema as Tool['outputSchema']
+    }));
+  }
+
+  /**
+   * Validate the arguments and run the tool. Invalid arguments and ToolErrors
+   * become error results; throws UnknownToolError, and rethrows anything
+   * else the handler throws.
+   */
+  public async call(name: string, args: unknown, requestId: string, context: ToolCallContext = {}): Promise<CallToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new UnknownToolError(name);
+    }
+
+    const input = args ?? {};
+    const violations = validateJsonSchema(tool.inputSchema, input);
+    if (violations.length > 0) {
+      return errorResult(`Invalid arguments for ${name}:\n${formatSchemaViolations(violations)}`);
+    }
+
+    let output: ToolOutput<object>;
+    try {
+      output = await tool.handler(input, requestId, context);
+    } catch (error) {
+      if (error instanceof ToolError) {
+        return errorResult(error.message);
+      }
+      throw error;
+    }
+
+    // Round-trip through JSON so the schema sees exactly what the client will.
+    const structuredContent = JSON.parse(JSON.stringify(output.structuredContent));
+    const problems = validateJsonSchema(tool.outputSchema, structuredContent);
+    if (problems.length > 0) {
+      throw new Error(`Tool ${name} returned output that does not match its output schema:\n${formatSchemaViolations(problems)}`);
+    }
+    return { content: [{ type: 'text', text: output.text }], structuredContent };
+  }
+}
@@ -0,0 +1,402 @@
+import path from 'path';
+import { LineCounter, isMap, isSeq, parseDocument, stringify as stringifyYaml } from 'yaml';
+
+export interface TupleCondition {
+  name: string;
+  context?: Record<string, unknown>;
+}
+
+export interface RelationshipTuple {
+  user: string;
+  relation: string;
+  object: string;
+  condition?: TupleCondition;
+}
+
+export type TupleFormat = 'json' | 'jsonl' | 'yaml' | 'csv';
+
+export const TUPLE_FORMATS: TupleFormat[] = ['json', 'jsonl', 'yaml', 'csv'];
+
+/**
+ * A parsed tuple with its position in the source: the 1-based tuple number
+ * and the line it starts on (for CSV, the physical line of the row).
+ */
+export interface LocatedTuple {
+  tuple: RelationshipTuple;
+  index: number;
+  line: number;
+}
+
+export interface TupleParseError {
+  /**
+   * Where the problem is, e.g. `tuple 3`, `line 5` or `row 4`.
+   */
+  location: string;
+  line: number;
+  index?: number;
+  message: string;
+}
+
+export interface TupleParseResult {
+  tuples: LocatedTuple[];
+  errors: TupleParseError[];
+}
+
+class TupleFormatError extends Error {}
+
+export const CSV_HEADERS = [
+  'user_type', 'user_id', 'user_relation', 'relation', 'object_type', 'object_id', 'condition_name', 'condition_context'
+];
+
+/**
+ * Infer the tuple file format from its extension.
+ */
+export function detectTupleFormat(fileName: string): TupleFormat {
+  switch (path.extname(fileName).toLowerCase()) {
+    case '.json':
+      return 'json';
+    case '.jsonl':
+      return 'jsonl';
+    case '.yaml':
+    case '.yml':
+      return 'yaml';
+    case '.csv':
+      return 'csv';
+    default:
+      throw new Error(`Unsupported tuple file '${fileName}', expected a .json, .jsonl, .yaml, .yml or .csv file`);
+  }
+}
+
+/**
+ * Guess the tuple format from the content: a CSV header row, one JSON
+ * object per line, a JSON document, or otherwise YAML.
+ */
+export function detectTupleContentFormat(content: string): TupleFormat {
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 0) {
+    return 'json';
+  }
+  if (/^"?user_type"?\s*,/.test(lines[0])) {
+    return 'csv';
+  }
+  if (lines.length > 1 && lines[0].startsWith('{')) {
+    try {
+      JSON.parse(lines[0]);
+      return 'jsonl';
+    } catch {
+      // A multi-line JSON document.
+    }
+  }
+  return /^[[{]/.test(lines[0]) ? 'json' : 'yaml';
+}
+
+/**
+ * Convert a raw tuple object (from JSON or YAML) into a RelationshipTuple.
+ */
+function toTuple(raw: unknown): RelationshipTuple {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new TupleFormatError('expected an object with user, relation and object');
+  }
+  const record = raw as Record<string, unknown>;
+  for (const field of ['user', 'relation', 'object']) {
+    if (typeof record[field] !== 'string' || (record[field] as string).length === 0) {
+      throw new TupleFormatError(`'${field}' is required and must be a string`);
+    }
+  }
+
+  const tuple: RelationshipTuple = {
+    user: record.user as string,
+    relation: record.relation as string,
+    object: record.object as string
+  };
+
+  if (record.condition !== undefined && record.condition !== null) {
+    const condition = record.condition as Record<string, unknown>;
+    if (typeof condition !== 'object' || typeof condition.name !== 'string') {
+      throw new TupleFormatError(`'condition' must have a 'name'`);
+    }
+    tuple.condition = { name: condition.name };
+    if (condition.context !== undefined && condition.context !== null) {
+      if (typeof condition.context !== 'object' || Array.isArray(condition.context)) {
+        throw new TupleFormatError(`'condition.context' must be an object`);
+      }
+      tuple.condition.context = condition.context as Record<string, unknown>;
+    }
+  }
+
+  return tuple;
+}
+
+/**
+ * Normalize a raw tuple object (from JSON or YAML) into a RelationshipTuple.
+ */
+export function normalizeTuple(raw: unknown, label: string): RelationshipTuple {
+  try {
+    return toTuple(raw);
+  } catch (error) {
+    if (error instanceof TupleFormatError) {
+      throw new Error(`${label}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse tuples from file contents, using the file extension to pick the format.
+ */
+export function parseTupleFile(fileName: string, content: string): RelationshipTuple[] {
+  return parseTuples(content, detectTupleFormat(fileName), fileName);
+}
+
+/**
+ * Parse tuples in the given format, throwing on the first invalid tuple.
+ */
+export function parseTuples(content: string, format: TupleFormat, label: string = format): RelationshipTuple[] {
+  const { tuples, errors } = parseLocatedTuples(content, format);
+  if (errors.length > 0) {
+    const [error] = errors;
+    throw new Error(`${label}${error.location ? ` ${error.location}` : ''}: ${error.message}`);
+  }
+  return tuples.map(located => located.tuple);
+}
+
+/**
+ * Parse tuples in the given format, keeping each tuple's position and
+ * collecting every malformed tuple instead of stopping at the first.
+ */
+export function parseLocatedTuples(content: string, format: TupleFormat): TupleParseResult {
+  const result: TupleParseResult = { tuples: [], errors: [] };
+  const add = (location: string, line: number, index: number, build: () => RelationshipTuple) => {
+    try {
+      result.tuples.push({ tuple: build(), index, line });
+    } catch (error) {
+      if (!(error instanceof TupleFormatError)) {
+        throw error;
+      }
+      result.errors.push({ location, line, index, message: error.message });
+    }
+  };
+
+  switch (format) {
+    case 'json':
+    case 'yaml': {
+      const lineCounter = new LineCounter();
+      const document = parseDocument(content, { lineCounter });
+      if (document.errors.length > 0) {
+        const [error] = document.errors;
+        result.errors.push({ location: '', line: error.linePos?.[0].line ?? 1, message: error.message.split('\n')[0] });
+        return result;
+      }
+      // JSON values come from JSON.parse; the YAML document only supplies lines.
+      let values: unknown[] | undefined;
+      if (format === 'json') {
+        try {
+          const data = JSON.parse(content);
+          values = Array.isArray(data) ? data : data?.tuples;
+        } catch (error) {
+          result.errors.push({ location: '', line: 1, message: (error as Error).message });
+          return result;
+        }
+      }
+
+      const root = document.contents;
+      const list = isSeq(root) ? root : isMap(root) ? root.get('tuples', true) : undefined;
+      if (!isSeq(list)) {
+        result.errors.push({ location: '', line: 1, message: `expected a ${format === 'json' ? 'JSON array' : 'YAML list'} of tuples` });
+        return result;
+      }
+      list.items.forEach((item, i) => {
+        const offset = (item as { range?: [number, number, number] } | null)?.range?.[0];
+        const line = offset === undefined ? 1 : lineCounter.linePos(offset).line;
+        add(`tuple ${i + 1} (line ${line})`, line, i + 1, () => toTuple(values ? values[i] : (item as { toJSON(): unknown } | null)?.toJSON?.() ?? item));
+      });
+      return result;
+    }
+
+    case 'jsonl': {
+      let index = 0;
+      content.split(/\r?\n/).forEach((text, i) => {
+        const line = text.trim();
+        if (line.length === 0) {
+          return;
+        }
+        index++;
+        add(`line ${i + 1}`, i + 1, index, () => {
+          try {
+            return toTuple(JSON.parse(line));
+          } catch (error) {
+            if (error instanceof SyntaxError) {
+              throw new TupleFormatError(error.message);
+            }
+            throw error;
+          }
+        });
+      });
+      return result;
+    }
+
+    case 'csv':
+      return parseCsvTuples(content);
+  }
+}
+
+interface CsvRecord {
+  fields: string[];
+  /**
+   * Line the record starts on; quoted fields may span several lines.
+   */
+  line: number;
+}
+
+/**
+ * Parse CSV records (RFC 4180 quoting), skipping blank rows but keeping the
+ * line number of every record.
+ */
+function parseCsvRecords(content: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim().length > 0)) {
+      records.push({ fields: row, line: rowLine });
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (quoted) {
+      if (ch === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') {
+          line++;
+        }
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    endRow();
+  }
+
+  return records;
+}
+
+/**
+ * Parse CSV rows (RFC 4180 quoting) into arrays of fields.
+ */
+export function parseCsv(content: string): string[][] {
+  return parseCsvRecords(content).map(record => record.fields);
+}
+
+function parseCsvTuples(content: string): TupleParseResult {
+  const result: TupleParseResult = { tuples: [], errors: [] };
+  const [header, ...rows] = parseCsvRecords(content);
+  if (!header) {
+    return result;
+  }
+
+  const columns = header.fields.map(name => name.trim());
+  const missing = ['user_type', 'user_id', 'relation', 'object_type', 'object_id'].filter(required => !columns.includes(required));
+  if (missing.length > 0) {
+    result.errors.push({ location: '', line: header.line, message: `missing CSV column '${missing[0]}'` });
+    return result;
+  }
+
+  rows.forEach(({ fields, line }, i) => {
+    const value = (name: string) => (fields[columns.indexOf(name)] ?? '').trim();
+    try {
+      const userRelation = value('user_relation');
+      const raw: Record<string, unknown> = {
+        user: `${value('user_type')}:${value('user_id')}${userRelation ? `#${userRelation}` : ''}`,
+        relation: value('relation'),
+        object: `${value('object_type')}:${value('object_id')}`
+      };
+
+      if (value('condition_name')) {
+        const context = value('condition_context');
+        let parsed: unknown;
+        try {
+          parsed = context ? JSON.parse(context) : undefined;
+        } catch {
+          throw new TupleFormatError('condition_context is not valid JSON');
+        }
+        raw.condition = { name: value('condition_name'), context: parsed };
+      }
+
+      result.tuples.push({ tuple: toTuple(raw), index: i + 1, line });
+    } catch (error) {
+      if (!(error instanceof TupleFormatError)) {
+        throw error;
+      }
+      result.errors.push({ location: `row ${line}`, line, index: i + 1, message: error.message });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Quote a CSV field when it needs it (RFC 4180).
+ */
+export function csvField(value: string): string {
+  return /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize tuples in the given format. Conditions are kept in every format
+ * (as `condition_name`/`condition_context` columns in CSV).
+ */
+export function formatTuples(tuples: RelationshipTuple[], format: TupleFormat): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(tuples, null, 2)}\n`;
+    case 'jsonl':
+      return tuples.map(tuple => `${JSON.stringify(tuple)}\n`).join('');
+    case 'yaml':
+      return tuples.length === 0 ? '[]\n' : stringifyYaml(tuples);
+    case 'csv': {
+      const rows = tuples.map(tuple => {
+        const [userObject, userRelation = ''] = tuple.user.split('#');
+        const [userType, ...userId] = userObject.split(':');
+        const [objectType, ...objectId] = tuple.object.split(':');
+        return [
+          userType,
+          userId.join(':'),
+          userRelation,
+          tuple.relation,
+          objectType,
+          objectId.join(':'),
+          tuple.condition?.name ?? '',
+          tuple.condition?.context ? JSON.stringify(tuple.condition.context) : ''
+        ].map(csvField).join(',');
+      });
+      return [CSV_HEADERS.join(','), ...rows].map(row => `${row}\n`).join('');
+    }
+  }
+}
@@ -0,0 +1,459 @@
+import { AuthorizationModelAst, Diagnostic, parseDsl } from './dsl-parser.js';
+import { ModelIndex, indexModel } from './model-index.js';
+import { ModelChange, ModelDiffer } from './model-diff.js';
+import { TupleProblem, TupleValidator } from './tuple-validator.js';
+import { CelConditionEvaluator } from './condition-evaluator.js';
+import {
+  ConditionEvaluator,
+  EvaluationContext,
+  ExplanationOutcome,
+  RelationshipGraph,
+  parseObjectRef,
+  parseUserRef
+} from './relationship-graph.js';
+import { RelationshipTuple, TupleFormat, detectTupleContentFormat, formatTuples, parseTuples } from './tuple-formats.js';
+
+/**
+ * Plans the tuple changes that go with a model change: which tuples the new
+ * model rejects, how they can be rewritten, the write/delete batches, and a
+ * before/after comparison of who has access.
+ */
+
+export type RewriteStrategy = 'rename' | 'userset';
+
+export interface TupleRewrite {
+  from: RelationshipTuple;
+  /**
+   * The tuples that replace `from`. Tuples shared by several rewrites (such
+   * as a role's assignment to an object) are listed on each of them but
+   * written once.
+   */
+  to: RelationshipTuple[];
+  strategy: RewriteStrategy;
+  description: string;
+}
+
+export interface UnresolvedTuple {
+  tuple: RelationshipTuple;
+  problems: TupleProblem[];
+}
+
+export interface MigrationBatch {
+  step: number;
+  operation: 'write' | 'delete';
+  tuples: RelationshipTuple[];
+  jsonl: string;
+}
+
+export interface AccessChange {
+  user: string;
+  relation: string;
+  object: string;
+  before: ExplanationOutcome;
+  after: ExplanationOutcome;
+}
+
+export interface AccessComparison {
+  checks: number;
+  gained: AccessChange[];
+  lost: AccessChange[];
+  /**
+   * Checks that could be decided on one side only, usually because a
+   * condition needs request context.
+   */
+  undetermined: AccessChange[];
+  /**
+   * Set when the comparison stopped at MAX_ACCESS_CHECKS.
+   */
+  truncated: boolean;
+}
+
+export interface MigrationPlanOptions {
+  /**
+   * Format of the tuples; inferred from the content when omitted.
+   */
+  format?: TupleFormat;
+  /**
+   * Request context for conditions in the access comparison.
+   */
+  context?: EvaluationContext;
+}
+
+export interface MigrationPlan {
+  valid: boolean;
+  diagnostics: { before: Diagnostic[]; after: Diagnostic[] };
+  changes: ModelChange[];
+  summary: { tuples: number; unchanged: number; rewritten: number; unresolved: number; writes: number; deletes: number };
+  rewrites: TupleRewrite[];
+  unresolved: UnresolvedTuple[];
+  batches: MigrationBatch[];
+  access: AccessComparison;
+  markdown: string;
+}
+
+export class MigrationError extends Error {}
+
+/**
+ * What the model diff says about how tuples should move.
+ */
+interface MigrationHints {
+  typeRenames: Map<string, string>;
+  /**
+   * `type#relation` (old name) to the new relation name.
+   */
+  relationRenames: Map<string, string>;
+  /**
+   * `type#relation` to the usersets newly allowed on it, e.g. `role#assignee`.
+   */
+  addedUsersets: Map<string, string[]>;
+}
+
+/**
+ * OpenFGA's default limit on tuples per Write request.
+ */
+export const MAX_TUPLES_PER_WRITE = 100;
+
+export const MAX_ACCESS_CHECKS = 50000;
+
+function tupleKey(tuple: RelationshipTuple): string {
+  return `${tuple.user} ${tuple.relation} ${tuple.object}`;
+}
+
+function formatTuple(tuple: RelationshipTuple): string {
+  return `${tuple.user} ${tuple.relation} ${tuple.object}${tuple.condition ? ` with ${tuple.condition.name}` : ''}`;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export function formatMigrationMarkdown(plan: Omit<MigrationPlan, 'markdown'>): string {
+  const { summary, access } = plan;
+  const lines = [
+    '### Tuple migration plan',
+    '',
+    `${summary.tuples} tuples: ${summary.unchanged} unchanged, ${summary.rewritten} rewritten, ` +
+    `${summary.unresolved > 0 ? `**${summary.unresolved} unresolved**` : '0 unresolved'}. ` +
+    `${summary.writes} write(s) and ${summary.deletes} delete(s) in ${plan.batches.length} batch(es).`
+  ];
+
+  if (plan.rewrites.length > 0) {
+    lines.push('', '#### Rewritten tuples', '');
+    for (const rewrite of plan.rewrites) {
+      lines.push(`- \`${formatTuple(rewrite.from)}\` → ${rewrite.to.map(tuple => `\`${formatTuple(tuple)}\``).join(', ')} (${rewrite.description})`);
+    }
+  }
+  if (plan.unresolved.length > 0) {
+    lines.push('', '#### Unresolved tuples', '', 'The new model rejects these tuples and no rewrite was found; decide how to migrate them by hand.', '');
+    for (const item of plan.unresolved) {
+      lines.push(`- \`${formatTuple(item.tuple)}\`: ${item.problems.map(problem => problem.message).join('; ')}`);
+    }
+  }
+  if (plan.batches.length > 0) {
+    lines.push('', '#### Batches', '', 'Apply in order, after writing the new model: writes first so nobody loses access mid-migration, then deletes.');
+    for (const batch of plan.batches) {
+      lines.push('', `${batch.step}. ${batch.operation} ${batch.tuples.length} tuple(s)`, '', '```jsonl', batch.jsonl.trimEnd(), '```');
+    }
+  }
+
+  lines.push('', '#### Access before and after', '');
+  const verdict = access.gained.length === 0 && access.lost.length === 0
+    ? `No user gains or loses access in ${access.checks} checks.`
+    : `${access.gained.length} check(s) gain access and ${access.lost.length} lose access, out of ${access.checks}.`;
+  lines.push(verdict + (access.truncated ? ` The comparison stopped after ${MAX_ACCESS_CHECKS} checks.` : ''));
+  const describe = (change: AccessChange) => `- \`${change.user} ${change.relation} ${change.object}\`: ${change.before} → ${change.after}`;
+  for (const [title, group] of [['Gained', access.gained], ['Lost', access.lost], ['Undetermined', access.undetermined]] as const) {
+    if (group.length > 0) {
+      lines.push('', `${title}:`, ...group.map(describe));
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Computes the tuple changes for moving from one model to another. Tuples the
+ * new model rejects are rewritten when the model diff explains them:
+ *
+ * - renamed types and relations are renamed in the tuple;
+ * - a user type that may only be assigned through a newly added userset
+ *   (such as `editor: [role#assignee]` replacing `editor: [user]`) is moved
+ *   into one userset object per object and relation, e.g.
+ *   `role:document-1-editor`.
+ */
+export class TupleMigrationPlanner {
+  constructor(
+    private readonly differ: ModelDiffer = new ModelDiffer(),
+    private readonly tupleValidator: TupleValidator = new TupleValidator(),
+    private readonly conditionEvaluator: ConditionEvaluator = new CelConditionEvaluator()
+  ) {}
+
+  /**
+   * Throws MigrationError when the tuples cannot be parsed.
+   */
+  public plan(before: string, after: string, tuples: string, options: MigrationPlanOptions = {}): MigrationPlan {
+    const diff = this.differ.diff(before, after, { beforeFile: 'before.fga', afterFile: 'after.fga' });
+    const plan: MigrationPlan = {
+      valid: false,
+      diagnostics: diff.diagnostics,
+      changes: diff.changes,
+      summary: { tuples: 0, unchanged: 0, rewritten: 0, unresolved: 0, writes: 0, deletes: 0 },
+      rewrites: [],
+      unresolved: [],
+      batches: [],
+      access: { checks: 0, gained: [], lost: [], undetermined: [], truncated: false },
+      markdown: ''
+    };
+    if (!diff.valid) {
+      return plan;
+    }
+
+    let current: RelationshipTuple[] = [];
+    if (tuples.trim().length > 0) {
+      try {
+        current = parseTuples(tuples, options.format ?? detectTupleContentFormat(tuples), 'tuples');
+      } catch (error) {
+        throw new MigrationError(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const oldModel = parseDsl(before).model;
+    const newModel = parseDsl(after).model;
+    const newIndex = indexModel(newModel);
+    const hints = this.hints(diff.changes);
+
+    const existing = new Set(current.map(tupleKey));
+    const writes = new Map<string, RelationshipTuple>();
+    const deletes: RelationshipTuple[] = [];
+    for (const tuple of current) {
+      const problems = this.tupleValidator.checkTuple(newIndex, tuple).filter(problem => problem.severity === 'error');
+      if (problems.length === 0) {
+        plan.summary.unchanged++;
+        continue;
+      }
+
+      const rewrite = this.rename(newIndex, tuple, hints) ?? this.moveToUserset(newIndex, tuple, hints);
+      if (!rewrite) {
+        plan.unresolved.push({ tuple, problems });
+        continue;
+      }
+      plan.rewrites.push(rewrite);
+      deletes.push(tuple);
+      for (const replacement of rewrite.to) {
+        if (!existing.has(tupleKey(replacement))) {
+          writes.set(tupleKey(replacement), replacement);
+        }
+      }
+    }
+
+    const written = [...writes.values()];
+    const batches = [
+      ...chunk(written, MAX_TUPLES_PER_WRITE).map(group => ({ operation: 'write' as const, tuples: group })),
+      ...chunk(deletes, MAX_TUPLES_PER_WRITE).map(group => ({ operation: 'delete' as const, tuples: group }))
+    ];
+    plan.batches = batches.map((batch, i) => ({ step: i + 1, ...batch, jsonl: formatTuples(batch.tuples, 'jsonl') }));
+
+    const deleted = new Set(deletes.map(tupleKey));
+    const migrated = [...current.filter(tuple => !deleted.has(tupleKey(tuple))), ...written];
+    plan.access = this.compareAccess(oldModel, current, newModel, migrated, hints, options.context ?? {});
+
+    plan.summary = {
+      tuples: current.length,
+      unchanged: plan.summary.unchanged,
+      rewritten: plan.rewrites.length,
+      unresolved: plan.unresolved.length,
+      writes: written.length,
+      deletes: deletes.length
+    };
+    plan.valid = true;
+    plan.markdown = formatMigrationMarkdown(plan);
+    return plan;
+  }
+
+  private hints(changes: ModelChange[]): MigrationHints {
+    const hints: MigrationHints = { typeRenames: new Map(), relationRenames: new Map(), addedUsersets: new Map() };
+    for (const change of changes) {
+      if (change.renamedFrom) {
+        hints.typeRenames.set(change.renamedFrom, change.target);
+      }
+      if (change.renamedTo) {
+        hints.relationRenames.set(change.target, change.renamedTo);
+      }
+      // `document#editor: role#assignee`; conditional and wildcard forms are not usersets.
+      const [relation, restriction] = change.target.split(': ');
+      if (change.kind === 'user-type' && change.action === 'added' && /^[^:#\s]+#[^:#\s]+$/.test(restriction ?? '')) {
+        hints.addedUsersets.set(relation, [...(hints.addedUsersets.get(relation) ?? []), restriction]);
+      }
+    }
+    return hints;
+  }
+
+  /**
+   * Apply the type and relation renames from the diff to a tuple.
+   */
+  private renamed(tuple: RelationshipTuple, { typeRenames, relationRenames }: MigrationHints): RelationshipTuple {
+    const object = parseObjectRef(tuple.object);
+    const user = parseUserRef(tuple.user);
+    if (!object || !user) {
+      return tuple;
+    }
+    const objectType = typeRenames.get(object.type) ?? object.type;
+    const userType = typeRenames.get(user.type) ?? user.type;
+    const relation = relationRenames.get(`${objectType}#${tuple.relation}`) ?? tuple.relation;
+    const userRelation = user.relation ? relationRenames.get(`${userType}#${user.relation}`) ?? user.relation : undefined;
+    return {
+      ...tuple,
+      user: `${userType}:${user.id}${userRelation ? `#${userRelation}` : ''}`,
+      relation,
+      object: `${objectType}:${object.id}`
+    };
+  }
+
+  private rename(index: ModelIndex, tuple: RelationshipTuple, hints: MigrationHints): TupleRewrite | undefined {
+    const renamed = this.renamed(tuple, hints);
+    if (tupleKey(renamed) === tupleKey(tuple) || this.hasErrors(index, renamed)) {
+      return undefined;
+    }
+    const [objectType, userType] = [tuple.object, tuple.user].map(ref => ref.split(/[:#]/)[0]);
+    const oldUserRelation = parseUserRef(tuple.user)?.relation;
+    const newUserRelation = parseUserRef(renamed.user)?.relation;
+    const details = [
+      ...[...new Set([objectType, userType])].filter(type => hints.typeRenames.has(type))
+        .map(type => `type '${type}' renamed to '${hints.typeRenames.get(type)}'`),
+      ...(renamed.relation !== tuple.relation ? [`relation '${tuple.relation}' renamed to '${renamed.relation}'`] : []),
+      ...(newUserRelation !== oldUserRelation ? [`relation '${oldUserRelation}' renamed to '${newUserRelation}'`] : [])
+    ];
+    return {
+      from: tuple,
+      to: [renamed],
+      strategy: 'rename',
+      description: [...new Set(details)].join(', ')
+    };
+  }
+
+  /**
+   * Move a direct grant into a userset the new model added to the relation:
+   * the user joins `<type>:<object type>-<object id>-<relation>` and that
+   * userset is assigned the relation on the object.
+   */
+  private moveToUserset(index: ModelIndex, tuple: RelationshipTuple, hints: MigrationHints): TupleRewrite | undefined {
+    const renamed = this.renamed(tuple, hints);
+    const object = parseObjectRef(renamed.object);
+    if (!object) {
+      return undefined;
+    }
+
+    for (const userset of hints.addedUsersets.get(`${object.type}#${renamed.relation}`) ?? []) {
+      const [type, relation] = userset.split('#');
+      const group = `${type}:${object.type}-${object.id}-${renamed.relation}`;
+      const assignment: RelationshipTuple = { user: `${group}#${relation}`, relation: renamed.relation, object: renamed.object };
+      const membership: RelationshipTuple = { ...renamed, relation, object: group };
+      if (this.hasErrors(index, assignment) || this.hasErrors(index, membership)) {
+        continue;
+      }
+      return {
+        from: tuple,
+        to: [membership, assignment],
+        strategy: 'userset',
+        description: `'${parseUserRef(renamed.user)!.type}' is no longer assignable to '${object.type}#${renamed.relation}'; ` +
+          `granted through '${userset}' instead`
+      };
+    }
+    return undefined;
+  }
+
+  private hasErrors(index: ModelIndex, tuple: RelationshipTuple): boolean {
+    return this.tupleValidator.checkTuple(index, tuple).some(problem => problem.severity === 'error');
+  }
+
+  /**
+   * Check every user in the tuples against every relation both models define,
+   * on every object of those types, before and after the migration. Checks
+   * use the new names; renamed types and relations are checked under their
+   * old names before the migration.
+   */
+  private compareAccess(
+    oldModel: AuthorizationModelAst,
+    oldTuples: RelationshipTuple[],
+    newModel: AuthorizationModelAst,
+    newTuples: RelationshipTuple[],
+    hints: MigrationHints,
+    context: EvaluationContext
+  ): AccessComparison {
+    const comparison: AccessComparison = { checks: 0, gained: [], lost: [], undetermined: [], truncated: false };
+    const oldIndex = indexModel(oldModel);
+    const newIndex = indexModel(newModel);
+    const beforeGraph = new RelationshipGraph(oldModel, oldTuples, this.conditionEvaluator);
+    const afterGraph = new RelationshipGraph(newModel, newTuples, this.conditionEvaluator);
+
+    const oldTypes = new Map([...hints.typeRenames].map(([from, to]) => [to, from]));
+    const oldRelations = new Map([...hints.relationRenames].map(([key, to]) => [`${key.split('#')[0]}#${to}`, key.split('#')[1]]));
+    const oldType = (type: string) => oldTypes.get(type) ?? type;
+    const oldRelation = (type: string, relation: string) => oldRelations.get(`${type}#${relation}`) ?? relation;
+    const oldRef = (ref: string) => {
+      const [type, ...rest] = ref.split(':');
+      return [oldType(type), ...rest].join(':');
+    };
+    const inBoth = (type: string) => newIndex.types.has(type) && oldIndex.types.has(oldType(type));
+
+    const users = new Set<string>();
+    const objects = new Map<string, Set<string>>();
+    for (const tuple of [...oldTuples.map(old => this.renamed(old, hints)), ...newTuples]) {
+      const user = parseUserRef(tuple.user);
+      const object = parseObjectRef(tuple.object);
+      if (user && !user.relation && inBoth(user.type)) {
+        users.add(tuple.user);
+      }
+      for (const ref of [object, user && user.id !== '*' ? user : null]) {
+        if (ref && inBoth(ref.type)) {
+          objects.set(ref.type, (objects.get(ref.type) ?? new Set()).add(`${ref.type}:${ref.id}`));
+        }
+      }
+    }
+
+    const outcome = (graph: RelationshipGraph, user: string, relation: string, object: string): ExplanationOutcome => {
+      try {
+        return graph.check(user, relation, object, context) ? 'allowed' : 'denied';
+      } catch {
+        return 'error';
+      }
+    };
+
+    for (const user of [...users].sort()) {
+      for (const [type, ids] of [...objects.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+        const relations = [...newIndex.types.get(type)!.keys()]
+          .filter(relation => oldIndex.types.get(oldType(type))!.has(oldRelation(type, relation)));
+        for (const object of [...ids].sort()) {
+          for (const relation of relations) {
+            if (comparison.checks >= MAX_ACCESS_CHECKS) {
+              comparison.truncated = true;
+              return comparison;
+            }
+            comparison.checks++;
+            const change: AccessChange = {
+              user,
+              relation,
+              object,
+              before: outcome(beforeGraph, oldRef(user), oldRelation(type, relation), oldRef(object)),
+              after: outcome(afterGraph, user, relation, object)
+            };
+            if (change.before === change.after) {
+              continue;
+            }
+            if (change.after === 'allowed') {
+              comparison.gained.push(change);
+            } else if (change.before === 'allowed') {
+              comparison.lost.push(change);
+            } else {
+              comparison.undetermined.push(change);
+            }
+          }
+        }
+      }
+    }
+    return comparison;
+  }
+}
@@ -0,0 +1,235 @@
+import { Diagnostic, Severity, formatConditionParameterType, parseDsl } from './dsl-parser.js';
+import { ModelIndex, collectDirectRestrictions, formatRestriction, indexModel } from './model-index.js';
+import { ModelValidator } from './model-validator.js';
+import { convertContextValue } from './condition-evaluator.js';
+import { parseObjectRef, parseUserRef } from './relationship-graph.js';
+import {
+  LocatedTuple,
+  RelationshipTuple,
+  TupleFormat,
+  detectTupleContentFormat,
+  formatTuples,
+  parseLocatedTuples
+} from './tuple-formats.js';
+
+export interface TupleProblem {
+  severity: Severity;
+  code: string;
+  message: string;
+}
+
+export interface TupleIssue extends TupleProblem {
+  /**
+   * Where the tuple is in the input: `tuple 3 (line 12)`, `line 5` or `row 4`.
+   */
+  location: string;
+  line: number;
+  index?: number;
+  tuple?: RelationshipTuple;
+}
+
+export interface TupleValidationOptions {
+  /**
+   * Input format; inferred from the content when omitted.
+   */
+  format?: TupleFormat;
+  /**
+   * Also return the valid tuples converted to this format.
+   */
+  convertTo?: TupleFormat;
+}
+
+export interface TupleValidationResult {
+  valid: boolean;
+  format: TupleFormat;
+  modelDiagnostics: Diagnostic[];
+  issues: TupleIssue[];
+  summary: { tuples: number; valid: number; invalid: number; errors: number; warnings: number };
+  /**
+   * Why the input as a whole could not be read as tuples (malformed JSON, a
+   * single object instead of a list, a missing CSV header), if it could not.
+   */
+  parseError?: string;
+  converted?: { format: TupleFormat; content: string };
+}
+
+function locationOf(format: TupleFormat, located: LocatedTuple): string {
+  switch (format) {
+    case 'csv':
+      return `row ${located.line}`;
+    case 'jsonl':
+      return `line ${located.line}`;
+    default:
+      return `tuple ${located.index} (line ${located.line})`;
+  }
+}
+
+/**
+ * Checks relationship tuples against a model the way OpenFGA's Write API
+ * does: object types, assignable relations, allowed user types and
+ * conditions with typed context.
+ */
+export class TupleValidator {
+  constructor(private readonly validator: ModelValidator = new ModelValidator()) {}
+
+  public validate(model: string, content: string, options: TupleValidationOptions = {}): TupleValidationResult {
+    const format = options.format ?? detectTupleContentFormat(content);
+    const result: TupleValidationResult = {
+      valid: false,
+      format,
+      modelDiagnostics: this.validator.validate(model).diagnostics,
+      issues: [],
+      summary: { tuples: 0, valid: 0, invalid: 0, errors: 0, warnings: 0 }
+    };
+    if (result.modelDiagnostics.some(d => d.severity === 'error')) {
+      return result;
+    }
+
+    const parsed = parseLocatedTuples(content, format);
+    const parseError = parsed.errors.find(error => error.index === undefined);
+    if (parseError) {
+      result.parseError = parseError.message;
+    }
+    for (const error of parsed.errors) {
+      result.issues.push({
+        severity: 'error',
+        code: 'invalid-tuple',
+        message: error.message,
+        location: error.location || `line ${error.line}`,
+        line: error.line,
+        ...(error.index !== undefined ? { index: error.index } : {})
+      });
+    }
+
+    const index = indexModel(parseDsl(model).model);
+    const seen = new Map<string, string>();
+    const invalid = new Set<number>(parsed.errors.map(error => error.index ?? 0).filter(i => i > 0));
+    for (const located of parsed.tuples) {
+      const location = locationOf(format, located);
+      const problems = this.checkTuple(index, located.tuple);
+
+      const key = `${located.tuple.user} ${located.tuple.relation} ${located.tuple.object}`;
+      const first = seen.get(key);
+      if (first) {
+        problems.push({ severity: 'error', code: 'duplicate-tuple', message: `Duplicate of ${first}` });
+      } else {
+        seen.set(key, location);
+      }
+
+      for (const problem of problems) {
+        result.issues.push({ ...problem, location, line: located.line, index: located.index, tuple: located.tuple });
+      }
+      if (problems.some(problem => problem.severity === 'error')) {
+        invalid.add(located.index);
+      }
+    }
+
+    result.issues.sort((a, b) => a.line - b.line);
+    result.summary = {
+      tuples: parsed.tuples.length + parsed.errors.filter(error => error.index !== undefined).length,
+      valid: parsed.tuples.filter(located => !invalid.has(located.index)).length,
+      invalid: invalid.size,
+      errors: result.issues.filter(issue => issue.severity === 'error').length,
+      warnings: result.issues.filter(issue => issue.severity === 'warning').length
+    };
+    result.valid = result.summary.errors === 0;
+
+    if (options.convertTo) {
+      const tuples = parsed.tuples.filter(located => !invalid.has(located.index)).map(located => located.tuple);
+      result.converted = { format: options.convertTo, content: formatTuples(tuples, options.convertTo) };
+    }
+    return result;
+  }
+
+  /**
+   * Problems with a single tuple; empty when OpenFGA would accept it.
+   */
+  public checkTuple(index: ModelIndex, tuple: RelationshipTuple): TupleProblem[] {
+    const problems: TupleProblem[] = [];
+    const error = (code: string, message: string) => problems.push({ severity: 'error', code, message });
+
+    const object = parseObjectRef(tuple.object);
+    if (!object || object.id === '*') {
+      error('invalid-object', `Object '${tuple.object}' must be 'type:id' (wildcards are only allowed for users)`);
+      return problems;
+    }
+    const relations = index.types.get(object.type);
+    if (!relations) {
+      error('unknown-object-type', `Type '${object.type}' is not defined in the model`);
+      return problems;
+    }
+    const relation = relations.get(tuple.relation);
+    if (!relation) {
+      error('unknown-relation', `Type '${object.type}' has no relation '${tuple.relation}'`);
+      return problems;
+    }
+    const restrictions = collectDirectRestrictions(relation.rewrite);
+    if (restrictions.length === 0) {
+      error('relation-not-assignable', `'${object.type}#${tuple.relation}' is not directly assignable; it is computed from other relations`);
+      return problems;
+    }
+
+    const user = parseUserRef(tuple.user);
+    if (!user) {
+      error('invalid-user', `User '${tuple.user}' must be 'type:id', 'type:*' or 'type:id#relation'`);
+      return problems;
+    }
+    if (!index.types.has(user.type)) {
+      error('unknown-user-type', `User type '${user.type}' is not defined in the model`);
+      return problems;
+    }
+    if (user.relation && !index.types.get(user.type)!.has(user.relation)) {
+      error('unknown-user-relation', `Type '${user.type}' has no relation '${user.relation}'`);
+      return problems;
+    }
+
+    const wildcard = user.id === '*' && !user.relation;
+    const forms = restrictions.filter(restriction => restriction.type === user.type && (wildcard
+      ? restriction.wildcard
+      : user.relation ? restriction.relation === user.relation : !restriction.wildcard && !restriction.relation));
+    const allowed = [...new Set(restrictions.map(formatRestriction))].join(', ');
+    const form = wildcard ? `${user.type}:*` : user.relation ? `${user.type}#${user.relation}` : user.type;
+    if (forms.length === 0) {
+      error('user-type-not-allowed', `'${form}' is not allowed on '${object.type}#${tuple.relation}' (allowed: ${allowed})`);
+      return problems;
+    }
+
+    if (!tuple.condition) {
+      if (!forms.some(restriction => !restriction.condition)) {
+        const required = forms.map(restriction => restriction.condition).join(' or ');
+        error('missing-condition', `'${form}' on '${object.type}#${tuple.relation}' requires condition ${required}`);
+      }
+      return problems;
+    }
+
+    const condition = index.conditions.get(tuple.condition.name);
+    if (!condition) {
+      error('unknown-condition', `Condition '${tuple.condition.name}' is not defined in the model`);
+      return problems;
+    }
+    if (!forms.some(restriction => restriction.condition === condition.name)) {
+      error('condition-not-allowed', `'${form} with ${condition.name}' is not allowed on '${object.type}#${tuple.relation}' (allowed: ${allowed})`);
+    }
+
+    for (const [name, value] of Object.entries(tuple.condition.context ?? {})) {
+      const parameter = condition.parameters.find(candidate => candidate.name === name);
+      if (!parameter) {
+        problems.push({
+          severity: 'warning',
+          code: 'unknown-context-parameter',
+          message: `Condition '${condition.name}' has no parameter '${name}'`
+        });
+        continue;
+      }
+      try {
+        convertContextValue(value, parameter.type);
+      } catch (conversionError) {
+        error(
+          'invalid-context-type',
+          `Parameter '${name}' of condition '${condition.name}' is ${formatConditionParameterType(parameter.type)}: ${(conversionError as Error).message}`
+        );
+      }
+    }
+    return problems;
+  }
+}
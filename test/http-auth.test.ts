@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { KeyObject, generateKeyPairSync, sign } from 'node:crypto';
+import { IncomingMessage } from 'node:http';
+import { describe, it } from 'node:test';
+import { AuthError, HttpAuthenticator, JwtAuthenticator, StaticTokenAuthenticator } from '../src/http-auth.js';
+
+const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const now = () => Math.floor(Date.now() / 1000);
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function jwt(claims: Record<string, unknown>, key: KeyObject = privateKey, header: Record<string, unknown> = { alg: 'ES256', kid: 'main' }): string {
+  const data = `${encode(header)}.${encode(claims)}`;
+  const signature = sign('sha256', Buffer.from(data), { key, dsaEncoding: 'ieee-p1363' });
+  return `${data}.${signature.toString('base64url')}`;
+}
+
+function request(headers: Record<string, string>): IncomingMessage {
+  return { headers } as unknown as IncomingMessage;
+}
+
+describe('JwtAuthenticator', () => {
+  const authenticator = new JwtAuthenticator([{ kid: 'main', alg: 'ES256', key: publicKey }], { issuer: 'https://issuer.example', audience: 'mcp' });
+  const valid = { sub: 'anne', iss: 'https://issuer.example', aud: 'mcp', exp: now() + 300 };
+
+  it('accepts a signed token with valid claims', () => {
+    const principal = authenticator.authenticate(jwt(valid));
+    assert.equal(principal?.id, 'anne');
+    assert.equal(principal?.method, 'jwt');
+  });
+
+  it('rejects a token without an exp claim', () => {
+    const { exp: _exp, ...claims } = valid;
+    assert.throws(() => authenticator.authenticate(jwt(claims)), { name: 'AuthError', message: 'JWT has no expiry (exp claim)' });
+  });
+
+  it('rejects a non-numeric exp claim', () => {
+    assert.throws(() => authenticator.authenticate(jwt({ ...valid, exp: String(now() + 300) })), AuthError);
+  });
+
+  it('rejects an expired token beyond the clock tolerance', () => {
+    assert.throws(() => authenticator.authenticate(jwt({ ...valid, exp: now() - 120 })), { message: 'JWT has expired' });
+    assert.equal(authenticator.authenticate(jwt({ ...valid, exp: now() - 30 }))?.id, 'anne');
+  });
+
+  it('rejects a token that is not valid yet', () => {
+    assert.throws(() => authenticator.authenticate(jwt({ ...valid, nbf: now() + 600 })), { message: 'JWT is not valid yet' });
+  });
+
+  it('rejects a token signed with another key', () => {
+    const other = generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey;
+    assert.throws(() => authenticator.authenticate(jwt(valid, other)), { message: 'Invalid JWT signature' });
+  });
+
+  it('rejects unsupported algorithms and unknown key ids', () => {
+    assert.throws(() => authenticator.authenticate(jwt(valid, privateKey, { alg: 'none' })), { message: "Unsupported JWT algorithm 'none'" });
+    assert.throws(() => authenticator.authenticate(jwt(valid, privateKey, { alg: 'ES256', kid: 'other' })), AuthError);
+  });
+
+  it('checks the issuer and audience', () => {
+    assert.throws(() => authenticator.authenticate(jwt({ ...valid, iss: 'https://evil.example' })), AuthError);
+    assert.throws(() => authenticator.authenticate(jwt({ ...valid, aud: ['other'] })), AuthError);
+    assert.equal(authenticator.authenticate(jwt({ ...valid, aud: ['other', 'mcp'] }))?.id, 'anne');
+  });
+
+  it('ignores credentials that are not JWTs', () => {
+    assert.equal(authenticator.authenticate('not-a-jwt'), null);
+  });
+});
+
+describe('StaticTokenAuthenticator', () => {
+  const authenticator = new StaticTokenAuthenticator(new Map([['s3cret', 'ci']]));
+
+  it('names the client of a known token', () => {
+    assert.deepEqual(authenticator.authenticate('s3cret'), { id: 'ci', method: 'token' });
+  });
+
+  it('does not recognise other tokens', () => {
+    assert.equal(authenticator.authenticate('s3cre'), null);
+  });
+});
+
+describe('HttpAuthenticator', () => {
+  const authenticator = new HttpAuthenticator([
+    new StaticTokenAuthenticator(new Map([['s3cret', 'ci']])),
+    new JwtAuthenticator([{ kid: 'main', key: publicKey }])
+  ]);
+
+  it('is disabled without authenticators', () => {
+    assert.equal(new HttpAuthenticator([]).authenticate(request({})), null);
+  });
+
+  it('reads bearer tokens and API keys', () => {
+    assert.equal(authenticator.authenticate(request({ authorization: 'Bearer s3cret' }))?.id, 'ci');
+    assert.equal(authenticator.authenticate(request({ 'x-api-key': 's3cret' }))?.id, 'ci');
+    assert.equal(authenticator.authenticate(request({ authorization: `Bearer ${jwt({ sub: 'anne', exp: now() + 60 })}` }))?.id, 'anne');
+  });
+
+  it('rejects missing, malformed and unknown credentials', () => {
+    assert.throws(() => authenticator.authenticate(request({})), { message: 'Authentication required', code: 'invalid_request' });
+    assert.throws(() => authenticator.authenticate(request({ authorization: 'Basic czNjcmV0' })), { code: 'invalid_request' });
+    assert.throws(() => authenticator.authenticate(request({ authorization: 'Bearer nope' })), { message: 'Invalid credentials' });
+  });
+});